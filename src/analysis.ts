@@ -0,0 +1,77 @@
+import { PositionedToken } from './tokens.js';
+import { Sentence, splitTokensIntoSentences } from './sentences.js';
+import { countCharacters } from './counting.js';
+import { ReadabilityMethod, ReadabilityResult, computeReadability } from './readability.js';
+import { DEFAULT_METRIC_SETTINGS, MetricSettings, TargetCheck, checkTarget, localize } from './metrics.js';
+
+// 分析の指標
+// valueは数値、または項目ごとの比率（%）
+// targetsは目標範囲との比較結果（目標範囲を設定した指標のみ）
+export interface AnalysisMetric {
+  name: string;
+  value: number | Record<string, number>;
+  unit: string;
+  description: string;
+  counts?: Record<string, number>;
+  targets?: TargetCheck[];
+}
+
+// テキストの分析結果
+export interface TextAnalysis {
+  summary: {
+    totalChars: number;
+    totalSentences: number;
+    totalMorphemes: number;
+  };
+  metrics: Record<string, AnalysisMetric>;
+  readability: ReadabilityResult;
+  sentences: Sentence[];
+}
+
+// 形態素解析の結果から文章の特徴（平均文長・品詞の割合・語彙の多様性など）を算出する関数
+// 算出する指標と目標範囲は settings（設定ファイルの metrics）で指定する
+export function analyzeTextMetrics(
+  text: string,
+  tokens: PositionedToken[],
+  readabilityMethod: ReadabilityMethod = 'jreadability',
+  settings: MetricSettings = DEFAULT_METRIC_SETTINGS
+): TextAnalysis {
+  // テキストを文に分割（括弧内の句点・小数点・URLでは区切らず、改行は文の区切りとする）
+  const sentences = splitTokensIntoSentences(text, tokens);
+
+  // 基本的な分析結果
+  const totalChars = countCharacters(text, 'no_whitespace');
+  const totalSentences = sentences.length;
+  const totalMorphemes = tokens.length;
+
+  // 読みやすさ
+  const readability = computeReadability(text, tokens, sentences.length, readabilityMethod);
+
+  // 有効な指標を算出し、目標範囲と比べる
+  const context = { text, tokens, sentences, totalChars, totalSentences, totalMorphemes };
+  const metrics: Record<string, AnalysisMetric> = {};
+  for (const definition of settings.enabled) {
+    const { value, counts } = definition.compute(context);
+    const override = settings.overrides[definition.id] || {};
+    const target = settings.targets[definition.id];
+    metrics[definition.id] = {
+      name: localize(override.name ?? definition.name, settings.locale),
+      value,
+      unit: definition.unit,
+      description: localize(override.description ?? definition.description, settings.locale),
+      ...(counts ? { counts } : {}),
+      ...(target ? { targets: checkTarget(value, target) } : {})
+    };
+  }
+
+  return {
+    summary: {
+      totalChars,
+      totalSentences,
+      totalMorphemes
+    },
+    metrics,
+    readability,
+    sentences
+  };
+}
@@ -0,0 +1,316 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { LintSeverity } from './lint.js';
+
+// 終了コード
+export const EXIT_OK = 0;
+// 問題が見つかった（校正の指摘、目標範囲外の指標、文体の混在、表記ゆれ）
+export const EXIT_PROBLEMS = 1;
+// 引数の誤りやファイルの読み込みエラーなどで実行できなかった
+export const EXIT_ERROR = 2;
+
+// 校正の指摘で終了コードを1にする重要度の下限（none は指摘があっても0）
+export type FailOn = LintSeverity | 'none';
+
+// コマンドライン引数を解析した結果
+export interface CliArgs {
+  command: string;
+  // ファイル・ディレクトリのパス（- は標準入力）
+  inputs: string[];
+  // 結果を structuredContent と同じJSONで出力するかどうか
+  json: boolean;
+  failOn: FailOn;
+  help: boolean;
+  // ツールに渡す引数（--key=value、値のない --flag は true）
+  params: Record<string, string | true>;
+}
+
+// コマンドの定義
+interface CliCommand {
+  description: string;
+  // ファイルを対象とするツール
+  tool: string;
+  // 標準入力のテキストを対象とするツール（text 引数を取る）
+  textTool?: string;
+  // 1回の呼び出しで使う入力の引数名（compare は変更前・変更後の2つ）
+  inputParams: string[];
+  // 結果に問題があるかどうか（ある場合は終了コード1）
+  hasProblems?: (data: any, args: CliArgs) => boolean;
+}
+
+const SEVERITY_RANK: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+// コマンドの一覧（コマンド名 → ツール）
+const COMMANDS: Record<string, CliCommand> = {
+  'count': {
+    description: '文字数を計測する',
+    tool: 'count_chars',
+    textTool: 'count_clipboard_chars',
+    inputParams: ['filePath']
+  },
+  'words': {
+    description: '単語数を計測する',
+    tool: 'count_words',
+    textTool: 'count_clipboard_words',
+    inputParams: ['filePath']
+  },
+  'analyze': {
+    description: '詳細な分析を行う（目標範囲外の指標があれば終了コード1）',
+    tool: 'analyze_file',
+    textTool: 'analyze_text',
+    inputParams: ['filePath'],
+    hasProblems: data => Object.values(data.metrics || {}).some((metric: any) =>
+      (metric.targets || []).some((target: any) => target.status !== 'within'))
+  },
+  'tokenize': {
+    description: '形態素解析を行う',
+    tool: 'tokenize_file',
+    textTool: 'tokenize_text',
+    inputParams: ['filePath']
+  },
+  'lint': {
+    description: '校正する（--fail-on 以上の重要度の指摘があれば終了コード1）',
+    tool: 'lint_file',
+    textTool: 'lint_text',
+    inputParams: ['filePath'],
+    hasProblems: (data, args) => args.failOn !== 'none' &&
+      data.diagnostics.some((diagnostic: any) => SEVERITY_RANK[diagnostic.severity as LintSeverity] <= SEVERITY_RANK[args.failOn as LintSeverity])
+  },
+  'style': {
+    description: '文体（敬体・常体）を判定する（混在があれば終了コード1）',
+    tool: 'check_style_file',
+    textTool: 'check_style_text',
+    inputParams: ['filePath'],
+    hasProblems: data => data.inconsistentSentences.length > 0
+  },
+  'readability': {
+    description: '読みやすさを算出する',
+    tool: 'score_readability_file',
+    textTool: 'score_readability_text',
+    inputParams: ['filePath']
+  },
+  'kanji': {
+    description: '漢字の構成を分析する',
+    tool: 'kanji_profile_file',
+    textTool: 'kanji_profile_text',
+    inputParams: ['filePath']
+  },
+  'manuscript': {
+    description: '原稿用紙に換算する',
+    tool: 'manuscript_layout_file',
+    textTool: 'manuscript_layout_text',
+    inputParams: ['filePath']
+  },
+  'keywords': {
+    description: 'キーワードを抽出する',
+    tool: 'extract_keywords_file',
+    textTool: 'extract_keywords',
+    inputParams: ['filePath']
+  },
+  'variants': {
+    description: '表記ゆれを検出する（表記ゆれがあれば終了コード1）',
+    tool: 'check_variants_file',
+    textTool: 'check_variants_text',
+    inputParams: ['filePath'],
+    hasProblems: data => data.totalGroups > 0
+  },
+  'entities': {
+    description: '固有表現（人名・地名・組織名）を抽出する',
+    tool: 'extract_entities_file',
+    textTool: 'extract_entities',
+    inputParams: ['filePath']
+  },
+  'analyze-dir': {
+    description: 'ディレクトリ内のファイルをまとめて分析する',
+    tool: 'analyze_directory',
+    inputParams: ['directory']
+  },
+  'compare': {
+    description: '2つのファイル（変更前・変更後）を比較する',
+    tool: 'compare_files',
+    inputParams: ['beforePath', 'afterPath']
+  }
+};
+
+// 値を取るサーバーの引数（ツールの引数としては扱わない）
+const SERVER_OPTIONS_WITH_VALUE = ['--root', '--max-file-size', '--transport', '--port', '--host', '--session-timeout'];
+
+// コマンドライン引数を解析する関数
+// 位置引数がない場合（MCPサーバーとして起動する場合）はnullを返す
+export function parseCliArgs(argv: string[]): CliArgs | null {
+  const positionals: string[] = [];
+  const args: CliArgs = { command: '', inputs: [], json: false, failOn: 'warning', help: false, params: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-' || !arg.startsWith('-')) {
+      positionals.push(arg);
+      continue;
+    }
+    const [flag, value] = arg.split(/=(.*)/s);
+    if (SERVER_OPTIONS_WITH_VALUE.includes(flag)) {
+      if (value === undefined) {
+        i++;
+      }
+    } else if (flag === '--json') {
+      args.json = true;
+    } else if (flag === '--help' || flag === '-h') {
+      args.help = true;
+    } else if (flag === '--fail-on') {
+      args.failOn = value as FailOn;
+    } else {
+      // --reading-method=x のようなケバブケースはツールの引数名（readingMethod）に変換する
+      const name = flag.replace(/^--?/, '').replace(/-([a-z])/g, (_, char) => char.toUpperCase());
+      args.params[name] = value ?? true;
+    }
+  }
+
+  if (positionals.length === 0 && !args.help) {
+    return null;
+  }
+  [args.command = 'help', ...args.inputs] = positionals;
+  return args;
+}
+
+// 使い方
+export function formatUsage(): string {
+  const width = Math.max(...Object.keys(COMMANDS).map(name => name.length));
+  const commands = Object.entries(COMMANDS).map(([name, command]) => `  ${name.padEnd(width)}  ${command.description}（${command.tool}）`);
+  return `使い方:
+  mcp-japanesetextanalyzer                          MCPサーバーとして起動する（標準入出力）
+  mcp-japanesetextanalyzer --transport http         MCPサーバーとして起動する（Streamable HTTP）
+  mcp-japanesetextanalyzer <コマンド> <ファイル...> [オプション]
+
+コマンド:
+${commands.join('\n')}
+
+ファイルに - を指定すると標準入力のテキストを対象にします（analyze-dir・compare を除く）。
+
+オプション:
+  --json                 結果をJSON（structuredContent）で出力する
+  --fail-on=<重要度>     lint で終了コード1にする指摘の重要度の下限（error・warning・info・none、デフォルト: warning）
+  --<引数名>=<値>        ツールの引数。配列はカンマ区切りかJSON、オブジェクトはJSONで指定する
+                         （例: --encoding=shift_jis --rules='{"sentence-length":{"max":80}}'）
+  --root <ディレクトリ>  読み込みを許可するディレクトリ（複数指定可）
+  --max-file-size <サイズ>  読み込めるファイルサイズの上限
+
+終了コード:
+  0  問題なし
+  1  問題が見つかった（lint の指摘、analyze の目標範囲外の指標、style の文体の混在、variants の表記ゆれ）
+  2  引数の誤り、またはファイルを読み込めないなどのエラー`;
+}
+
+// 標準入力を最後まで読み込む
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+// コマンドラインの文字列を、ツールの入力スキーマ（JSON Schema）の型に合わせて変換する
+function coerceParam(value: string | true, schema: any): unknown {
+  if (value === true) {
+    return true;
+  }
+  const type = schema?.type ?? schema?.anyOf?.find((option: any) => option.type)?.type;
+  switch (type) {
+    case 'boolean':
+      return value !== 'false';
+    case 'number':
+    case 'integer':
+      return Number(value);
+    case 'array':
+      return value.startsWith('[') ? JSON.parse(value) : value.split(',').map(item => item.trim()).filter(Boolean);
+    case 'object':
+      return JSON.parse(value);
+    default:
+      return value;
+  }
+}
+
+// コマンドを実行する関数（終了コードを返す）
+// connect で作成したMCPサーバーにプロセス内で接続し、MCPのツールと同じ処理を呼び出す
+export async function runCli(args: CliArgs, connect: (transport: Transport) => Promise<void>): Promise<number> {
+  if (args.help || args.command === 'help') {
+    console.log(formatUsage());
+    return EXIT_OK;
+  }
+  if (!['error', 'warning', 'info', 'none'].includes(args.failOn)) {
+    console.error(`--fail-on には error・warning・info・none のいずれかを指定してください（指定された値: ${args.failOn}）`);
+    return EXIT_ERROR;
+  }
+  const command = COMMANDS[args.command];
+  if (!command) {
+    console.error(`不明なコマンドです: ${args.command}\n\n${formatUsage()}`);
+    return EXIT_ERROR;
+  }
+  const groupSize = command.inputParams.length;
+  if (args.inputs.length === 0 || args.inputs.length % groupSize !== 0 || (groupSize > 1 && args.inputs.length !== groupSize)) {
+    console.error(`${args.command} には ${command.inputParams.join('・')} を指定してください\n\n${formatUsage()}`);
+    return EXIT_ERROR;
+  }
+  if (args.inputs.includes('-') && (!command.textTool || args.inputs.length > 1)) {
+    console.error(`${args.command} では標準入力（-）を使用できません${command.textTool ? '（ほかのファイルと同時に指定することはできません）' : ''}`);
+    return EXIT_ERROR;
+  }
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await connect(serverTransport);
+  const client = new Client({ name: 'mcp-japanesetextanalyzer-cli', version: '1.0.0' });
+  await client.connect(clientTransport);
+
+  try {
+    const { tools } = await client.listTools();
+    let exitCode = EXIT_OK;
+    const results: unknown[] = [];
+
+    for (let i = 0; i < args.inputs.length; i += groupSize) {
+      const inputs = args.inputs.slice(i, i + groupSize);
+      const useStdin = inputs[0] === '-';
+      const toolName = useStdin ? command.textTool : command.tool;
+      const properties = (tools.find(tool => tool.name === toolName)?.inputSchema.properties || {}) as Record<string, any>;
+
+      const toolArgs: Record<string, unknown> = useStdin
+        ? { text: await readStdin() }
+        : Object.fromEntries(command.inputParams.map((name, index) => [name, inputs[index]]));
+      for (const [name, value] of Object.entries(args.params)) {
+        if (!(name in properties) || name in toolArgs || name === 'format') {
+          const available = Object.keys(properties).filter(key => !(key in toolArgs) && key !== 'format');
+          console.error(`${toolName} に引数 ${name} はありません（指定できる引数: ${available.join(', ')}）`);
+          return EXIT_ERROR;
+        }
+        toolArgs[name] = coerceParam(value, properties[name]);
+      }
+
+      const result = await client.callTool({ name: toolName, arguments: { ...toolArgs, format: 'markdown' } });
+      const text = (result.content as { type: string; text?: string }[])
+        .filter(item => item.type === 'text')
+        .map(item => item.text)
+        .join('\n');
+      if (result.isError) {
+        console.error(text);
+        exitCode = EXIT_ERROR;
+        continue;
+      }
+
+      if (args.json) {
+        results.push(result.structuredContent);
+      } else {
+        console.log(text);
+      }
+      if (exitCode === EXIT_OK && command.hasProblems?.(result.structuredContent, args)) {
+        exitCode = EXIT_PROBLEMS;
+      }
+    }
+
+    if (args.json) {
+      console.log(JSON.stringify(results.length === 1 ? results[0] : results, null, 2));
+    }
+    return exitCode;
+  } finally {
+    await client.close();
+  }
+}
@@ -0,0 +1,409 @@
+import { PositionedToken, isSymbolToken, isWhitespaceToken } from './tokens.js';
+import { SentenceSpan } from './sentences.js';
+import { AnalysisMetric } from './analysis.js';
+
+// 指標の変化
+// percentChange は変更前の値が0の場合null
+export interface MetricDelta {
+  before: number;
+  after: number;
+  delta: number;
+  percentChange: number | null;
+}
+
+// 指標ごとの比較結果
+// 数値の指標は change に、比率の指標は項目ごとの変化を items に格納する
+export interface MetricComparison {
+  name: string;
+  unit: string;
+  change?: MetricDelta;
+  items?: Record<string, MetricDelta>;
+}
+
+// 変更前後の値から変化量と変化率（%）を求める関数
+export function compareValues(before: number, after: number): MetricDelta {
+  return {
+    before,
+    after,
+    delta: after - before,
+    percentChange: before !== 0 ? ((after - before) / Math.abs(before)) * 100 : null
+  };
+}
+
+// 分析の指標を比較する関数（比率の指標は変更前後のどちらかに現れる項目ごとに比較する）
+export function compareMetrics(
+  before: Record<string, AnalysisMetric>,
+  after: Record<string, AnalysisMetric>
+): Record<string, MetricComparison> {
+  const result: Record<string, MetricComparison> = {};
+  for (const [key, metric] of Object.entries(before)) {
+    const next = after[key];
+    if (!next) {
+      continue;
+    }
+    if (typeof metric.value === 'number' && typeof next.value === 'number') {
+      result[key] = { name: metric.name, unit: metric.unit, change: compareValues(metric.value, next.value) };
+      continue;
+    }
+
+    const beforeItems = typeof metric.value === 'number' ? {} : metric.value;
+    const afterItems = typeof next.value === 'number' ? {} : next.value;
+    const items: Record<string, MetricDelta> = {};
+    for (const item of new Set([...Object.keys(beforeItems), ...Object.keys(afterItems)])) {
+      items[item] = compareValues(beforeItems[item] || 0, afterItems[item] || 0);
+    }
+    result[key] = { name: metric.name, unit: metric.unit, items };
+  }
+  return result;
+}
+
+// 語彙の変化
+export interface VocabularyChange {
+  word: string;
+  before: number;
+  after: number;
+}
+
+// 語彙（基本形）の差分
+export interface VocabularyDiff {
+  // 変更後にのみ現れる語
+  added: VocabularyChange[];
+  // 変更前にのみ現れる語
+  removed: VocabularyChange[];
+  // 両方に現れ、出現数が変わった語
+  changed: VocabularyChange[];
+}
+
+// 基本形ごとの出現数（記号・空白を除き、基本形がない語は表層形で数える）
+function countBasicForms(tokens: PositionedToken[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    if (isSymbolToken(token) || isWhitespaceToken(token)) {
+      continue;
+    }
+    const word = token.basic_form && token.basic_form !== '*' ? token.basic_form : token.surface_form;
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  return counts;
+}
+
+// 変更前後の語彙を基本形で比較する関数（それぞれ出現数・変化の大きい順にlimit件まで返す）
+export function diffVocabulary(before: PositionedToken[], after: PositionedToken[], limit: number = 50): VocabularyDiff {
+  const beforeCounts = countBasicForms(before);
+  const afterCounts = countBasicForms(after);
+  const added: VocabularyChange[] = [];
+  const removed: VocabularyChange[] = [];
+  const changed: VocabularyChange[] = [];
+
+  for (const word of new Set([...beforeCounts.keys(), ...afterCounts.keys()])) {
+    const change = { word, before: beforeCounts.get(word) || 0, after: afterCounts.get(word) || 0 };
+    if (change.before === 0) {
+      added.push(change);
+    } else if (change.after === 0) {
+      removed.push(change);
+    } else if (change.before !== change.after) {
+      changed.push(change);
+    }
+  }
+
+  const byMagnitude = (a: VocabularyChange, b: VocabularyChange) =>
+    Math.abs(b.after - b.before) - Math.abs(a.after - a.before) || a.word.localeCompare(b.word);
+  return {
+    added: added.sort(byMagnitude).slice(0, limit),
+    removed: removed.sort(byMagnitude).slice(0, limit),
+    changed: changed.sort(byMagnitude).slice(0, limit)
+  };
+}
+
+// 文の対応の種類
+// unchanged: 変更なし, changed: 書き換え, split: 1文を複数の文に分割, merged: 複数の文を1文に結合
+// added: 追加, removed: 削除
+export type AlignmentType = 'unchanged' | 'changed' | 'split' | 'merged' | 'added' | 'removed';
+
+// 文の対応の種類の表示名
+export const ALIGNMENT_LABELS: Record<AlignmentType, string> = {
+  unchanged: '変更なし',
+  changed: '書き換え',
+  split: '分割',
+  merged: '結合',
+  added: '追加',
+  removed: '削除'
+};
+
+// 文の対応（before/after は文の番号、0始まり）
+export interface SentenceAlignment {
+  type: AlignmentType;
+  before: number[];
+  after: number[];
+  // 文字のバイグラムによる類似度（0〜1）
+  similarity: number;
+}
+
+// 文字のバイグラムの集合（1文字の文はその文字だけ）
+function bigrams(text: string): Set<string> {
+  const chars = [...text.replace(/\s+/g, '')];
+  const result = new Set<string>();
+  if (chars.length === 1) {
+    result.add(chars[0]);
+  }
+  for (let i = 0; i < chars.length - 1; i++) {
+    result.add(chars[i] + chars[i + 1]);
+  }
+  return result;
+}
+
+// バイグラムの集合のDice係数
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  for (const gram of a) {
+    if (b.has(gram)) {
+      shared++;
+    }
+  }
+  return (2 * shared) / (a.size + b.size);
+}
+
+// partのバイグラムのうちwholeに含まれる割合
+function containment(part: Set<string>, whole: Set<string>): number {
+  if (part.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  for (const gram of part) {
+    if (whole.has(gram)) {
+      shared++;
+    }
+  }
+  return shared / part.size;
+}
+
+function union(a: Set<string>, b: Set<string>): Set<string> {
+  return new Set([...a, ...b]);
+}
+
+// 文の追加・削除のコスト（類似度がこれを下回る文どうしは書き換えではなく削除と追加として扱う）
+const INDEL_COST = 0.35;
+
+// 分割・結合のコスト（類似度が同程度なら1対1の対応を優先する）
+const SPLIT_MERGE_PENALTY = 0.05;
+
+// 分割・結合とみなすために、分割後（結合前）のそれぞれの文が元の文と共有すべきバイグラムの割合
+const MIN_PART_CONTAINMENT = 0.4;
+
+// 文の対応を求める表の大きさ（変更前の文の数 × 変更後の文の数）の上限
+// 表は文の数の積に比例するメモリを使うため、超える範囲は両方に1回ずつだけ現れる文で区切り、区切れない場合はエラーにする
+export const MAX_ALIGNMENT_CELLS = 4000000;
+
+// 同一の文の対応（最長共通部分列）を求める関数（[i0, i1) と [j0, j1) の範囲）
+function findIdenticalSentences(beforeTexts: string[], afterTexts: string[], i0: number, i1: number, j0: number, j1: number): [number, number][] {
+  // 先頭と末尾の同一の文はそのまま対応させる
+  const head: [number, number][] = [];
+  while (i0 < i1 && j0 < j1 && beforeTexts[i0] === afterTexts[j0]) {
+    head.push([i0++, j0++]);
+  }
+  const tail: [number, number][] = [];
+  while (i0 < i1 && j0 < j1 && beforeTexts[i1 - 1] === afterTexts[j1 - 1]) {
+    tail.push([--i1, --j1]);
+  }
+  tail.reverse();
+  const rows = i1 - i0;
+  const cols = j1 - j0;
+  if (rows === 0 || cols === 0) {
+    return [...head, ...tail];
+  }
+
+  if (rows * cols > MAX_ALIGNMENT_CELLS) {
+    // 両方の範囲に1回ずつだけ現れる文のうち、順序が保たれる最長の組を区切りにする（patience diff）
+    const occurrences = new Map<string, { before: number; after: number; i: number; j: number }>();
+    for (let i = i0; i < i1; i++) {
+      const entry = occurrences.get(beforeTexts[i]) || { before: 0, after: 0, i, j: -1 };
+      entry.before++;
+      occurrences.set(beforeTexts[i], entry);
+    }
+    for (let j = j0; j < j1; j++) {
+      const entry = occurrences.get(afterTexts[j]);
+      if (entry) {
+        entry.after++;
+        entry.j = j;
+      }
+    }
+    const unique = [...occurrences.values()]
+      .filter(entry => entry.before === 1 && entry.after === 1)
+      .sort((a, b) => a.i - b.i);
+    const separators = longestIncreasingByAfter(unique);
+    if (separators.length === 0) {
+      throw new Error(`変更された文が多すぎるため、文の対応を求められません（変更前 ${rows}文 × 変更後 ${cols}文。上限は積が ${MAX_ALIGNMENT_CELLS} まで）。` +
+                      '章ごとなど、より小さな単位に分けて比較してください。');
+    }
+    // 長い範囲では要素数が多くスプレッド構文の引数の上限を超えるため、1つずつ追加する
+    const pairs: [number, number][] = [...head];
+    let i = i0;
+    let j = j0;
+    for (const separator of [...separators, { i: i1, j: j1 }]) {
+      for (const pair of findIdenticalSentences(beforeTexts, afterTexts, i, separator.i, j, separator.j)) {
+        pairs.push(pair);
+      }
+      if (separator.i < i1) {
+        pairs.push([separator.i, separator.j]);
+      }
+      i = separator.i + 1;
+      j = separator.j + 1;
+    }
+    return [...pairs, ...tail];
+  }
+
+  const lcs: Uint32Array[] = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = beforeTexts[i0 + i] === afterTexts[j0 + j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const pairs: [number, number][] = [];
+  for (let i = 0, j = 0; i < rows && j < cols;) {
+    if (beforeTexts[i0 + i] === afterTexts[j0 + j]) {
+      pairs.push([i0 + i, j0 + j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return [...head, ...pairs, ...tail];
+}
+
+// 変更前の位置の順に並んだ組から、変更後の位置も増加する最長の部分列を求める
+function longestIncreasingByAfter<T extends { j: number }>(items: T[]): T[] {
+  // tails[k]: 長さ k+1 の増加部分列の末尾のうち最小のもの（items の添字）
+  const tails: number[] = [];
+  const previous = new Int32Array(items.length).fill(-1);
+  items.forEach((item, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (items[tails[mid]].j < item.j) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+  const result: T[] = [];
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index >= 0; index = previous[index]) {
+    result.push(items[index]);
+  }
+  return result.reverse();
+}
+
+// 変更前後で文の対応を求める関数
+// 同一の文を最長共通部分列で固定し、その間の文を類似度に基づく動的計画法で対応付ける（1対1、1対2、2対1、1対0、0対1）
+export function alignSentences(before: SentenceSpan[], after: SentenceSpan[]): SentenceAlignment[] {
+  const beforeTexts = before.map(sentence => sentence.text.trim());
+  const afterTexts = after.map(sentence => sentence.text.trim());
+  const n = beforeTexts.length;
+  const m = afterTexts.length;
+  const anchors = findIdenticalSentences(beforeTexts, afterTexts, 0, n, 0, m);
+
+  // 2つの文がどちらもwholeの一部とみなせるかどうか（分割・結合の条件）
+  const isPartOf = (first: Set<string>, second: Set<string>, whole: Set<string>) =>
+    containment(first, whole) >= MIN_PART_CONTAINMENT && containment(second, whole) >= MIN_PART_CONTAINMENT;
+
+  const beforeGrams = beforeTexts.map(bigrams);
+  const afterGrams = afterTexts.map(bigrams);
+  const alignments: SentenceAlignment[] = [];
+
+  // 固定した文の間（[i0, i1) と [j0, j1)）を対応付ける
+  const alignGap = (i0: number, i1: number, j0: number, j1: number) => {
+    const rows = i1 - i0;
+    const cols = j1 - j0;
+    const cost: Float64Array[] = Array.from({ length: rows + 1 }, () => new Float64Array(cols + 1).fill(Infinity));
+    // 選んだ手順（di * 3 + dj）と類似度（セルごとにオブジェクトを作らないように型付き配列に記録する）
+    const step: Uint8Array[] = Array.from({ length: rows + 1 }, () => new Uint8Array(cols + 1));
+    const stepSimilarity: Float64Array[] = Array.from({ length: rows + 1 }, () => new Float64Array(cols + 1));
+    cost[0][0] = 0;
+
+    for (let i = 0; i <= rows; i++) {
+      for (let j = 0; j <= cols; j++) {
+        if (i === 0 && j === 0) {
+          continue;
+        }
+        const candidates: { di: number; dj: number; cost: number; similarity: number }[] = [];
+        // 同じコストの場合は削除を追加より先に並べる
+        if (j >= 1) {
+          candidates.push({ di: 0, dj: 1, cost: INDEL_COST, similarity: 0 });
+        }
+        if (i >= 1) {
+          candidates.push({ di: 1, dj: 0, cost: INDEL_COST, similarity: 0 });
+        }
+        if (i >= 1 && j >= 1) {
+          const similarity = dice(beforeGrams[i0 + i - 1], afterGrams[j0 + j - 1]);
+          candidates.push({ di: 1, dj: 1, cost: 1 - similarity, similarity });
+        }
+        if (i >= 1 && j >= 2 && isPartOf(afterGrams[j0 + j - 2], afterGrams[j0 + j - 1], beforeGrams[i0 + i - 1])) {
+          const similarity = dice(beforeGrams[i0 + i - 1], union(afterGrams[j0 + j - 2], afterGrams[j0 + j - 1]));
+          candidates.push({ di: 1, dj: 2, cost: 1 - similarity + SPLIT_MERGE_PENALTY, similarity });
+        }
+        if (i >= 2 && j >= 1 && isPartOf(beforeGrams[i0 + i - 2], beforeGrams[i0 + i - 1], afterGrams[j0 + j - 1])) {
+          const similarity = dice(union(beforeGrams[i0 + i - 2], beforeGrams[i0 + i - 1]), afterGrams[j0 + j - 1]);
+          candidates.push({ di: 2, dj: 1, cost: 1 - similarity + SPLIT_MERGE_PENALTY, similarity });
+        }
+        for (const candidate of candidates) {
+          const total = cost[i - candidate.di][j - candidate.dj] + candidate.cost;
+          if (total < cost[i][j]) {
+            cost[i][j] = total;
+            step[i][j] = candidate.di * 3 + candidate.dj;
+            stepSimilarity[i][j] = candidate.similarity;
+          }
+        }
+      }
+    }
+
+    // 経路を逆にたどる
+    const path: SentenceAlignment[] = [];
+    for (let i = rows, j = cols; i > 0 || j > 0;) {
+      const di = Math.floor(step[i][j] / 3);
+      const dj = step[i][j] % 3;
+      const similarity = stepSimilarity[i][j];
+      const beforeIndexes = Array.from({ length: di }, (_, k) => i0 + i - di + k);
+      const afterIndexes = Array.from({ length: dj }, (_, k) => j0 + j - dj + k);
+      let type: AlignmentType;
+      if (di === 0) {
+        type = 'added';
+      } else if (dj === 0) {
+        type = 'removed';
+      } else if (dj === 2) {
+        type = 'split';
+      } else if (di === 2) {
+        type = 'merged';
+      } else {
+        type = 'changed';
+      }
+      path.push({ type, before: beforeIndexes, after: afterIndexes, similarity });
+      i -= di;
+      j -= dj;
+    }
+    for (let k = path.length - 1; k >= 0; k--) {
+      alignments.push(path[k]);
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const [anchorI, anchorJ] of [...anchors, [n, m] as [number, number]]) {
+    alignGap(i, anchorI, j, anchorJ);
+    if (anchorI < n) {
+      alignments.push({ type: 'unchanged', before: [anchorI], after: [anchorJ], similarity: 1 });
+    }
+    i = anchorI + 1;
+    j = anchorJ + 1;
+  }
+
+  return alignments;
+}
@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { METRIC_LOCALES, MetricConfig, MetricLocale } from './metrics.js';
+
+// 設定ファイルの内容
+export interface AnalyzerConfig {
+  // ユーザー辞書のファイル（相対パスは設定ファイルのディレクトリから解決する）
+  userDictionary?: string[];
+  // 指標の名前・説明の言語
+  locale?: MetricLocale;
+  // 使用する指標（指定した順に出力する。省略時はすべての指標）
+  enabledMetrics?: string[];
+  // 指標ごとの設定（有効・無効、目標範囲、名前・説明）
+  metrics?: Record<string, MetricConfig>;
+}
+
+// 設定ファイルのパスを指定する環境変数
+export const CONFIG_PATH_ENV = 'JAPANESE_TEXT_ANALYZER_CONFIG';
+
+// 環境変数で指定しない場合にカレントディレクトリから探す設定ファイル（拡張子が .yaml・.yml のものはYAMLとして読む）
+export const CONFIG_FILE_NAMES = [
+  'japanesetextanalyzer.config.json',
+  'japanesetextanalyzer.config.yaml',
+  'japanesetextanalyzer.config.yml',
+  '.japanesetextanalyzer.json'
+];
+
+// 読み込んだ設定
+export interface LoadedConfig {
+  config: AnalyzerConfig;
+  // 設定ファイルのパス（設定ファイルがない場合null）
+  path: string | null;
+}
+
+// 目標範囲
+const targetRangeSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional()
+}).strict();
+
+// 文字列、または言語ごとの文字列
+const localizedTextSchema = z.union([
+  z.string(),
+  z.object({ ja: z.string(), en: z.string().optional() })
+]);
+
+// 設定ファイルのスキーマ
+const configSchema = z.object({
+  userDictionary: z.union([z.string(), z.array(z.string())]).optional(),
+  locale: z.enum(METRIC_LOCALES).optional(),
+  enabledMetrics: z.array(z.string()).optional(),
+  metrics: z.record(z.object({
+    enabled: z.boolean().optional(),
+    // 数値の指標は { min, max }、比率の指標は { 項目名: { min, max } }
+    target: z.union([targetRangeSchema, z.record(targetRangeSchema)]).optional(),
+    name: localizedTextSchema.optional(),
+    description: localizedTextSchema.optional()
+  })).optional()
+});
+
+let loadedConfig: LoadedConfig | null = null;
+
+// 設定ファイルを読み込む関数（初回に読み込んだ内容を再利用する）
+export function loadConfig(): LoadedConfig {
+  if (loadedConfig) {
+    return loadedConfig;
+  }
+
+  const envPath = process.env[CONFIG_PATH_ENV];
+  const configPath = envPath
+    ? path.resolve(envPath)
+    : CONFIG_FILE_NAMES.map(name => path.resolve(process.cwd(), name)).find(candidate => fs.existsSync(candidate)) || null;
+  if (!configPath) {
+    loadedConfig = { config: {}, path: null };
+    return loadedConfig;
+  }
+
+  let raw: unknown;
+  try {
+    const content = fs.readFileSync(configPath, 'utf-8');
+    raw = /\.ya?ml$/i.test(configPath) ? parseYaml(content) : JSON.parse(content);
+  } catch (error: any) {
+    throw new Error(`設定ファイル ${configPath} を読み込めませんでした: ${error.message}`);
+  }
+
+  const parsed = configSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(全体)'}: ${issue.message}`);
+    throw new Error(`設定ファイル ${configPath} の内容が正しくありません: ${issues.join('; ')}`);
+  }
+
+  // strictNullChecks を使わないため、zodの推論では必須のプロパティも省略可能になる
+  const { userDictionary, ...rest } = parsed.data as Omit<AnalyzerConfig, 'userDictionary'> & { userDictionary?: string | string[] };
+  const baseDir = path.dirname(configPath);
+  loadedConfig = {
+    config: {
+      ...rest,
+      userDictionary: (Array.isArray(userDictionary) ? userDictionary : userDictionary ? [userDictionary] : [])
+        .map(file => path.resolve(baseDir, file))
+    },
+    path: configPath
+  };
+  console.error(`設定ファイルを読み込みました: ${configPath}`);
+  return loadedConfig;
+}
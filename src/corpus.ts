@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isAllowedPath } from './sandbox.js';
+
+// ディレクトリ分析で既定で対象とするファイル
+export const DEFAULT_INCLUDE_PATTERNS = ['**/*.txt', '**/*.md', '**/*.markdown', '**/*.html', '**/*.htm', '**/*.re', '**/*.tex'];
+
+// 既定で対象外とするディレクトリ
+export const DEFAULT_EXCLUDE_PATTERNS = ['**/node_modules/**', '**/.git/**'];
+
+// ファイルごとに比較する指標と表示名（外れ値の判定と統計量の対象）
+export const DIRECTORY_METRIC_LABELS: Record<string, string> = {
+  chars: '文字数',
+  sentences: '文の数',
+  averageSentenceLength: '平均文長',
+  readabilityScore: '読みやすさ',
+  politeRatio: '敬体の割合'
+};
+
+// ファイルごとの結果の並べ替えの基準
+export const DIRECTORY_SORT_KEYS = ['path', 'chars', 'sentences', 'averageSentenceLength', 'readabilityScore', 'politeRatio'] as const;
+export type DirectorySortKey = typeof DIRECTORY_SORT_KEYS[number];
+
+// globのパターンを正規表現に変換する関数
+// 対応する記法: ** （0個以上のディレクトリ）、* （/以外の0文字以上）、? （/以外の1文字）、{a,b} （いずれか）、[abc] （文字クラス）
+// パスの区切りは / に統一して照合する
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+  const chars = [...pattern.replace(/\\/g, '/')];
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    if (char === '*') {
+      if (chars[i + 1] === '*') {
+        // **/ は0個以上のディレクトリ、末尾の ** は以下のすべて
+        if (chars[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else if (char === '[') {
+      const close = chars.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        const body = chars.slice(i + 1, close).join('').replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = close;
+      }
+    } else {
+      source += char.replace(/[.+^$()|\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+// シンボリックリンクのリンク先が、許可するディレクトリの中にあるファイルかどうか（リンク切れの場合は false）
+function isAllowedFileLink(linkPath: string): boolean {
+  try {
+    const real = fs.realpathSync(linkPath);
+    return isAllowedPath(real) && fs.statSync(real).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// ディレクトリ以下のファイルのうち、includeのいずれかに一致し、excludeのいずれにも一致しないものを返す関数
+// パターンはディレクトリからの相対パスと照合する。結果は相対パスの順に並べる
+// ファイルへのシンボリックリンクは、リンク先が許可するディレクトリの中にあるファイルの場合だけ含める
+// ディレクトリへのシンボリックリンクは、循環を避けるためにたどらない
+export function listFiles(
+  directory: string,
+  include: string[] = DEFAULT_INCLUDE_PATTERNS,
+  exclude: string[] = DEFAULT_EXCLUDE_PATTERNS,
+  maxFiles: number = Infinity
+): { files: string[]; truncated: boolean } {
+  const includePatterns = include.map(globToRegExp);
+  const excludePatterns = exclude.map(globToRegExp);
+  const isExcluded = (relativePath: string) => excludePatterns.some(pattern => pattern.test(relativePath));
+  const files: string[] = [];
+  let truncated = false;
+
+  const walk = (current: string) => {
+    const entries = fs.readdirSync(current, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      if (truncated) {
+        return;
+      }
+      const fullPath = path.join(current, entry.name);
+      const relativePath = path.relative(directory, fullPath).split(path.sep).join('/');
+      if (entry.isDirectory()) {
+        // 除外されたディレクトリの中は探索しない
+        if (!isExcluded(relativePath) && !isExcluded(`${relativePath}/`)) {
+          walk(fullPath);
+        }
+      } else if ((entry.isFile() || (entry.isSymbolicLink() && isAllowedFileLink(fullPath))) &&
+                 includePatterns.some(pattern => pattern.test(relativePath)) && !isExcluded(relativePath)) {
+        if (files.length >= maxFiles) {
+          truncated = true;
+          return;
+        }
+        files.push(fullPath);
+      }
+    }
+  };
+  walk(directory);
+
+  return { files, truncated };
+}
+
+// 指標の統計量
+export interface MetricStatistics {
+  // 統計量の算出に使った値の数（算出できなかった値を除く）
+  count: number;
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+}
+
+// 値の平均・標準偏差（母標準偏差）・最小値・最大値を求める関数
+// 算出できなかった値（null）は含めない
+export function computeStatistics(allValues: (number | null)[]): MetricStatistics {
+  const values = allValues.filter((value): value is number => value !== null);
+  if (values.length === 0) {
+    return { count: 0, mean: 0, stdDev: 0, min: 0, max: 0 };
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return {
+    count: values.length,
+    mean,
+    stdDev: Math.sqrt(variance),
+    min: Math.min(...values),
+    max: Math.max(...values)
+  };
+}
+
+// 外れ値（コーパスの平均から標準偏差のthreshold倍以上離れた値）
+export interface Outlier {
+  metric: string;
+  value: number;
+  // 標準得点（(値 - 平均) / 標準偏差）
+  zScore: number;
+}
+
+// 各指標について外れ値を判定する関数
+// 標準偏差が0の指標（すべて同じ値）と、算出できなかった値（null）は判定しない
+export function findOutliers(
+  values: Record<string, number | null>,
+  statistics: Record<string, MetricStatistics>,
+  threshold: number
+): Outlier[] {
+  const outliers: Outlier[] = [];
+  for (const [metric, value] of Object.entries(values)) {
+    const stats = statistics[metric];
+    if (value === null || !stats || stats.stdDev === 0) {
+      continue;
+    }
+    const zScore = (value - stats.mean) / stats.stdDev;
+    if (Math.abs(zScore) >= threshold) {
+      outliers.push({ metric, value, zScore });
+    }
+  }
+  return outliers;
+}
@@ -0,0 +1,189 @@
+// 文字数の数え方（計数ルール）
+// all: すべての文字（空白・改行を含む）
+// no_whitespace: 空白・改行を除く（全角スペースも除く）
+// no_newlines: 改行のみを除く（半角・全角スペースは数える）
+// no_halfwidth_whitespace: 改行・タブ・半角スペースを除く（字下げなどの全角スペースは数える）
+// twitter: X（旧Twitter）の重み付き文字数（全角文字・絵文字は2、URLは23）
+// utf8_bytes: UTF-8でのバイト数
+// shift_jis_bytes: Shift_JISでのバイト数
+export const COUNTING_RULES = [
+  'all',
+  'no_whitespace',
+  'no_newlines',
+  'no_halfwidth_whitespace',
+  'twitter',
+  'utf8_bytes',
+  'shift_jis_bytes'
+] as const;
+export type CountingRule = typeof COUNTING_RULES[number];
+
+// 計数ルールの情報
+export const COUNTING_RULE_INFO: Record<CountingRule, { name: string; unit: string; description: string }> = {
+  all: { name: 'すべての文字', unit: '文字', description: '空白・改行を含むすべての文字' },
+  no_whitespace: { name: '空白・改行を除く', unit: '文字', description: '半角・全角スペース、タブ、改行を除いた文字' },
+  no_newlines: { name: '改行のみ除く', unit: '文字', description: '改行を除き、半角・全角スペースは数える' },
+  no_halfwidth_whitespace: { name: '全角スペースを数える', unit: '文字', description: '改行・タブ・半角スペースを除き、全角スペースは数える' },
+  twitter: { name: 'X（Twitter）', unit: '文字（重み付き）', description: '全角文字・絵文字は2、半角文字は1、URLは一律23として数える（上限280）' },
+  utf8_bytes: { name: 'UTF-8', unit: 'バイト', description: 'UTF-8で保存した場合のバイト数' },
+  shift_jis_bytes: { name: 'Shift_JIS', unit: 'バイト', description: 'Shift_JISで保存した場合のバイト数（変換できない文字を除く）' }
+};
+
+// 計数結果
+export interface CharacterCount {
+  rule: CountingRule;
+  name: string;
+  value: number;
+  unit: string;
+  description: string;
+}
+
+// 書記素クラスタ（見た目の1文字）に分割する関数
+// 絵文字の合字（👨‍👩‍👧）や結合文字（か゚）、サロゲートペア（𠮷）を1文字として扱う
+const graphemeSegmenter = new Intl.Segmenter('ja', { granularity: 'grapheme' });
+
+// Intl.Segmenter は長い文字列を一度に分割すると文字数の2乗に比例して遅くなるため、この長さごとに分けて分割する
+const GRAPHEME_PIECE_LENGTH = 1000;
+
+// 前後の文字の間が必ず書記素クラスタの区切りになる文字（ASCIIの表示文字、句読点、ひらがな、カタカナ、漢字）
+const SIMPLE_CHAR = /[\u0020-\u007e\u3001\u3002\u3041-\u3096\u30a1-\u30fa\u4e00-\u9fff]/;
+
+export function splitGraphemes(text: string): string[] {
+  const graphemes: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    // 改行の直後は常に区切りになる。改行がない場合は、結合文字などが続かない位置を探す
+    let end = text.lastIndexOf('\n', start + GRAPHEME_PIECE_LENGTH - 1) + 1;
+    if (end <= start) {
+      end = Math.min(start + GRAPHEME_PIECE_LENGTH, text.length);
+      while (end < text.length && !(SIMPLE_CHAR.test(text[end - 1]) && SIMPLE_CHAR.test(text[end]))) {
+        end++;
+      }
+    }
+    for (const segment of graphemeSegmenter.segment(text.slice(start, end))) {
+      graphemes.push(segment.segment);
+    }
+    start = end;
+  }
+  return graphemes;
+}
+
+// 書記素クラスタの数を数える関数（excludeに一致する文字は数えない）
+export function countGraphemes(text: string, exclude?: RegExp): number {
+  let count = 0;
+  for (const grapheme of splitGraphemes(text)) {
+    if (!exclude || !exclude.test(grapheme)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+// X（Twitter）で1文字として数えるコードポイントの範囲（それ以外は2文字）
+const TWITTER_LIGHT_RANGES: [number, number][] = [
+  [0x0000, 0x10FF],
+  [0x2000, 0x200D],
+  [0x2010, 0x201F],
+  [0x2032, 0x2037]
+];
+
+// X（Twitter）で短縮されるURL
+const TWITTER_URL_PATTERN = /https?:\/\/[!-~]+/g;
+const TWITTER_URL_LENGTH = 23;
+
+// X（Twitter）の重み付き文字数を数える関数
+function countTwitterLength(text: string): number {
+  let length = 0;
+  const withoutUrls = text.normalize('NFC').replace(TWITTER_URL_PATTERN, () => {
+    length += TWITTER_URL_LENGTH;
+    return '';
+  });
+
+  for (const grapheme of splitGraphemes(withoutUrls)) {
+    // 絵文字は合字を含めて2文字
+    if (/\p{Extended_Pictographic}/u.test(grapheme)) {
+      length += 2;
+      continue;
+    }
+    for (const char of grapheme) {
+      const code = char.codePointAt(0);
+      length += TWITTER_LIGHT_RANGES.some(([from, to]) => code >= from && code <= to) ? 1 : 2;
+    }
+  }
+  return length;
+}
+
+// Shift_JISの2バイト文字の一覧（初回参照時にデコーダーから作成）
+let shiftJisDoubleByteChars: Set<string> | null = null;
+
+function getShiftJisDoubleByteChars(): Set<string> {
+  if (!shiftJisDoubleByteChars) {
+    shiftJisDoubleByteChars = new Set();
+    const decoder = new TextDecoder('shift_jis');
+    const isLead = (byte: number) => (byte >= 0x81 && byte <= 0x9F) || (byte >= 0xE0 && byte <= 0xFC);
+    const isTrail = (byte: number) => (byte >= 0x40 && byte <= 0x7E) || (byte >= 0x80 && byte <= 0xFC);
+    for (let lead = 0x81; lead <= 0xFC; lead++) {
+      if (!isLead(lead)) {
+        continue;
+      }
+      for (let trail = 0x40; trail <= 0xFC; trail++) {
+        if (!isTrail(trail)) {
+          continue;
+        }
+        const char = decoder.decode(new Uint8Array([lead, trail]));
+        if (char !== '\uFFFD' && [...char].length === 1) {
+          shiftJisDoubleByteChars.add(char);
+        }
+      }
+    }
+  }
+  return shiftJisDoubleByteChars;
+}
+
+// Shift_JISでのバイト数と、変換できない文字の数を数える関数
+export function countShiftJisBytes(text: string): { bytes: number; unmappable: number } {
+  const doubleByte = getShiftJisDoubleByteChars();
+  let bytes = 0;
+  let unmappable = 0;
+
+  for (const char of text) {
+    const code = char.codePointAt(0);
+    // ASCIIと半角カタカナは1バイト
+    if (code < 0x80 || (code >= 0xFF61 && code <= 0xFF9F)) {
+      bytes += 1;
+    } else if (doubleByte.has(char)) {
+      bytes += 2;
+    } else {
+      unmappable++;
+    }
+  }
+  return { bytes, unmappable };
+}
+
+// 指定したルールで文字数を数える関数
+export function countCharacters(text: string, rule: CountingRule): number {
+  switch (rule) {
+    case 'all':
+      return countGraphemes(text);
+    case 'no_whitespace':
+      return countGraphemes(text, /^\s+$/);
+    case 'no_newlines':
+      return countGraphemes(text, /^[\r\n]+$/);
+    case 'no_halfwidth_whitespace':
+      return countGraphemes(text, /^[\r\n\t ]+$/);
+    case 'twitter':
+      return countTwitterLength(text);
+    case 'utf8_bytes':
+      return Buffer.byteLength(text, 'utf8');
+    case 'shift_jis_bytes':
+      return countShiftJisBytes(text).bytes;
+  }
+}
+
+// すべてのルールで文字数を数える関数
+export function countCharactersByAllRules(text: string): CharacterCount[] {
+  return COUNTING_RULES.map(rule => ({
+    rule,
+    ...COUNTING_RULE_INFO[rule],
+    value: countCharacters(text, rule)
+  }));
+}
@@ -0,0 +1,157 @@
+// 漢字の区分表
+// 文字列を連結した形で保持し、src/kanji.ts で検索用のMapに変換する
+//
+// - 教育漢字（学年別漢字配当表）: 学年ごとの配当。2020年度の改訂で第4学年に追加された都道府県名の20字を含む
+// - 常用漢字: 教育漢字以外の常用漢字（常用漢字表 2010年告示）。𠮟・塡・剝・頰の許容字体（叱・填・剥・頬）も含む
+// - 人名用漢字: 戸籍法施行規則 別表第二
+// - JLPT: 日本語能力試験の級別漢字。公式の出題基準は非公開のため、
+//   Jonathan Waller氏による旧出題基準をもとにした推定リスト（CC BY）を使用
+
+// 教育漢字（学年別）
+export const KYOIKU_KANJI_BY_GRADE: Record<number, string> = {
+  1: [
+    '一七三上下中九二五人休先入八六円出力十千口右名四土夕大天女子字学小山川左年手文日早月木本村林校森正気',
+    '水火犬玉王生田男町白百目石空立竹糸耳花草虫見貝赤足車金雨青音'
+  ].join(''),
+  2: [
+    '万丸交京今会体何作元兄光公内冬刀分切前北午半南原友古台合同回図国園地場声売夏外多夜太妹姉室家寺少岩工',
+    '市帰広店弓引弟弱強当形後心思戸才教数新方明星春昼時晴曜書朝来東楽歌止歩母毎毛池汽活海点父牛理用画番直',
+    '矢知社秋科答算米紙細組絵線羽考聞肉自船色茶行西親角言計記話語読谷買走近通週道遠里野長門間雪雲電頭顔風',
+    '食首馬高魚鳥鳴麦黄黒'
+  ].join(''),
+  3: [
+    '丁世両主乗予事仕他代住使係倍全具写列助勉動勝化区医去反取受号向君味命和品員商問坂央始委守安定実客宮宿',
+    '寒対局屋岸島州帳平幸度庫庭式役待急息悪悲想意感所打投拾持指放整旅族昔昭暑暗曲有服期板柱根植業様横橋次',
+    '歯死氷決油波注泳洋流消深温港湖湯漢炭物球由申界畑病発登皮皿相県真着短研礼神祭福秒究章童笛第筆等箱級終',
+    '緑練羊美習者育苦荷落葉薬血表詩調談豆負起路身転軽農返追送速進遊運部都配酒重鉄銀開院陽階集面題飲館駅鼻'
+  ].join(''),
+  4: [
+    '不争井付令以仲伝位低佐例便信倉候借停健側働億兆児共兵典冷初別利刷副功加努労勇包卒協単博印参史司各告周',
+    '唱喜器囲固型埼堂塩士変夫失奈好媛季孫完官害察岐岡崎巣差希席帯底府康建径徒得必念愛成戦折挙改救敗散料旗',
+    '昨景最望未末札材束松果栃栄案梅梨械極標機欠歴残殺毒氏民求沖治法泣浅浴清満滋漁潟灯無然焼照熊熱牧特産的',
+    '省祝票種積競笑管節粉紀約結給続縄置老胃脈腸臣航良芸芽英茨菜街衣要覚観訓試説課議象貨貯費賞軍輪辞辺連達',
+    '選郡量録鏡関阜阪陸隊静順願類飛飯養香験鹿'
+  ].join(''),
+  5: [
+    '久仏仮件任似余価保修俵個備像再刊判制券則効務勢厚句可営因団圧在均基報境墓増夢妻婦容寄富導居属布師常幹',
+    '序弁張往復徳志応快性恩情態慣承技招授採接提損支政故敵断旧易暴条枝査格桜検構武比永河液混減測準演潔災燃',
+    '版犯状独率現留略益眼破確示祖禁移程税築精素経統絶綿総編績織罪群義耕職肥能興舌舎術衛製複規解設許証評講',
+    '謝識護豊財貧責貸貿賀資賛質輸述迷退逆造過適酸鉱銅銭防限険際雑非預領額飼'
+  ].join(''),
+  6: [
+    '並乱乳亡仁供俳値傷優党冊処刻割創劇勤危卵厳収后否吸呼善困垂城域奏奮姿存孝宅宇宗宙宝宣密寸専射将尊就尺',
+    '届展層己巻幕干幼庁座延律従忘忠憲我批担拝拡捨探推揮操敬映晩暖暮朗机枚染株棒模権樹欲段沿泉洗派済源潮激',
+    '灰熟片班異疑痛皇盛盟看砂磁私秘穀穴窓筋策簡糖系紅納純絹縦縮署翌聖肺背胸脳腹臓臨至若著蒸蔵蚕衆裁装裏補',
+    '視覧討訪訳詞誌認誕誠誤論諸警貴賃遺郵郷針鋼閉閣降陛除障難革頂骨'
+  ].join('')
+};
+
+// 教育漢字以外の常用漢字
+export const JOYO_KANJI_OTHER = [
+  '丈与且丘丙串丹丼乏乙乞乾亀了互亜享亭介仙仰企伎伏伐伯伴伸伺但佳併侍依侮侯侵侶促俊俗俸俺倒倣倫倹偉偏偵',
+  '偶偽傍傑傘催傲債傾僅僕僚僧儀儒償充克免兼冒冗冠冥冶凄准凍凝凡凶凸凹刃刈刑到刹刺削剖剛剝剣剤剥剰劣励劾',
+  '勃勅勘募勧勲勾匂匠匹匿升卑卓占即却卸厄厘又及双叔叙叫召叱吉吏吐吟含吹呂呈呉呪咲咽哀哲哺唄唆唇唐唯唾啓',
+  '喉喚喝喩喪喫嗅嗣嘆嘱嘲噴嚇囚圏坊坑坪垣埋執培堀堅堆堕堤堪塀塁塊塑塔塗塚塞塡填塾墜墨墳墾壁壇壊壌壮壱奇',
+  '奉契奔奥奨奪奴如妃妄妊妖妙妥妨妬姓姫姻威娘娠娯婆婚婿媒嫁嫉嫌嫡嬢孔孤宛宜宰宴宵寂寛寝寡寧審寮寿封尉尋',
+  '尚尻尼尽尾尿屈履屯岬岳峠峡峰崇崖崩嵐巡巧巨巾帆帝帥帽幅幣幻幽幾床庶庸廃廉廊廷弄弊弐弔弥弦弧弾彙彩彫彰',
+  '影彼征徐御循微徴徹忌忍忙怒怖怠怨怪恋恐恒恣恥恨恭恵悔悟悠患悦悩悼惑惜惧惨惰愁愉愚慄慈慌慎慕慢慨慮慰慶',
+  '憂憎憤憧憩憬憶憾懇懐懲懸戒戚戯戴戻房扇扉払扱扶抄把抑抗抜択披抱抵抹押抽拉拍拐拒拓拘拙拠括拭拳拶拷挑挟',
+  '挨挫振挿捉捕捗捜据捻掃掌排掘掛控措掲描揚換握援揺搬搭携搾摂摘摩摯撃撤撮撲擁擦擬攻敏敢敷斉斎斑斗斜斤斥',
+  '斬施旋既旦旨旬旺昆昇昧是普晶暁暇暦暫曇曖更曹曽替朕朱朴朽杉杯析枕枠枢枯架柄某柔柳柵柿栓核栽桁桃桑桟梗',
+  '棄棋棚棟棺椅椎楷楼概槽欄欧欺款歓歳殉殊殖殴殻殿毀氾汁汎汗汚江汰沃沈沙没沢沸沼況泊泌泡泥泰洞津洪浄浜浦',
+  '浪浮浸涙涯涼淑淡淫添渇渉渋渓渡渦湧湾湿溝溶溺滅滑滝滞滴漂漆漏漠漫漬漸潜潤潰澄濁濃濫濯瀬炉炊炎為烈焦煎',
+  '煙煩煮燥爆爪爵爽牙牲犠狂狙狩狭猛猟猫献猶猿獄獣獲玄玩珍珠琴瑠璃璧環璽瓦瓶甘甚甲畏畔畜畝畳畿疎疫疲疾症',
+  '痕痘痢痩痴瘍療癒癖皆盆盗監盤盲盾眉眠眺睡督睦瞬瞭瞳矛矯砕砲硝硫硬碁碑磨礁礎祈祉祥禅禍秀租秩称稚稲稼稽',
+  '稿穂穏穫突窃窒窟窮窯竜端符筒箇箋箸範篤簿籍籠粋粒粗粘粛粧糧糾紋紛紡索紫累紳紹紺絞絡継維綱網綻緊緒締緩',
+  '緯緻縁縛縫繁繊繕繭繰缶罰罵罷羅羞羨翁翻翼耐耗聴肌肖肘肝股肢肩肪肯胆胎胞胴脂脅脇脊脚脱腎腐腕腫腰腺膚膜',
+  '膝膨膳臆臭致臼舗舞舟般舶舷艇艦艶芋芝芯芳苗苛茂茎荒荘菊菌菓華萎葛葬蓄蓋蔑蔽薄薦薪薫藍藤藩藻虎虐虚虜虞',
+  '虹蚊蛇蛍蛮蜂蜜融衝衡衰衷袋袖被裂裕裸裾褐褒襟襲覆覇触訂訃託訟訴診詐詔詠詣詮詰該詳誇誉誓誘誰請諦諧諭諮',
+  '諾謀謁謄謎謙謡謹譜譲豚豪貌貞貢販貪貫貼賂賄賊賓賜賠賢賦賭購贈赦赴超越趣距跡跳践踊踏踪蹴躍軌軒軟軸較載',
+  '輝輩轄辛辣辱込迅迎迫迭逃透逐逓途逝逮逸遂遅遇遍違遜遡遣遭遮遵遷避還那邦邪邸郊郎郭酌酎酔酢酪酬酵酷醒醜',
+  '醸采釈釜釣鈍鈴鉛鉢銃銘鋭鋳錠錦錬錮錯鍋鍛鍵鎌鎖鎮鐘鑑閑閥閲闇闘阻附陣陥陪陰陳陵陶隅隆随隔隙隠隣隷隻雄',
+  '雅雇雌離雰零雷需震霊霜霧露靴韓韻響頃項須頑頒頓頬頰頻頼顎顕顧飢飽飾餅餌餓駄駆駐駒騎騒騰驚骸髄髪鬱鬼魂',
+  '魅魔鮮鯨鶏鶴麓麗麺麻黙鼓齢𠮟'
+].join('');
+
+// 人名用漢字
+export const JINMEIYO_KANJI = [
+  '丑丞乃之乎乘也云亘亙些亞亥亦亨亮仔伊伍伶伽佃佑佛侃來侑俄俐俠俣俱倖倦倭偲傭傳僞價儉儲允兎兒兜其冨冴凉',
+  '凌凛凜凧凪凰凱函剩劉劍劫勁勳勺勿匁匡卜卯卷卽卿厨厩叉叡叢只叶吞吻吾哉哨哩啄喋喧喬單喰嘉嘗嘩噂噌嚴圃圈',
+  '國圓團圭坐坦埜埴堯堰堵堺塙增壕壘壞壬壯壽夷奄奎套奧奬姥姪娃娩嬉孃孜孟宋宏宕宥寅寓寢實寬寵將專尖尤尭屑',
+  '峨峯峻峽崚嵩嵯嶋嶺巌巖巢巫已巳巴巷巽帖帶幌幡庄庇庚庵廟廣廳廻廿弘弛彈彌彗彦彪彬從徠徵德徽忽怜恆恕恢恰',
+  '悉悌惇惚惟惠惡惣惹惺愼慧憐應懷戊或戟戰戲托拂拔拜按挺挽捧捲捷捺掠掬揃揭搖搜摑摺撒撞撫播撰擊擢攝收敍敦',
+  '斐斡斧斯於旭昂昊昌昏昴晃晄晋晏晒晚晝晟晦晨智暉暢曆曉曙曝曳曾朋朔李杏杖杜杭杵杷枇柊柏柑柘柚柴柾栖栗栞',
+  '桂桐桔桧桶梁梓梛條梢梧梯梶棲椀椋椛椰椿楊楓楕楚楠楢楯榊榎榛榮槇槌槍槙槻樂樋樟樣樫樺樽橘橙橫檀檎檜檢櫂',
+  '櫓櫛櫻欣欽歎此步歷殆毅每毘毬氣汀汐汝汲沌沓沫洛洲洵洸浩浬涉淀淋淚淨淳淵渚渥渴渾湊湘湛溜溢溫滉滯漕漣漱',
+  '澁澪濕濡瀕瀧瀨灘灸灼烏焚焰煉煌煤熙燈燎燒燕燦燭燿爭爲爾牒牟牡牽犀狀狹狼猪獅獸玖玲珀珂珈珊琉琢琥琳琵琶',
+  '瑚瑛瑞瑳瑶瓜瓢甥甫畠畢疊疋疏瘦皐皓盃盜盡眞眸瞥矩砥砦砧硯碎碓碗碧碩磐磯祁祇祐祕祢祷祿禄禎禪禮禰禱禽禾',
+  '秤秦稀稔稜稟稻穗穣穰穹穿窄窪窺竣竪竺竿笈笙笠笹筈筑箔箕篇篠簞簾籾粟粥粹糊紐紗紘紬絃絆絢綜綠綴綸綺綾緋',
+  '緖緣縞縣縱繡繫纂纏纖羚翔翠耀而耶耽聡聽肇肋肴胡胤脩脹腔膏臟臥與舜舵芙芥芦芭芹苑苔苺茄茅茉茜茸荻莉莊莞',
+  '莫菅菖菩菫菱萄萊萌萠萩萬萱葡董葦葵葺蒐蒔蒙蒲蒼蓉蓑蓬蓮蔓蔣蔦蔭蕃蕉蕎蕗蕨蕪蕾薗薙薩薰藁藏藝藥蘇蘭虛蝦',
+  '蝶螺蟬蟹蠟衞衿袈袴裝裟裡裳襖覽訊訣註詢詫誼諄諏諒諺謂謠讃讓豹貰賑賣賴赳跨蹄蹟輔輯輿轉轟辰辻辿迂迄迦迪',
+  '逗這逞逢遁遙遥遼邑郁郞鄭酉醇醉醍醐醬釀釉釘釧銑鋒鋸錄錆錐錘錫鍊鍬鎧鎭鑄閃閏閤阿陀陷隈險隼雀雁雛雜雫霞',
+  '靖靜鞄鞍鞘鞠鞭頁頌頗顚顯颯飜饗馨馳馴駈駕駿騷驍驗髮魁魯鮎鯉鯛鰯鱒鱗鳩鳳鳶鴨鴻鵜鵬鷄鷗鷲鷹鷺麒麟麿黃黎',
+  '黑默黛鼎齊龍欄廊朗虜類猪神祥福諸都侮僧勉勤卑嘆器墨層悔憎懲敏暑梅海渚漢煮琢碑社祉祈祐祖祝禍禎穀突節練',
+  '繁署者臭著視謁謹賓贈逸難響'
+].join('');
+
+// JLPTの級別漢字（推定）
+export const JLPT_KANJI_BY_LEVEL: Record<string, string> = {
+  N5: [
+    '一七万三上下中九二五人今休何先入八六円出前北十千午半南友右名四国土外大天女子学小山川左年後日時書月木',
+    '本来東校母毎気水火父生男白百聞行西見話語読車金長間雨電食高'
+  ].join(''),
+  N4: [
+    '不世主事京仕代以会住体作使借元兄公写冬切別力勉動医去口古台同味品員問図地堂場売夏夕多夜妹姉始字安室家',
+    '少屋工帰広店度建弟強待心思急悪意手持教文料新方旅族早明映春昼曜有服朝業楽歌止正歩死注洋海漢牛物特犬理',
+    '用田町画界病発目真着知研社私秋究空立答紙終習考者肉自色花英茶親言計試買貸質赤走起足転近送通週運道重野',
+    '銀開院集青音題風飯飲館駅験魚鳥黒'
+  ].join(''),
+  N3: [
+    '与両乗予争互亡交他付件任伝似位余例供便係信倒候値偉側偶備働優光全共具内冷処列初判利到制刻割加助努労務',
+    '勝勤化単危原参反収取受号合向君否吸吹告呼命和商喜回因困園在報増声変夢太夫失好妻娘婚婦存宅守完官定実客',
+    '害容宿寄富寒寝察対局居差市師席常平幸幾座庭式引当形役彼徒得御必忘忙念怒怖性恐恥息悲情想愛感慣成戦戻所',
+    '才打払投折抜抱押招指捕掛探支放政敗散数断易昔昨晩景晴暗暮曲更最望期未末束杯果格構様権横機欠次欲歯歳残',
+    '段殺民求決治法泳洗活流浮消深済渡港満演点然煙熱犯状猫王現球産由申留番疑疲痛登皆盗直相眠石破確示礼祖神',
+    '福科程種積突窓笑等箱米精約組経給絵絶続緒罪置美老耳職育背能腹舞船良若苦草落葉薬術表要規覚観解記訪許認',
+    '誤説調談論識警議負財貧責費資賛越路辞込迎返迷追退逃途速連進遅遊過達違遠適選部都配酒閉関降限除険陽際雑',
+    '難雪静非面靴頂頭頼顔願類飛首馬髪鳴'
+  ].join(''),
+  N2: [
+    '並丸久乱乳乾了介仏令仲伸伺低依個倍停傾像億兆児党兵冊再凍刊刷券刺則副劇効勇募勢包匹区卒協占印卵厚双叫',
+    '召史各含周咲喫営団囲固圧坂均型埋城域塔塗塩境央奥姓委季孫宇宝寺封専将尊導届層岩岸島州巨巻布希帯帽幅干',
+    '幼庁床底府庫延弱律復快恋患悩憎戸承技担拝拾挟捜捨掃掘採接換損改敬旧昇星普暴曇替札机材村板林枚枝枯柔柱',
+    '査栄根械棒森植極橋欧武歴殿毒比毛氷永汗汚池沈河沸油況泉泊波泥浅浴涙液涼混清減温測湖湯湾湿準溶滴漁濃濯',
+    '灯灰炭焼照燃燥爆片版玉珍瓶甘畜略畳療皮皿省県短砂硬磨祈祝祭禁秒移税章童競竹符筆筒算管築簡籍粉粒糸紅純',
+    '細紹絡綿総緑線編練績缶署群羽翌耕肌肩肯胃胸脂脳腕腰膚臓臣舟航般芸荒荷菓菜著蒸蔵薄虫血衣袋被装裏補複角',
+    '触訓設詞詰誌課諸講谷豊象貝貨販貯貿賞賢贈超跡踊軍軒軟軽輪輸辛農辺述逆造郊郵量針鈍鉄鉱銅鋭録門防陸隅階',
+    '隻雇雲零震革順預領額香駐骨麦黄鼻齢'
+  ].join(''),
+  N1: [
+    '丁丑且丘丙丞丹乃之乏乙也亀井亘亜亥亦亨享亭亮仁仙仮仰企伊伍伎伏伐伯伴伶伽但佐佑佳併侃侍侑価侮侯侵促俊',
+    '俗保修俳俵俸倉倖倣倫倭倹偏健偲偵偽傍傑傘催債傷僕僚僧儀儒償允充克免典兼冒冗冠冴冶准凌凜凝凡凪凱凶凸凹',
+    '刀刃刈刑削剖剛剣剤剰創功劣励劾勁勅勘勧勲勺匁匠匡匿升卑卓博卯即却卸厄厘厳又及叔叙叡句只叶司吉后吏吐吟',
+    '呂呈呉哀哉哲唄唆唇唯唱啄啓善喚喝喪喬嗣嘆嘉嘱器噴嚇囚圏圭坑坪垂垣執培基堀堅堕堤堪塀塁塊塑塚塾墓墜墨墳',
+    '墾壁壇壊壌士壮壱奇奈奉奎奏契奔奨奪奮奴如妃妄妊妙妥妨姫姻姿威娠娯婆婿媒媛嫁嫌嫡嬉嬢孔孟孤宏宗宙宜宣宥',
+    '宮宰宴宵寂寅密寛寡寧審寮寸射尉尋尚尭就尺尼尽尾尿屈展属履屯岐岬岳峠峡峰峻崇崎崚崩嵐嵩嵯嶺巌巡巣巧己巳',
+    '巴巽帆帝帥帳幕幣幹幻幽庄序庶康庸廃廉廊廷弁弊弐弓弔弘弥弦弧張弾彗彦彩彪彫彬彰影往征径徐従循微徳徴徹忌',
+    '忍志応忠怜怠怪恒恕恨恩恭恵悌悔悟悠悦悼惇惑惜惟惣惨惰愁愉愚慈態慎慕慢慧慨慮慰慶憂憤憧憩憲憶憾懇懐懲懸',
+    '我戒戯房扇扉扱扶批抄把抑抗択披抵抹抽拍拐拒拓拘拙拠拡括拳拷挑挙振挿据捷捺授掌排控推措掲描提揚握揮援揺',
+    '搬搭携搾摂摘摩撃撤撮撲擁操擦擬攻故敏救敢敦整敵敷斉斎斐斗斜斤斥於施旋旗既旦旨旬旭旺昂昆昌昭是昴晃晋晏',
+    '晟晨晶智暁暇暉暑暖暢暦暫曙曹朋朔朕朗朱朴朽杉李杏杜条松析枠枢架柄柊某染柚柳柾栓栗栞株核栽桂桃案桐桑桜',
+    '桟梅梓梢梧梨棄棋棚棟棺椋椎検椰椿楊楓楠楼概榛槙槻槽標模樹樺橘檀欄欣欺欽款歓殉殊殖殴殻毅毬氏汁汐江汰汽',
+    '沖沙没沢沼沿泌泡泣泰洞津洪洲洵洸派浄浜浦浩浪浸涯淑淡淳添渇渉渋渓渚渥渦湧源溝滅滉滋滑滝滞漂漆漏漠漫漬',
+    '漱漸潔潜潟潤潮澄澪激濁濫瀬災炉炊炎為烈焦煩煮熊熙熟燎燦燿爵爽爾牧牲犠狂狩独狭猛猟猪献猶猿獄獣獲玄率玖',
+    '玲珠班琉琢琳琴瑚瑛瑞瑠瑳瑶璃環甚甫甲畔畝異疎疫疾症痘痢痴癒癖皇皐皓盆益盛盟監盤盲盾眉看眸眺眼睡督睦瞬',
+    '瞭瞳矛矢矯砕砲硝硫碁碑碧碩磁磯礁礎祉祐祥票禄禅禍禎秀秘租秦秩称稀稔稚稜稲稼稿穀穂穏穣穫穴窃窒窮窯竜竣',
+    '端笙笛第笹筋策箇節範篤簿粋粗粘粛糖糧系糾紀紋納紗紘級紛素紡索紫紬累紳紺絃結絞絢統絹継綜維綱網綸綺綾緊',
+    '緋締緩緯縁縄縛縦縫縮繁繊織繕繭繰罰罷羅羊義翁翔翠翻翼耀耐耗耶聖聡聴肇肖肝肢肥肪肺胆胎胞胡胤胴脅脈脚脩',
+    '脱脹腐腸膜膨臨臭至致興舌舎舗舜舶艇艦艶芋芙芝芳芹芽苑苗茂茄茅茉茎茜荘莉莞菊菌菖菫華萌萩葬葵蒔蒼蓄蓉蓮',
+    '蔦蕉蕗薦薪薫藍藤藩藻蘭虎虐虚虜虞虹蚊蚕蛇蛍蛮蝶融衆街衛衝衡衰衷衿袈裁裂裕裟裸製褐褒襟襲覆覇視覧訂討託',
+    '訟訳訴診証詐詔評詠詢詩該詳誇誉誓誕誘誠誼諄請諒諭諮諾謀謁謄謙謝謡謹譜譲護豆豚豪貞貢貫貴賀賃賄賊賓賜賠',
+    '賦購赦赳赴趣距跳践踏躍軌軸較載輔輝輩轄辰辱迅迪迫迭透逐逓逝逮逸遂遇遍遣遥遭遮遵遷遺遼避還邑那邦邪邸郁',
+    '郎郡郭郷酉酌酔酢酪酬酵酷酸醜醸采釈釣鈴鉛鉢銃銑銘銭鋳鋼錘錠錦錬錯鍛鎌鎖鎮鏡鐘鑑閑閣閥閲闘阻阿附陛陣陥',
+    '陪陰陳陵陶隆隊随隔障隠隣隷隼雄雅雌雛離雰雷需霊霜霞霧露靖鞠韻響項須頌頑頒頻顕顧颯飢飼飽飾養餓馨駄駆駒',
+    '駿騎騒騰驚髄鬼魁魂魅魔鮎鮮鯉鯛鯨鳩鳳鴻鵬鶏鶴鷹鹿麗麟麻麿黎黙黛鼓'
+  ].join('')
+};
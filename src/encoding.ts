@@ -0,0 +1,231 @@
+import * as fs from 'fs';
+import { isKanji, lookupKanji } from './kanji.js';
+
+// ファイルの文字コード
+// auto: BOMとバイト列から判定
+export const FILE_ENCODINGS = ['auto', 'utf-8', 'shift_jis', 'euc-jp', 'iso-2022-jp', 'utf-16le', 'utf-16be'] as const;
+export type FileEncoding = typeof FILE_ENCODINGS[number];
+export type DetectedEncoding = Exclude<FileEncoding, 'auto'>;
+
+// 文字コードの表示名
+export const ENCODING_LABELS: Record<DetectedEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'shift_jis': 'Shift_JIS (CP932)',
+  'euc-jp': 'EUC-JP',
+  'iso-2022-jp': 'ISO-2022-JP',
+  'utf-16le': 'UTF-16LE',
+  'utf-16be': 'UTF-16BE'
+};
+
+// 読み込んだファイルの内容
+export interface DecodedFile {
+  text: string;
+  encoding: DetectedEncoding;
+  // BOMを取り除いたかどうか
+  bom: boolean;
+}
+
+// BOMから文字コードを判定する
+function detectBom(bytes: Uint8Array): DetectedEncoding | null {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return 'utf-8';
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return 'utf-16le';
+  }
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    return 'utf-16be';
+  }
+  return null;
+}
+
+// 変換できないバイト列があれば例外を投げる（置換文字 U+FFFD を含む結果は返さない）
+function decodeStrict(bytes: Uint8Array, encoding: DetectedEncoding): string {
+  return new TextDecoder(encoding, { fatal: true }).decode(bytes);
+}
+
+// 変換できればその結果を、できなければnullを返す
+function tryDecode(bytes: Uint8Array, encoding: DetectedEncoding): string | null {
+  try {
+    return decodeStrict(bytes, encoding);
+  } catch {
+    return null;
+  }
+}
+
+// 先頭部分を変換し、変換できればその結果を、できなければnullを返す（末尾で途切れた文字は無視する）
+function tryDecodePrefix(bytes: Uint8Array, encoding: DetectedEncoding): string | null {
+  try {
+    return new TextDecoder(encoding, { fatal: true }).decode(bytes, { stream: true });
+  } catch {
+    return null;
+  }
+}
+
+// 日本語の文章に現れる文字（ASCIIの表示文字・空白、かな、和文の記号、漢字、全角英数字・記号）
+const PLAUSIBLE_TEXT_CHAR = /[\t\n\r\u0020-\u007e\u3000-\u30ff\u4e00-\u9fff\uff01-\uff9f]/;
+
+// BOMのないUTF-16を判定する
+// ASCII文字の多いテキストは上位バイト（0x00）の位置から、日本語が中心のテキストは0x00がほとんど現れないため、
+// UTF-8として読めない場合に両方のバイト順で厳密に変換し、日本語の文章らしい方を選ぶ
+function detectUtf16(bytes: Uint8Array): DetectedEncoding | null {
+  const sample = bytes.subarray(0, 4096);
+  if (sample.length < 2 || bytes.length % 2 !== 0) {
+    return null;
+  }
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i + 1 < sample.length; i += 2) {
+    if (sample[i] === 0) {
+      evenZeros++;
+    }
+    if (sample[i + 1] === 0) {
+      oddZeros++;
+    }
+  }
+  const pairs = Math.floor(sample.length / 2);
+  if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) {
+    return 'utf-16le';
+  }
+  if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) {
+    return 'utf-16be';
+  }
+
+  if (tryDecodePrefix(sample, 'utf-8') !== null) {
+    return null;
+  }
+  const candidates = (['utf-16le', 'utf-16be'] as DetectedEncoding[])
+    .map(candidate => ({ encoding: candidate, text: tryDecodePrefix(sample, candidate) }))
+    .filter(candidate => {
+      if (!candidate.text) {
+        return false;
+      }
+      const chars = [...candidate.text];
+      const plausible = chars.filter(char => PLAUSIBLE_TEXT_CHAR.test(char)).length;
+      return plausible >= chars.length * 0.9 && scoreJapanese(candidate.text) > 0;
+    })
+    .sort((a, b) => scoreJapanese(b.text) - scoreJapanese(a.text));
+  return candidates.length > 0 ? candidates[0].encoding : null;
+}
+
+// バイナリファイルの先頭のシグネチャ
+const BINARY_SIGNATURES = [
+  [0x25, 0x50, 0x44, 0x46], // PDF
+  [0x89, 0x50, 0x4E, 0x47], // PNG
+  [0x47, 0x49, 0x46, 0x38], // GIF
+  [0xFF, 0xD8, 0xFF], // JPEG
+  [0x50, 0x4B, 0x03, 0x04], // ZIP（docx・xlsx・epubなど）
+  [0x1F, 0x8B], // gzip
+  [0x7F, 0x45, 0x4C, 0x46] // ELF
+];
+
+// テキストとして扱わない制御文字の割合の上限
+const MAX_CONTROL_CHAR_RATIO = 0.1;
+
+// バイナリファイルかどうかを判定する関数
+// 既知のシグネチャで始まるもの、NULを含むもの（UTF-16を除く）、制御文字の多いものをバイナリとみなす
+export function isBinaryContent(bytes: Uint8Array): boolean {
+  if (BINARY_SIGNATURES.some(signature => signature.every((byte, i) => bytes[i] === byte))) {
+    return true;
+  }
+  if (detectBom(bytes) || detectUtf16(bytes)) {
+    return false;
+  }
+  const sample = bytes.subarray(0, 8192);
+  let controls = 0;
+  for (const byte of sample) {
+    if (byte === 0) {
+      return true;
+    }
+    // タブ・改行・改ページ・復帰・エスケープ（ISO-2022-JP）以外の制御文字
+    if (byte < 0x20 && ![0x09, 0x0A, 0x0C, 0x0D, 0x1B].includes(byte)) {
+      controls++;
+    }
+  }
+  return sample.length > 0 && controls / sample.length > MAX_CONTROL_CHAR_RATIO;
+}
+
+// 日本語の文章らしさの得点（かなと常用漢字などの数）
+// Shift_JISとEUC-JPのどちらでも変換できる場合に、より自然な結果を選ぶために使う
+function scoreJapanese(text: string): number {
+  let score = 0;
+  for (const char of text) {
+    if (/[ぁ-ゖァ-ヺ、。]/.test(char)) {
+      score += 2;
+    } else if (isKanji(char)) {
+      score += lookupKanji(char).category === 'hyogai' ? -1 : 2;
+    } else if (/[｡-ﾟ]/.test(char)) {
+      // 半角カタカナは誤判定で現れやすいため減点する
+      score -= 1;
+    }
+  }
+  return score;
+}
+
+// バイト列の文字コードを判定して文字列に変換する関数
+export function decodeText(bytes: Uint8Array, encoding: FileEncoding = 'auto'): DecodedFile {
+  // UTF-16を指定した場合はNULを含むのが普通のため判定しない
+  if (encoding !== 'utf-16le' && encoding !== 'utf-16be' && isBinaryContent(bytes)) {
+    throw new Error('バイナリファイル（画像・PDF・圧縮ファイル・実行ファイルなど）は読み込めません。テキストファイルを指定してください。' +
+                    'テキストファイルの場合は、encoding パラメータで文字コード（BOMのないUTF-16は utf-16le または utf-16be）を指定してください。');
+  }
+
+  const bomEncoding = detectBom(bytes);
+
+  // 文字コードが指定された場合はその文字コードで変換する
+  if (encoding !== 'auto') {
+    try {
+      const text = decodeStrict(bytes, encoding);
+      return { text, encoding, bom: bomEncoding === encoding };
+    } catch {
+      throw new Error(`ファイルを ${ENCODING_LABELS[encoding]} として読み込めませんでした（変換できないバイト列が含まれています）。` +
+                      `encoding パラメータで正しい文字コードを指定するか、auto を指定してください。`);
+    }
+  }
+
+  // BOMがある場合はBOMの文字コード（TextDecoderがBOMを取り除く）
+  if (bomEncoding) {
+    const text = tryDecode(bytes, bomEncoding);
+    if (text !== null) {
+      return { text, encoding: bomEncoding, bom: true };
+    }
+  }
+
+  // エスケープシーケンスを含む7ビットのテキストはISO-2022-JP
+  if (bytes.includes(0x1B) && bytes.every(byte => byte < 0x80)) {
+    const text = tryDecode(bytes, 'iso-2022-jp');
+    if (text !== null) {
+      return { text, encoding: 'iso-2022-jp', bom: false };
+    }
+  }
+
+  const utf16 = detectUtf16(bytes);
+  if (utf16) {
+    const text = tryDecode(bytes, utf16);
+    if (text !== null) {
+      return { text, encoding: utf16, bom: false };
+    }
+  }
+
+  const utf8 = tryDecode(bytes, 'utf-8');
+  if (utf8 !== null) {
+    return { text: utf8, encoding: 'utf-8', bom: false };
+  }
+
+  // Shift_JISとEUC-JPのうち、変換でき、より日本語らしい方を選ぶ
+  const candidates = (['shift_jis', 'euc-jp'] as DetectedEncoding[])
+    .map(candidate => ({ encoding: candidate, text: tryDecode(bytes, candidate) }))
+    .filter(candidate => candidate.text !== null)
+    .sort((a, b) => scoreJapanese(b.text) - scoreJapanese(a.text));
+  if (candidates.length > 0) {
+    return { text: candidates[0].text, encoding: candidates[0].encoding, bom: false };
+  }
+
+  throw new Error('ファイルの文字コードを判定できませんでした（UTF-8・Shift_JIS・EUC-JP・ISO-2022-JP・UTF-16のいずれとしても変換できないバイト列が含まれています）。' +
+                  'encoding パラメータで文字コードを指定してください。');
+}
+
+// ファイルを読み込み、文字コードを判定して文字列に変換する関数
+export function readTextFile(filePath: string, encoding: FileEncoding = 'auto'): DecodedFile {
+  return decodeText(fs.readFileSync(filePath), encoding);
+}
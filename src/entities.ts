@@ -0,0 +1,147 @@
+import { PositionedToken } from './tokens.js';
+
+// 固有表現の種類
+// person: 人名, place: 地名, organization: 組織名, other: その他の固有名詞（製品名など）
+export const ENTITY_TYPES = ['person', 'place', 'organization', 'other'] as const;
+export type EntityType = typeof ENTITY_TYPES[number];
+
+// 固有表現の種類の表示名
+export const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  person: '人名',
+  place: '地名',
+  organization: '組織名',
+  other: 'その他'
+};
+
+// マスクの方法
+// circle: ○○ に置き換える, placeholder: [人名1] のように種類と番号に置き換える（同じ固有表現には同じ番号）
+export const MASK_STYLES = ['circle', 'placeholder'] as const;
+export type MaskStyle = typeof MASK_STYLES[number];
+
+// 抽出した固有表現（表記と種類が同じものをまとめる）
+export interface NamedEntity {
+  text: string;
+  type: EntityType;
+  reading?: string;
+  // 構成する形態素の表層形（姓・名、都道府県・市区町村など）
+  components: string[];
+  count: number;
+  // 出現位置（コードポイント単位、endは含まない）
+  positions: { start: number; end: number }[];
+}
+
+// 固有名詞の細分類（pos_detail_2）と種類の対応
+const PROPER_NOUN_TYPES: Record<string, EntityType> = {
+  '人名': 'person',
+  '地域': 'place',
+  '組織': 'organization',
+  '一般': 'other'
+};
+
+// 複数の種類の形態素がつながっている場合に優先する種類（日本+マイクロソフト は組織名）
+const TYPE_PRIORITY: EntityType[] = ['organization', 'person', 'place', 'other'];
+
+// 固有名詞の形態素の種類（固有名詞でない場合null）
+// 辞書にない英字だけの語（kuromojiは 固有名詞/組織 とする）は固有表現としない
+function properNounType(token: PositionedToken): EntityType | null {
+  if (token.pos !== '名詞' || token.pos_detail_1 !== '固有名詞') {
+    return null;
+  }
+  if (token.word_type === 'UNKNOWN' && /^[A-Za-z]+$/.test(token.surface_form)) {
+    return null;
+  }
+  return PROPER_NOUN_TYPES[token.pos_detail_2] || 'other';
+}
+
+// 地名の接尾辞（東京+都、港+区 の 都・区）かどうか
+// 人名の接尾辞（さん・氏など）は固有表現に含めない
+function isPlaceSuffix(token: PositionedToken): boolean {
+  return token.pos === '名詞' && token.pos_detail_1 === '接尾' && token.pos_detail_2 === '地域';
+}
+
+// 形態素解析の結果から固有表現を抽出する関数（出現数の多い順）
+// 連続する固有名詞の形態素（間に空白などがないもの）と、地名に続く接尾辞を1つの固有表現にまとめる
+// urlTokenIndices（findUrlTokenIndices の結果）に含まれる形態素は、固有表現にもその一部にもしない
+export function extractEntities(
+  tokens: PositionedToken[],
+  types: readonly EntityType[] = ENTITY_TYPES,
+  urlTokenIndices: Set<number> = new Set()
+): NamedEntity[] {
+  const entities = new Map<string, NamedEntity>();
+  const entityType = (token: PositionedToken) => urlTokenIndices.has(token.index) ? null : properNounType(token);
+
+  for (let i = 0; i < tokens.length;) {
+    const firstType = entityType(tokens[i]);
+    if (!firstType) {
+      i++;
+      continue;
+    }
+
+    const parts: PositionedToken[] = [tokens[i]];
+    const partTypes: EntityType[] = [firstType];
+    let j = i + 1;
+    for (; j < tokens.length && tokens[j].start === tokens[j - 1].end; j++) {
+      const type = entityType(tokens[j]);
+      if (type) {
+        partTypes.push(type);
+      } else if (urlTokenIndices.has(tokens[j].index) || !(isPlaceSuffix(tokens[j]) && partTypes.includes('place'))) {
+        break;
+      }
+      parts.push(tokens[j]);
+    }
+    i = j;
+
+    const type = TYPE_PRIORITY.find(candidate => partTypes.includes(candidate));
+    if (!types.includes(type)) {
+      continue;
+    }
+    const text = parts.map(part => part.surface_form).join('');
+    const key = `${type}\u0000${text}`;
+    const entity = entities.get(key) || {
+      text,
+      type,
+      reading: parts.every(part => part.reading) ? parts.map(part => part.reading).join('') : undefined,
+      components: parts.map(part => part.surface_form),
+      count: 0,
+      positions: []
+    };
+    entity.count++;
+    entity.positions.push({ start: parts[0].start, end: parts[parts.length - 1].end });
+    entities.set(key, entity);
+  }
+
+  return [...entities.values()].sort((a, b) => b.count - a.count || a.positions[0].start - b.positions[0].start);
+}
+
+// 固有表現ごとのマスクの文字列を作成する関数
+// placeholder では、種類ごとにテキスト中で最初に現れた順に番号を付ける
+export function createEntityMasks(entities: NamedEntity[], style: MaskStyle): Map<NamedEntity, string> {
+  const masks = new Map<NamedEntity, string>();
+  const numbers: Partial<Record<EntityType, number>> = {};
+  const byAppearance = [...entities].sort((a, b) => a.positions[0].start - b.positions[0].start);
+  for (const entity of byAppearance) {
+    if (style === 'circle') {
+      masks.set(entity, '○○');
+    } else {
+      numbers[entity.type] = (numbers[entity.type] || 0) + 1;
+      masks.set(entity, `[${ENTITY_TYPE_LABELS[entity.type]}${numbers[entity.type]}]`);
+    }
+  }
+  return masks;
+}
+
+// テキストの範囲（コードポイント単位）を置き換える関数（範囲が重なる場合は先のものを優先する）
+export function replaceRanges(text: string, replacements: { start: number; end: number; replacement: string }[]): string {
+  const chars = [...text];
+  const sorted = [...replacements].sort((a, b) => a.start - b.start);
+  let result = '';
+  let cursor = 0;
+  for (const { start, end, replacement } of sorted) {
+    if (start < cursor) {
+      continue;
+    }
+    result += chars.slice(cursor, start).join('') + replacement;
+    cursor = end;
+  }
+  return result + chars.slice(cursor).join('');
+}
@@ -0,0 +1,232 @@
+import { PositionedToken, countCodePoints, isSymbolToken, isWhitespaceToken } from './tokens.js';
+import { katakanaToHiragana, hiraganaToKatakana, kanaToRomaji } from './kana.js';
+import { KanjiDifficultyLevel, isKanji, lookupKanji, compareKanjiDifficulty } from './kanji.js';
+
+// 変換の種類
+// ruby: 漢字にルビを振る, hiragana/katakana: 読みに変換, romaji: ヘボン式ローマ字に変換
+export type FuriganaMode = 'ruby' | 'hiragana' | 'katakana' | 'romaji';
+
+// ルビの表記形式
+// html: <ruby>漢字<rt>かんじ</rt></ruby>
+// aozora: 漢字《かんじ》（青空文庫形式、必要に応じて｜で親文字の開始を示す）
+// braces: {漢字|かんじ}
+export type RubyFormat = 'html' | 'aozora' | 'braces';
+
+// 読みの注記（start/end はコードポイント単位の位置）
+export interface ReadingAnnotation {
+  start: number;
+  end: number;
+  base: string;
+  reading: string;
+}
+
+// 変換の結果
+export interface FuriganaResult {
+  result: string;
+  annotations: ReadingAnnotation[];
+  // 読みが得られなかった漢字を含む語
+  unknownWords: string[];
+}
+
+export interface FuriganaOptions {
+  mode: FuriganaMode;
+  rubyFormat: RubyFormat;
+  // この段階以上の難しさの漢字を含む部分にだけルビを振る
+  minDifficulty: KanjiDifficultyLevel;
+}
+
+// 語の一部（readingがnullの部分はルビを振らない）
+interface RubySegment {
+  text: string;
+  reading: string | null;
+}
+
+// 漢字として扱う文字（踊り字・ヶなどは前後の漢字と一緒にルビを振る）
+function isKanjiLike(char: string): boolean {
+  return isKanji(char) || (char !== '' && '々〆ヶ'.includes(char));
+}
+
+// 正規表現の特殊文字をエスケープ
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// トークンの読みを取得する（読みがない場合はnull）
+function getReading(token: PositionedToken): string | null {
+  return token.reading && token.reading !== '*' ? token.reading : null;
+}
+
+// 表層形と読み（ひらがな）を対応付けて、送り仮名を除いた漢字部分にだけ読みを割り当てる関数
+// 例: 取り扱い / とりあつかい → 取(と)り扱(あつか)い
+// 対応付けに失敗した場合は語全体に読みを割り当てる
+export function alignReading(surface: string, reading: string): RubySegment[] {
+  // 漢字の連続とそれ以外の連続に分割
+  const runs = surface.match(/[\p{Script=Han}々〆ヶ]+|[^\p{Script=Han}々〆ヶ]+/gu) || [];
+  if (!runs.some(run => isKanjiLike([...run][0]))) {
+    return [{ text: surface, reading: null }];
+  }
+
+  // 漢字部分を任意の読み、かな部分をそのままの読みとして照合
+  const pattern = runs
+    .map(run => isKanjiLike([...run][0]) ? '(.+?)' : `(${escapeRegExp(katakanaToHiragana(run))})`)
+    .join('');
+  const match = new RegExp(`^${pattern}$`, 'u').exec(reading);
+  if (!match) {
+    return [{ text: surface, reading }];
+  }
+
+  return runs.map((run, i) => ({
+    text: run,
+    reading: isKanjiLike([...run][0]) ? match[i + 1] : null
+  }));
+}
+
+// ルビを振るかどうか（指定した難しさ以上の漢字を含む場合）
+function needsRuby(text: string, minDifficulty: KanjiDifficultyLevel): boolean {
+  return [...text].some(char => isKanji(char) && compareKanjiDifficulty(lookupKanji(char).difficulty, minDifficulty) >= 0);
+}
+
+// HTMLの特殊文字をエスケープ
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// ルビを指定した形式で表記する
+function renderRuby(base: string, reading: string, format: RubyFormat, previous: string): string {
+  switch (format) {
+    case 'html':
+      return `<ruby>${escapeHtml(base)}<rt>${escapeHtml(reading)}</rt></ruby>`;
+    case 'braces':
+      return `{${base}|${reading}}`;
+    case 'aozora': {
+      // 直前が漢字の場合や親文字に漢字以外を含む場合は｜で親文字の開始を示す
+      const lastChar = [...previous].pop() || '';
+      const needsBar = isKanjiLike(lastChar) || [...base].some(char => !isKanjiLike(char));
+      return `${needsBar ? '｜' : ''}${base}《${reading}》`;
+    }
+  }
+}
+
+// ローマ字に変換する際の記号の置き換え
+const ROMAJI_PUNCTUATION: Record<string, string> = {
+  '、': ',', '，': ',', '。': '.', '．': '.', '！': '!', '？': '?',
+  '「': '"', '」': '"', '『': '"', '』': '"', '（': '(', '）': ')', '・': ' ', 'ー': '-'
+};
+
+// 前の語に続けて書く語（助動詞・接尾辞、接続助詞の「て」「で」「ば」）かどうか
+function attachesToPrevious(token: PositionedToken): boolean {
+  if (token.pos === '助詞' && token.pos_detail_1 === '接続助詞') {
+    return ['て', 'で', 'ば'].includes(token.surface_form);
+  }
+  return token.pos === '助動詞' || token.pos_detail_1 === '接尾';
+}
+
+// ルビを振ったテキストを作成する
+function toRuby(tokens: PositionedToken[], options: FuriganaOptions): FuriganaResult {
+  const annotations: ReadingAnnotation[] = [];
+  const unknownWords = new Set<string>();
+  let result = '';
+
+  for (const token of tokens) {
+    const reading = getReading(token);
+    const hasKanji = [...token.surface_form].some(isKanji);
+    if (!hasKanji) {
+      result += options.rubyFormat === 'html' ? escapeHtml(token.surface_form) : token.surface_form;
+      continue;
+    }
+    if (!reading) {
+      unknownWords.add(token.surface_form);
+      result += options.rubyFormat === 'html' ? escapeHtml(token.surface_form) : token.surface_form;
+      continue;
+    }
+
+    let offset = token.start;
+    for (const segment of alignReading(token.surface_form, katakanaToHiragana(reading))) {
+      const length = countCodePoints(segment.text);
+      if (segment.reading && needsRuby(segment.text, options.minDifficulty)) {
+        result += renderRuby(segment.text, segment.reading, options.rubyFormat, result);
+        annotations.push({ start: offset, end: offset + length, base: segment.text, reading: segment.reading });
+      } else {
+        result += options.rubyFormat === 'html' ? escapeHtml(segment.text) : segment.text;
+      }
+      offset += length;
+    }
+  }
+
+  return { result, annotations, unknownWords: [...unknownWords] };
+}
+
+// ひらがな・カタカナ・ローマ字に変換したテキストを作成する
+function toReading(tokens: PositionedToken[], mode: Exclude<FuriganaMode, 'ruby'>): FuriganaResult {
+  const annotations: ReadingAnnotation[] = [];
+  const unknownWords = new Set<string>();
+  let result = '';
+  let previous: PositionedToken | null = null;
+  // 語末の促音（行っ＋て など）は次の語の子音を重ねて表すため持ち越す
+  let pendingSokuon = '';
+
+  for (const token of tokens) {
+    // 記号・空白はそのまま（ローマ字では対応する記号に置き換える）
+    if (isSymbolToken(token) || isWhitespaceToken(token)) {
+      if (mode === 'romaji') {
+        if (token.pos_detail_1 === '括弧開' && result !== '' && !/\s/.test(result.slice(-1))) {
+          result += ' ';
+        }
+        result += pendingSokuon ? kanaToRomaji(pendingSokuon) : '';
+        result += [...token.surface_form].map(char => ROMAJI_PUNCTUATION[char] ?? char).join('');
+        pendingSokuon = '';
+      } else {
+        result += token.surface_form;
+      }
+      previous = token;
+      continue;
+    }
+
+    const reading = getReading(token);
+    if (!reading && [...token.surface_form].some(isKanji)) {
+      unknownWords.add(token.surface_form);
+    }
+
+    let converted: string;
+    if (mode === 'romaji') {
+      // ローマ字は発音（は→ワ、長音→ー）をもとに変換する
+      const pronunciation = token.pronunciation && token.pronunciation !== '*' ? token.pronunciation : reading;
+      let kana = pendingSokuon + (pronunciation || token.surface_form);
+      pendingSokuon = '';
+      if (kana.length > 1 && kana.endsWith('ッ')) {
+        pendingSokuon = 'ッ';
+        kana = kana.slice(0, -1);
+      }
+      converted = kanaToRomaji(kana);
+      // 語の区切りに空白を入れる（助動詞・接尾辞は前の語に続け、開き括弧の直後には入れない）
+      const lastChar = result.slice(-1);
+      const afterOpening = previous && previous.pos_detail_1 === '括弧開';
+      if (result !== '' && !/\s/.test(lastChar) && !afterOpening && !attachesToPrevious(token)) {
+        result += ' ';
+      }
+    } else if (reading) {
+      converted = mode === 'hiragana' ? katakanaToHiragana(reading) : hiraganaToKatakana(reading);
+    } else {
+      converted = token.surface_form;
+    }
+
+    result += converted;
+    if (converted !== token.surface_form) {
+      annotations.push({ start: token.start, end: token.end, base: token.surface_form, reading: converted });
+    }
+    previous = token;
+  }
+  if (pendingSokuon) {
+    result += kanaToRomaji(pendingSokuon);
+  }
+
+  return { result, annotations, unknownWords: [...unknownWords] };
+}
+
+// テキストに読みを付与する、または読みに変換する関数
+export function addFurigana(tokens: PositionedToken[], options: FuriganaOptions): FuriganaResult {
+  if (options.mode === 'ruby') {
+    return toRuby(tokens, options);
+  }
+  return toReading(tokens, options.mode);
+}
@@ -0,0 +1,238 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+
+// 通信方式
+export type TransportType = 'stdio' | 'http';
+
+// HTTPで待ち受けるポート番号を指定する環境変数
+export const PORT_ENV = 'JAPANESE_TEXT_ANALYZER_PORT';
+
+// HTTPで待ち受けるホストを指定する環境変数
+export const HOST_ENV = 'JAPANESE_TEXT_ANALYZER_HOST';
+
+// 操作のないセッションを閉じるまでの時間（秒）を指定する環境変数（0の場合は閉じない）
+export const SESSION_TIMEOUT_ENV = 'JAPANESE_TEXT_ANALYZER_SESSION_TIMEOUT';
+
+export const DEFAULT_PORT = 3000;
+export const DEFAULT_HOST = '127.0.0.1';
+export const DEFAULT_SESSION_TIMEOUT = 30 * 60;
+
+// MCPのエンドポイントのパス
+export const MCP_ENDPOINT = '/mcp';
+
+// 終了時に接続の切断を待つ時間（ミリ秒）。過ぎた場合は待たずに終了する
+const SHUTDOWN_TIMEOUT_MS = 10000;
+
+// 操作のないセッションを確認する間隔（ミリ秒）
+const SESSION_SWEEP_INTERVAL_MS = 60000;
+
+// 通信方式の設定
+export interface TransportOptions {
+  transport: TransportType;
+  port: number;
+  host: string;
+  // 操作のないセッションを閉じるまでの時間（秒。0の場合は閉じない）
+  sessionTimeout: number;
+}
+
+// コマンドライン引数と環境変数から通信方式の設定を読み取る関数
+// --transport stdio|http、--port <番号>、--host <ホスト>、--session-timeout <秒>
+export function parseTransportOptions(argv: string[], env: NodeJS.ProcessEnv = process.env): TransportOptions {
+  const options: TransportOptions = {
+    transport: 'stdio',
+    port: env[PORT_ENV] ? parsePort(env[PORT_ENV]) : DEFAULT_PORT,
+    host: env[HOST_ENV] || DEFAULT_HOST,
+    sessionTimeout: env[SESSION_TIMEOUT_ENV] ? parseSessionTimeout(env[SESSION_TIMEOUT_ENV]) : DEFAULT_SESSION_TIMEOUT
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split(/=(.*)/s);
+    if (flag !== '--transport' && flag !== '--port' && flag !== '--host' && flag !== '--session-timeout') {
+      continue;
+    }
+    const value = inline ?? argv[++i];
+    if (value === undefined) {
+      throw new Error(`${flag} の値がありません`);
+    }
+    if (flag === '--transport') {
+      if (value !== 'stdio' && value !== 'http') {
+        throw new Error(`--transport には stdio または http を指定してください（指定された値: ${value}）`);
+      }
+      options.transport = value;
+    } else if (flag === '--port') {
+      options.port = parsePort(value);
+    } else if (flag === '--session-timeout') {
+      options.sessionTimeout = parseSessionTimeout(value);
+    } else {
+      options.host = value;
+    }
+  }
+
+  return options;
+}
+
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`ポート番号 "${value}" が正しくありません（0〜65535）`);
+  }
+  return port;
+}
+
+function parseSessionTimeout(value: string): number {
+  const seconds = Number(value);
+  if (!Number.isInteger(seconds) || seconds < 0) {
+    throw new Error(`セッションのタイムアウト "${value}" が正しくありません（0以上の秒数）`);
+  }
+  return seconds;
+}
+
+// JSON-RPCのエラーを返す
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string) {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null
+  }));
+}
+
+// ループバックアドレスかどうか（DNSリバインディング対策を有効にするかの判定に使う）
+function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+// MCPのStreamable HTTPで待ち受ける関数
+// セッションごとに connect でMCPサーバーを作成して接続する（形態素解析器はすべてのセッションで共有される）
+// 処理中のリクエストがなく sessionTimeout 秒以上操作のないセッションは閉じる（終了しないクライアントのサーバーが残り続けないようにする）
+// SIGINT・SIGTERMを受け取ると、新しい接続の受け付けをやめ、すべてのセッションを閉じてから終了する
+export async function startHttpServer(
+  connect: (transport: StreamableHTTPServerTransport) => Promise<void>,
+  options: Pick<TransportOptions, 'port' | 'host' | 'sessionTimeout'>
+): Promise<http.Server> {
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+  // セッションID → 最後に操作した時刻と処理中のリクエスト数
+  // GETの通知用ストリームは開いたままになるため処理中に数えない（開いていても操作がなければ閉じる）
+  const activity = new Map<string, { lastUsed: number; pending: number }>();
+  // ループバックアドレスで待ち受ける場合は、ブラウザからのDNSリバインディングを防ぐためHostヘッダーを確認する（待ち受けを開始してから設定）
+  let allowedHosts: string[] | undefined;
+
+  const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== MCP_ENDPOINT) {
+      res.writeHead(404).end('Not Found');
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const transport = sessions.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, `セッション ${sessionId} が見つかりません`);
+        return;
+      }
+      const state = activity.get(sessionId);
+      if (state) {
+        state.lastUsed = Date.now();
+        if (req.method !== 'GET') {
+          state.pending++;
+          res.once('close', () => {
+            state.pending--;
+            state.lastUsed = Date.now();
+          });
+        }
+      }
+      await transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 400, 'mcp-session-id ヘッダーがありません');
+      return;
+    }
+
+    // セッションIDのないPOSTは新しいセッションの初期化要求として扱う（初期化要求でない場合はトランスポートが400を返す）
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, transport);
+        activity.set(id, { lastUsed: Date.now(), pending: 0 });
+        console.error(`セッションを開始しました: ${id}（接続中のセッション: ${sessions.size}）`);
+      },
+      enableDnsRebindingProtection: allowedHosts !== undefined,
+      allowedHosts
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        activity.delete(transport.sessionId);
+        console.error(`セッションを終了しました: ${transport.sessionId}（接続中のセッション: ${sessions.size}）`);
+      }
+    };
+    await connect(transport);
+    await transport.handleRequest(req, res);
+    if (!transport.sessionId) {
+      await transport.close();
+    }
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      console.error(`HTTPリクエストの処理中にエラーが発生しました: ${error.message || error}`);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  if (isLoopbackHost(options.host)) {
+    const { port } = httpServer.address() as AddressInfo;
+    allowedHosts = ['127.0.0.1', 'localhost', '[::1]'].map(host => `${host}:${port}`);
+  }
+
+  if (options.sessionTimeout > 0) {
+    const timeoutMs = options.sessionTimeout * 1000;
+    setInterval(() => {
+      const now = Date.now();
+      for (const [id, state] of activity) {
+        if (state.pending === 0 && now - state.lastUsed >= timeoutMs) {
+          console.error(`操作のないセッションを閉じます: ${id}`);
+          sessions.get(id)?.close().catch(() => undefined);
+        }
+      }
+    }, Math.min(SESSION_SWEEP_INTERVAL_MS, timeoutMs)).unref();
+  }
+
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    console.error(`${signal} を受け取りました。セッションを閉じて終了します...`);
+    setTimeout(() => {
+      console.error('セッションを閉じるのに時間がかかっているため、待たずに終了します');
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS).unref();
+
+    const closed = new Promise<void>(resolve => httpServer.close(() => resolve()));
+    await Promise.all([...sessions.values()].map(transport => transport.close().catch(() => undefined)));
+    httpServer.closeIdleConnections?.();
+    await closed;
+    console.error('サーバーを終了しました');
+    process.exit(0);
+  };
+  process.once('SIGINT', () => shutdown('SIGINT'));
+  process.once('SIGTERM', () => shutdown('SIGTERM'));
+
+  return httpServer;
+}
@@ -1,12 +1,140 @@
 #!/usr/bin/env node
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { RootsListChangedNotificationSchema, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
 import * as fs from 'fs';
+import * as os from 'os';
+import { AddressInfo } from 'net';
 import * as path from 'path';
 import { createRequire } from 'module';
 import { fileURLToPath } from 'url';
 import { z } from 'zod';
+import {
+  OutputFormat,
+  formatParam,
+  buildToolResult,
+  charCountOutputSchema,
+  wordCountOutputSchema,
+  analysisOutputSchema,
+  tokenizeOutputSchema,
+  lintOutputSchema,
+  styleOutputSchema,
+  readabilityOutputSchema,
+  kanjiProfileOutputSchema,
+  furiganaOutputSchema,
+  sentenceSplitOutputSchema,
+  manuscriptOutputSchema,
+  directoryAnalysisOutputSchema,
+  compareOutputSchema,
+  keywordsOutputSchema,
+  variantsOutputSchema,
+  normalizeOutputSchema,
+  entitiesOutputSchema
+} from './output.js';
+import { KuromojiToken, PositionedToken, attachOffsets, createLineColumnLocator, findUrlTokenIndices, isSymbolToken, isWhitespaceToken } from './tokens.js';
+import { splitSentences, splitTokensIntoSentences } from './sentences.js';
+import { COUNTING_RULES, COUNTING_RULE_INFO, CountingRule, countCharacters, countCharactersByAllRules, countShiftJisBytes } from './counting.js';
+import { LintRuleSetting, lintRules, lintText } from './lint.js';
+import { STYLE_LABELS, analyzeStyle } from './style.js';
+import { ReadabilityMethod, ReadabilityResult, computeReadability, splitParagraphs } from './readability.js';
+import {
+  KanjiCategory,
+  KanjiDifficultyLevel,
+  KANJI_CATEGORY_LABELS,
+  KANJI_DIFFICULTY_LABELS,
+  JLPT_LEVELS,
+  isKanji,
+  lookupKanji,
+  compareKanjiDifficulty
+} from './kanji.js';
+import { katakanaToHiragana } from './kana.js';
+import { FuriganaMode, RubyFormat, addFurigana } from './furigana.js';
+import { FILE_ENCODINGS, ENCODING_LABELS, FileEncoding } from './encoding.js';
+import { ALLOWED_ROOTS_ENV, configureSandbox, getAllowedRoots, getMaxFileSize, parseSandboxOptions, readAllowedTextFile, resolveFilePath, setClientRoots } from './sandbox.js';
+import { MCP_ENDPOINT, parseTransportOptions, startHttpServer } from './http.js';
+import { CliArgs, EXIT_ERROR, parseCliArgs, runCli } from './cli.js';
+import {
+  COUNTING_RULES_URI,
+  METRICS_URI,
+  FILE_REPORT_URI_TEMPLATE,
+  fileReportUri,
+  AnalysisReportStore,
+  formatCountingRules,
+  countingRulesData,
+  formatMetricDefinitions,
+  metricDefinitionsData
+} from './resources.js';
+import {
+  DEFAULT_INCLUDE_PATTERNS,
+  DEFAULT_EXCLUDE_PATTERNS,
+  DIRECTORY_METRIC_LABELS,
+  DIRECTORY_SORT_KEYS,
+  DirectorySortKey,
+  MetricStatistics,
+  Outlier,
+  listFiles,
+  computeStatistics,
+  findOutliers
+} from './corpus.js';
+import { INPUT_FORMATS, InputFormat, SourceMap, createIdentitySourceMap, preprocessText, toOriginalRange } from './preprocess.js';
+import { analyzeTextMetrics } from './analysis.js';
+import { TARGET_STATUS_LABELS, TargetCheck, resolveMetricSettings } from './metrics.js';
+import { ALIGNMENT_LABELS, MetricDelta, VocabularyChange, alignSentences, compareMetrics, compareValues, diffVocabulary } from './compare.js';
+import {
+  KEYWORD_SCORINGS,
+  KEYWORD_SCORING_LABELS,
+  KeywordBackground,
+  KeywordScoring,
+  KeywordTerm,
+  createWordCostLookup,
+  extractCollocations,
+  extractKeywords,
+  extractNgrams
+} from './keywords.js';
+import {
+  VARIANT_KIND_LABELS,
+  NORMALIZE_RULE_LABELS,
+  NormalizePolicy,
+  DEFAULT_NORMALIZE_POLICY,
+  findSpellingVariants,
+  normalizeText
+} from './orthography.js';
+import {
+  ENTITY_TYPES,
+  ENTITY_TYPE_LABELS,
+  EntityType,
+  MASK_STYLES,
+  MaskStyle,
+  extractEntities,
+  createEntityMasks,
+  replaceRanges
+} from './entities.js';
+import {
+  WORD_COUNT_LANGUAGES,
+  WordCountLanguage,
+  SegmentLanguage,
+  SEGMENT_LANGUAGE_LABELS,
+  LanguageSegment,
+  splitLanguageSegments,
+  splitEnglishWords
+} from './language.js';
+import { TokenizeContext, tokenizeInChunks, offsetProgress, throwIfCancelled } from './tokenization.js';
+import { ManuscriptOptions, DEFAULT_MANUSCRIPT_OPTIONS, layoutManuscript, renderManuscript } from './manuscript.js';
+import {
+  UserDictionary,
+  UserDictionaryOptions,
+  UserTermMatch,
+  applyUserDictionary,
+  countUserTermMatches,
+  createUserDictionary,
+  mergeUserTermMatches,
+  parseUserTermLine,
+  readUserDictionaryFile
+} from './userdict.js';
+import { loadConfig } from './config.js';
 
 const require = createRequire(import.meta.url);
 const __filename = fileURLToPath(import.meta.url);
@@ -121,53 +249,105 @@ async function initializeTokenizer() {
   return initializingPromise;
 }
 
-// ファイルパスを解決する関数 - WindowsとWSL/Linux形式の両方に対応
-function resolveFilePath(filePath: string): string {
-  try {
-    // WSL/Linux形式のパス (/c/Users/...) をWindows形式 (C:\Users\...) に変換
-    if (filePath.match(/^\/[a-zA-Z]\//)) {
-      // /c/Users/... 形式を C:\Users\... 形式に変換
-      const drive = filePath.charAt(1).toUpperCase();
-      let windowsPath = `${drive}:${filePath.substring(2).replace(/\//g, '\\')}`;
-      
-      console.error(`WSL/Linux形式のパスをWindows形式に変換: ${filePath} -> ${windowsPath}`);
-      
-      if (fs.existsSync(windowsPath)) {
-        console.error(`変換されたパスでファイルを発見: ${windowsPath}`);
-        return windowsPath;
-      }
+// ユーザー辞書のファイルを指定する環境変数（複数の場合はパスの区切り文字 : または ; でつなぐ）
+const USER_DICTIONARY_ENV = 'JAPANESE_TEXT_ANALYZER_USER_DICTIONARY';
+
+// ユーザー辞書を読み込む関数
+// 環境変数、設定ファイル、ツールの引数の順に読み込み、同じ表記の語は後から読み込んだものを優先する
+// どこにも指定されていない場合はnullを返す
+function loadUserDictionary(options: UserDictionaryOptions = {}): UserDictionary | null {
+  const files = [
+    ...(process.env[USER_DICTIONARY_ENV] || '').split(path.delimiter).filter(Boolean).map(file => path.resolve(file)),
+    ...(loadConfig().config.userDictionary || [])
+  ];
+  const terms = files.flatMap(file => readUserDictionaryFile(file));
+  if (options.path) {
+    for (const term of readUserDictionaryFile(resolveFilePath(options.path), true)) {
+      terms.push(term);
     }
-    
-    // 通常の絶対パスの処理
-    if (path.isAbsolute(filePath)) {
-      if (fs.existsSync(filePath)) {
-        console.error(`絶対パスでファイルを発見: ${filePath}`);
-        return filePath;
-      }
-      
-      // 絶対パスでファイルが見つからない場合はエラー
-      throw new Error(`指定された絶対パス "${filePath}" が存在しません。パスが正しいか確認してください。` +
-                      ` Windows形式(C:\\Users\\...)かWSL/Linux形式(/c/Users/...)で指定してください。`);
+  }
+  for (const line of options.terms || []) {
+    const term = parseUserTermLine(line, 'ツールの引数');
+    if (term) {
+      terms.push(term);
     }
-    
-    // 相対パスの場合、カレントワーキングディレクトリから検索
-    const cwdPath = path.resolve(process.cwd(), filePath);
-    if (fs.existsSync(cwdPath)) {
-      console.error(`カレントディレクトリでファイルを発見: ${cwdPath}`);
-      return cwdPath;
+  }
+  return terms.length > 0 ? createUserDictionary(terms) : null;
+}
+
+// 形態素解析を行い、ユーザー辞書を適用して文字位置を付与する関数（長いテキストは段落の区切りで分割して解析する）
+async function tokenizeText(tokenizer: any, text: string, userDictionary: UserDictionary | null, context: TokenizeContext = {}): Promise<PositionedToken[]> {
+  return attachOffsets(text, applyUserDictionary(await tokenizeInChunks(tokenizer, text, context), userDictionary));
+}
+
+// ツールの呼び出しから形態素解析の進捗通知とキャンセルの設定を作成する関数
+// クライアントが progressToken を指定した場合のみ、全体の1%以上進むごとと完了時に進捗を通知する
+function createTokenizeContext(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): TokenizeContext {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return { signal: extra.signal };
+  }
+  let reported = -1;
+  return {
+    signal: extra.signal,
+    onProgress: async (processed, total) => {
+      if (processed < total && processed - reported < total / 100) {
+        return;
+      }
+      reported = processed;
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress: processed, total }
+      });
     }
-    
-    // どこにも見つからなかった場合
-    throw new Error(`ファイル "${filePath}" が見つかりませんでした。絶対パスで指定してください。` +
-                    ` Windows形式(C:\\Users\\...)かWSL/Linux形式(/c/Users/...)で指定可能です。`);
-  } catch (error) {
-    throw error;
+  };
+}
+
+// ユーザー辞書の語に一致した箇所をMarkdownの表に整形する関数（ユーザー辞書を使用していない場合は空文字列）
+function formatUserTermMatches(userDictionary: UserDictionary | null, matches: UserTermMatch[]): string {
+  if (!userDictionary) {
+    return '';
+  }
+  if (matches.length === 0) {
+    return `\n\n## ユーザー辞書\n\nユーザー辞書の語（${userDictionary.terms.size}語）に一致した箇所はありません。\n`;
+  }
+  const rows = matches.map(match => `| ${match.surface} | ${match.pos} | ${match.reading || '*'} | ${match.count} | ${match.source} |`);
+  return `\n\n## ユーザー辞書
+
+| 語 | 品詞 | 読み | 出現数 | 辞書 |
+|---|---|---|---|---|
+${rows.join('\n')}
+`;
+}
+
+// 単語数として数える形態素かどうか（記号と空白以外。日本語モードと自動判定で共通）
+function isCountedWordToken(token: KuromojiToken): boolean {
+  return !isSymbolToken(token) && !isWhitespaceToken(token);
+}
+
+// 読みやすさの算出結果をMarkdownの表に整形する関数
+function formatReadability(result: ReadabilityResult): string {
+  const methodName = result.method === 'tateishi' ? '建石式' : 'jReadability';
+  const rows = result.components.map(component => {
+    return `| ${component.name} | ${component.value.toFixed(2)} ${component.unit} | ${component.coefficient} | ${component.contribution >= 0 ? '+' : ''}${component.contribution.toFixed(3)} |`;
+  });
+  if (result.score === null) {
+    return `- スコア: 算出できません（文がありません）`;
   }
+  return `- スコア: ${result.score.toFixed(2)}（${methodName}、高いほど読みやすい）
+- レベル: ${result.level}
+
+| 要素 | 値 | 係数 | 寄与 |
+|---|---|---|---|
+${rows.join('\n')}
+| 定数項 | | | +${result.intercept} |`;
 }
 
 // JapaneseTextAnalyzerサーバークラス
 class JapaneseTextAnalyzer {
   private server: McpServer;
+  // analyze_file の分析結果（このサーバーに接続したクライアントだけが参照できる）
+  private reports = new AnalysisReportStore();
 
   constructor() {
     this.server = new McpServer({
@@ -177,18 +357,37 @@ class JapaneseTextAnalyzer {
   }
 
   // テキストの文字数を計測する処理
-  private countTextCharsImpl(text: string, sourceName: string = 'テキスト') {
+  private countTextCharsImpl(
+    text: string,
+    sourceName: string = 'テキスト',
+    format: OutputFormat = 'markdown',
+    rule: CountingRule = 'no_whitespace'
+  ) {
     try {
-      // 改行とスペースを除外した文字数
-      const contentWithoutSpacesAndNewlines = text.replace(/[\s\n\r]/g, '');
-      const effectiveCharCount = contentWithoutSpacesAndNewlines.length;
+      // 書記素クラスタ（見た目の1文字）単位で、すべての計数ルールの文字数を数える
+      const counts = countCharactersByAllRules(text);
+      const selected = counts.find(count => count.rule === rule);
+      const { unmappable } = countShiftJisBytes(text);
+
+      const resultText = `${sourceName}の文字数: ${selected.value}${selected.unit}（${selected.name}）
+
+| 計数ルール | 値 | 説明 |
+|---|---|---|
+${counts.map(count => `| ${count.name} (\`${count.rule}\`) | ${count.value}${count.unit} | ${count.description} |`).join('\n')}
+${unmappable > 0 ? `\n※ Shift_JISに変換できない文字が${unmappable}文字あります（Shift_JISのバイト数には含みません）。\n` : ''}`;
       
-      return {
-        content: [{ 
-          type: 'text' as const, 
-          text: `${sourceName}の文字数: ${effectiveCharCount}文字（改行・スペース除外）`
-        }]
-      };
+      return buildToolResult(
+        resultText,
+        {
+          source: sourceName,
+          rule,
+          charCount: selected.value,
+          unit: selected.unit,
+          counts,
+          shiftJisUnmappable: unmappable
+        },
+        format
+      );
     } catch (error: any) {
       return {
         content: [{ 
@@ -201,10 +400,14 @@ class JapaneseTextAnalyzer {
   }
 
   // テキストの単語数を計測する処理
-  private async countTextWordsImpl(text: string, language: 'en' | 'ja' = 'en', sourceName: string = 'テキスト') {
+  private async countTextWordsImpl(text: string, language: WordCountLanguage = 'auto', sourceName: string = 'テキスト', format: OutputFormat = 'markdown', userDictionaryOptions: UserDictionaryOptions = {}, context: TokenizeContext = {}) {
     try {
       let wordCount = 0;
       let resultText = '';
+      let tokenDetails: { surface_form: string; pos: string; pos_detail_1: string; reading?: string; counted: boolean }[] | undefined;
+      let userTerms: UserTermMatch[] | undefined;
+      let languageCounts: Record<SegmentLanguage, number> | undefined;
+      let segmentDetails: (LanguageSegment & { wordCount: number })[] | undefined;
       
       if (language === 'en') {
         // 英語の場合、単語はスペースで区切られているためsplitで分割
@@ -228,31 +431,131 @@ class JapaneseTextAnalyzer {
           };
         }
         
-        // 形態素解析を実行
-        const tokens = tokenizer.tokenize(text);
+        // 形態素解析を実行（ユーザー辞書の語は1語として数える）
+        const userDictionary = loadUserDictionary(userDictionaryOptions);
+        const tokens = applyUserDictionary(await tokenizeInChunks(tokenizer, text, context), userDictionary);
+        if (userDictionary) {
+          userTerms = countUserTermMatches(tokens, userDictionary);
+        }
         
         // 記号と空白以外のすべての単語をカウント（助詞や助動詞も含める）
-        const meaningfulTokens = tokens.filter((token: any) => {
-          // 記号と空白のみを除外
-          return !(token.pos === '記号' || token.pos === '空白');
-        });
+        const meaningfulTokens = tokens.filter(isCountedWordToken);
         
         wordCount = meaningfulTokens.length;
         
         // 単語の詳細情報を出力
-        const tokenDetails = tokens.map((token: any) => {
+        tokenDetails = tokens.map((token: any) => ({
+          surface_form: token.surface_form,
+          pos: token.pos,
+          pos_detail_1: token.pos_detail_1,
+          reading: token.reading,
+          counted: isCountedWordToken(token)
+        }));
+        const tokenDetailsText = tokens.map((token: any) => {
           return `【${token.surface_form}】 品詞: ${token.pos}, 品詞細分類: ${token.pos_detail_1}, 読み: ${token.reading}`;
         }).join('\n');
         
-        resultText = `${sourceName}の単語数: ${wordCount}単語 (日本語モード、すべての品詞を含む)\n\n分析結果:\n${tokenDetails}\n\n有効な単語としてカウントしたもの:\n${meaningfulTokens.map((t: any) => t.surface_form).join(', ')}`;
+        resultText = `${sourceName}の単語数: ${wordCount}単語 (日本語モード、すべての品詞を含む)\n\n分析結果:\n${tokenDetailsText}\n\n有効な単語としてカウントしたもの:\n${meaningfulTokens.map((t: any) => t.surface_form).join(', ')}${formatUserTermMatches(userDictionary, userTerms)}`;
+      } else {
+        // 自動判定の場合、文字種から日本語と英語の区間に分け、日本語は形態素解析、英語は空白・句読点で区切って数える
+        const segments = splitLanguageSegments(text);
+        let tokenizer;
+        let userDictionary: UserDictionary | null = null;
+        if (segments.some(segment => segment.language === 'ja')) {
+          try {
+            tokenizer = await initializeTokenizer();
+          } catch (error) {
+            return {
+              content: [{ 
+                type: 'text' as const, 
+                text: '形態素解析器の初期化に失敗しました。しばらく待ってから再試行してください。'
+              }],
+              isError: true
+            };
+          }
+          userDictionary = loadUserDictionary(userDictionaryOptions);
+        }
+
+        // 記号と空白以外の形態素を数える（日本語モードと同じ isCountedWordToken で判定する）
+        const countedWords: Record<SegmentLanguage, string[]> = { ja: [], en: [] };
+        const jaTokens: KuromojiToken[] = [];
+        // 進捗は日本語の区間の長さの合計に対して通知する
+        const jaLength = segments.reduce((sum, segment) => sum + (segment.language === 'ja' ? segment.text.length : 0), 0);
+        let jaProcessed = 0;
+        segmentDetails = [];
+        for (const segment of segments) {
+          let words: string[];
+          if (segment.language === 'ja') {
+            const tokens = applyUserDictionary(await tokenizeInChunks(tokenizer, segment.text, offsetProgress(context, jaProcessed, jaLength)), userDictionary);
+            jaProcessed += segment.text.length;
+            // 長いテキストでは要素数が多くスプレッド構文の引数の上限を超えるため、1つずつ追加する
+            for (const token of tokens) {
+              jaTokens.push(token);
+            }
+            words = tokens.filter(isCountedWordToken).map(token => token.surface_form);
+          } else {
+            words = splitEnglishWords(segment.text);
+          }
+          for (const word of words) {
+            countedWords[segment.language].push(word);
+          }
+          segmentDetails.push({ ...segment, wordCount: words.length });
+        }
+
+        languageCounts = { ja: countedWords.ja.length, en: countedWords.en.length };
+        wordCount = languageCounts.ja + languageCounts.en;
+        if (userDictionary) {
+          userTerms = countUserTermMatches(jaTokens, userDictionary);
+        }
+        tokenDetails = jaTokens.map(token => ({
+          surface_form: token.surface_form,
+          pos: token.pos,
+          pos_detail_1: token.pos_detail_1,
+          reading: token.reading,
+          counted: isCountedWordToken(token)
+        }));
+
+        // 長いテキストでは、区間と単語の一覧は先頭の一部だけを表示する（すべての区間は構造化データで返す）
+        const maxSegmentLines = 50;
+        const maxListedWords = 200;
+        const excerpt = (value: string) => [...value].length > 40 ? `${[...value].slice(0, 40).join('')}…` : value;
+        const segmentLines = segmentDetails.slice(0, maxSegmentLines).map(segment =>
+          `- [${SEGMENT_LANGUAGE_LABELS[segment.language]}] ${JSON.stringify(excerpt(segment.text))}（${segment.wordCount}単語）`);
+        if (segmentDetails.length > maxSegmentLines) {
+          segmentLines.push(`- …ほか${segmentDetails.length - maxSegmentLines}区間`);
+        }
+        const listWords = (words: string[]) => words.length > maxListedWords
+          ? `${words.slice(0, maxListedWords).join(', ')}, …ほか${words.length - maxListedWords}語`
+          : words.join(', ');
+        resultText = `${sourceName}の単語数: ${wordCount}単語 (自動判定モード: 日本語 ${languageCounts.ja}単語, 英語 ${languageCounts.en}単語)
+
+## 言語ごとの単語数
+| 言語 | 単語数 | 区間の数 |
+|---|---|---|
+${(['ja', 'en'] as SegmentLanguage[]).map(lang => `| ${SEGMENT_LANGUAGE_LABELS[lang]} | ${languageCounts[lang]} | ${segments.filter(segment => segment.language === lang).length} |`).join('\n')}
+| 合計 | ${wordCount} | ${segments.length} |
+
+## 区間
+${segmentLines.length > 0 ? segmentLines.join('\n') : '区間はありません。'}
+
+## 有効な単語としてカウントしたもの
+- 日本語: ${listWords(countedWords.ja)}
+- 英語: ${listWords(countedWords.en)}${formatUserTermMatches(userDictionary, userTerms || [])}`;
       }
       
-      return {
-        content: [{ 
-          type: 'text' as const, 
-          text: resultText
-        }]
-      };
+      return buildToolResult(
+        resultText,
+        {
+          source: sourceName,
+          language,
+          wordCount,
+          unit: '単語',
+          ...(languageCounts ? { languageCounts, segments: segmentDetails } : {}),
+          ...(tokenDetails ? { tokens: tokenDetails } : {}),
+          ...(userTerms ? { userTerms } : {})
+        },
+        format
+      );
     } catch (error: any) {
       return {
         content: [{ 
@@ -265,7 +568,14 @@ class JapaneseTextAnalyzer {
   }
 
   // テキストの形態素解析結果を返す関数を追加
-  private async analyzeTextImpl(text: string) {
+  private async analyzeTextImpl(
+    text: string,
+    sourceName: string = 'テキスト',
+    format: OutputFormat = 'markdown',
+    readabilityMethod: ReadabilityMethod = 'jreadability',
+    userDictionaryOptions: UserDictionaryOptions = {},
+    context: TokenizeContext = {}
+  ) {
     try {
       // 形態素解析器の初期化チェック
       let tokenizer;
@@ -281,155 +591,35 @@ class JapaneseTextAnalyzer {
         };
       }
 
-      // テキストを文に分割（。で区切る）
-      const sentences = text.split(/[。.!?！？]/g).filter(s => s.trim().length > 0);
-      
       // 形態素解析を実行
-      const tokens = tokenizer.tokenize(text);
-
-      // 基本的な分析結果
-      const totalChars = text.replace(/[\s\n\r]/g, '').length;
-      const totalSentences = sentences.length;
-      const totalMorphemes = tokens.length;
-
-      // 品詞別のカウント
-      const posCounts: Record<string, number> = {};
-      const particleCounts: Record<string, number> = {};
-      let totalParticles = 0;
-      
-      // 文字種別のカウント
-      const scriptCounts = {
-        hiragana: 0,
-        katakana: 0,
-        kanji: 0,
-        alphabet: 0,
-        digit: 0,
-        other: 0
-      };
-      
-      // 単語の一意性確認用
-      const uniqueWords = new Set<string>();
-      let katakanaWords = 0;
-      let punctuationCount = 0;
-      const honorificExpressions = ['です', 'ます', 'でした', 'ました', 'ございます', 'いただく', 'なさる', 'れる', 'られる', 'どうぞ', 'お', 'ご'];
-      let honorificCount = 0;
-
-      // 各トークンを処理
-      tokens.forEach((token: any) => {
-        // 品詞カウント
-        posCounts[token.pos] = (posCounts[token.pos] || 0) + 1;
-        
-        // 助詞カウント
-        if (token.pos === '助詞') {
-          particleCounts[token.surface_form] = (particleCounts[token.surface_form] || 0) + 1;
-          totalParticles++;
-        }
-        
-        // 単語カウント
-        uniqueWords.add(token.basic_form);
-        
-        // カタカナ語カウント
-        if (/^[\u30A0-\u30FF]+$/.test(token.surface_form)) {
-          katakanaWords++;
-        }
+      const userDictionary = loadUserDictionary(userDictionaryOptions);
+      const tokens = await tokenizeText(tokenizer, text, userDictionary, context);
+      const userTerms = countUserTermMatches(tokens, userDictionary);
 
-        // 句読点カウント
-        if (token.pos === '記号' && (token.pos_detail_1 === '句点' || token.pos_detail_1 === '読点')) {
-          punctuationCount++;
-        }
+      // 文章の特徴を算出（指標と目標範囲は設定ファイルに従う）
+      const metricSettings = resolveMetricSettings(loadConfig().config);
+      const { summary, metrics: analysisResults, readability } = analyzeTextMetrics(text, tokens, readabilityMethod, metricSettings);
+      const { totalChars, totalSentences, totalMorphemes } = summary;
 
-        // 敬語表現カウント
-        if (honorificExpressions.some(expr => token.surface_form.includes(expr) || token.basic_form.includes(expr))) {
-          honorificCount++;
+      // 値を表示用の文字列に変換する
+      const formatValue = (value: number | Record<string, number>) => {
+        if (typeof value === 'number') {
+          return value.toFixed(2);
         }
-      });
+        return Object.entries(value).map(([key, ratio]) => `${key}: ${ratio.toFixed(2)}%`).join(', ');
+      };
 
-      // 文字種のカウント
-      for (const char of text) {
-        if (/[\u3040-\u309F]/.test(char)) {
-          scriptCounts.hiragana++;
-        } else if (/[\u30A0-\u30FF]/.test(char)) {
-          scriptCounts.katakana++;
-        } else if (/[\u4E00-\u9FAF]/.test(char)) {
-          scriptCounts.kanji++;
-        } else if (/[a-zA-Z]/.test(char)) {
-          scriptCounts.alphabet++;
-        } else if (/[0-9０-９]/.test(char)) {
-          scriptCounts.digit++;
-        } else if (!/\s/.test(char)) {
-          scriptCounts.other++;
-        }
-      }
-
-      // 各指標の計算
-      const totalNonSpaceChars = Object.values(scriptCounts).reduce((a, b) => a + b, 0);
-      
-      // features.ymlに基づく解析結果
-      const analysisResults = {
-        average_sentence_length: {
-          name: '平均文長',
-          value: totalSentences > 0 ? (totalChars / totalSentences).toFixed(2) : '0.00',
-          unit: '文字／文',
-          description: '一文の長さ。長すぎると読みにくくなる。'
-        },
-        average_morphemes_per_sentence: {
-          name: '文あたりの形態素数',
-          value: totalSentences > 0 ? (totalMorphemes / totalSentences).toFixed(2) : '0.00',
-          unit: '形態素／文',
-          description: '文の密度や構文の複雑さを表す。'
-        },
-        pos_ratio: {
-          name: '品詞の割合',
-          value: Object.entries(posCounts).map(([pos, count]) => {
-            return `${pos}: ${((count / totalMorphemes) * 100).toFixed(2)}%`;
-          }).join(', '),
-          unit: '%',
-          description: '名詞・動詞・形容詞などの使用バランスを分析。'
-        },
-        particle_ratio: {
-          name: '助詞の割合',
-          value: Object.entries(particleCounts)
-            .sort((a, b) => b[1] - a[1])
-            .slice(0, 10)
-            .map(([particle, count]) => {
-              return `${particle}: ${((count / totalParticles) * 100).toFixed(2)}%`;
-            }).join(', '),
-          unit: '%',
-          description: '主語・目的語などの構造分析や文の流れを判断。'
-        },
-        script_type_ratio: {
-          name: '文字種の割合',
-          value: Object.entries(scriptCounts).map(([type, count]) => {
-            return `${type}: ${((count / totalNonSpaceChars) * 100).toFixed(2)}%`;
-          }).join(', '),
-          unit: '%',
-          description: 'ひらがな・カタカナ・漢字・英数字の構成比率。'
-        },
-        vocabulary_diversity: {
-          name: '語彙の多様性（タイプ/トークン比）',
-          value: ((uniqueWords.size / totalMorphemes) * 100).toFixed(2),
-          unit: '%',
-          description: '語彙の豊かさや表現力の指標。'
-        },
-        katakana_word_ratio: {
-          name: 'カタカナ語の割合',
-          value: ((katakanaWords / totalMorphemes) * 100).toFixed(2),
-          unit: '%',
-          description: '外来語や専門用語の多さ、カジュアルさを示す。'
-        },
-        honorific_frequency: {
-          name: '敬語の頻度',
-          value: totalSentences > 0 ? (honorificCount / totalSentences).toFixed(2) : '0.00',
-          unit: '回／文',
-          description: '丁寧・フォーマルさを示す。'
-        },
-        punctuation_per_sentence: {
-          name: '句読点の平均数',
-          value: totalSentences > 0 ? (punctuationCount / totalSentences).toFixed(2) : '0.00',
-          unit: '個／文',
-          description: '文の区切りや読みやすさに影響。'
-        }
+      // 目標範囲との比較を表示用の文字列に変換する
+      const formatTarget = (check: TargetCheck, unit: string) => {
+        const range = `${check.min ?? ''}〜${check.max ?? ''}${unit}`;
+        const label = `${check.item ? `${check.item} ` : ''}${range}`;
+        return check.status === 'within'
+          ? `${label} → ${TARGET_STATUS_LABELS[check.status]}`
+          : `${label} → ${TARGET_STATUS_LABELS[check.status]}: ${check.value.toFixed(2)}`;
       };
+      const outsideTargets = Object.values(analysisResults).flatMap(data =>
+        (data.targets || []).filter(check => check.status !== 'within').map(check => `- ${data.name}: ${formatTarget(check, data.unit)}`)
+      );
 
       // 結果をテキスト形式で整形
       const resultText = `# テキスト分析結果
@@ -439,167 +629,2862 @@ class JapaneseTextAnalyzer {
 - 文の数: ${totalSentences}
 - 総形態素数: ${totalMorphemes}
 
+## 目標範囲
+${outsideTargets.length > 0 ? `目標範囲から外れた指標:\n${outsideTargets.join('\n')}` : '目標範囲から外れた指標はありません。'}
+
 ## 詳細分析
 ${Object.entries(analysisResults).map(([key, data]) => {
   return `### ${data.name} (${data.unit})
-- 値: ${data.value}
-- 説明: ${data.description}`;
+- 値: ${formatValue(data.value)}
+- 説明: ${data.description}${(data.targets || []).map(check => `\n- 目標範囲: ${formatTarget(check, data.unit)}`).join('')}`;
 }).join('\n\n')}
+
+## 読みやすさ
+${formatReadability(readability)}
 `;
 
+      return buildToolResult(
+        resultText + formatUserTermMatches(userDictionary, userTerms),
+        {
+          source: sourceName,
+          summary: {
+            totalChars,
+            totalSentences,
+            totalMorphemes
+          },
+          metrics: analysisResults,
+          readability,
+          ...(userDictionary ? { userTerms } : {})
+        },
+        format
+      );
+    } catch (error: any) {
       return {
         content: [{ 
           type: 'text' as const, 
-          text: resultText
-        }]
+          text: `分析中にエラーが発生しました: ${error.message}`
+        }],
+        isError: true
       };
+    }
+  }
+
+  // 形態素解析の結果をトークン単位で返す処理
+  private async tokenizeTextImpl(
+    text: string,
+    options: {
+      pos?: string[];
+      posDetail?: string[];
+      excludeSymbols?: boolean;
+      excludeWhitespace?: boolean;
+      offset?: number;
+      limit?: number;
+    } = {},
+    sourceName: string = 'テキスト',
+    format: OutputFormat = 'markdown',
+    sourceMap: SourceMap = createIdentitySourceMap(text),
+    userDictionaryOptions: UserDictionaryOptions = {},
+    context: TokenizeContext = {}
+  ) {
+    try {
+      // 形態素解析器の初期化チェック
+      let tokenizer;
+      try {
+        tokenizer = await initializeTokenizer();
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text' as const, 
+            text: '形態素解析器の初期化に失敗しました。しばらく待ってから再試行してください。'
+          }],
+          isError: true
+        };
+      }
+
+      const { pos, posDetail, excludeSymbols = false, excludeWhitespace = false, offset = 0, limit = 200 } = options;
+
+      // 形態素解析を実行し、文字位置を付与
+      const userDictionary = loadUserDictionary(userDictionaryOptions);
+      const tokens = await tokenizeText(tokenizer, text, userDictionary, context);
+      const userTerms = countUserTermMatches(tokens, userDictionary);
+
+      // 指定された条件でトークンを絞り込む
+      const filtered = tokens.filter(token => {
+        if (excludeSymbols && isSymbolToken(token)) {
+          return false;
+        }
+        if (excludeWhitespace && isWhitespaceToken(token)) {
+          return false;
+        }
+        if (pos && pos.length > 0 && !pos.includes(token.pos)) {
+          return false;
+        }
+        if (posDetail && posDetail.length > 0 &&
+            ![token.pos_detail_1, token.pos_detail_2, token.pos_detail_3].some(detail => posDetail.includes(detail))) {
+          return false;
+        }
+        return true;
+      });
+
+      // ページ分割（位置は元のテキストの位置に戻す）
+      const page = filtered.slice(offset, offset + limit).map(token => ({
+        ...token,
+        start: sourceMap.toOriginal(token.start),
+        end: sourceMap.toOriginalEnd(token.end)
+      }));
+      const hasMore = offset + limit < filtered.length;
+
+      // 結果をテキスト形式で整形
+      const rows = page.map(token => {
+        const details = [token.pos_detail_1, token.pos_detail_2, token.pos_detail_3].filter(d => d !== '*').join('-') || '*';
+        const surface = token.surface_form.replace(/\n/g, '\\n').replace(/\|/g, '\\|');
+        return `| ${token.index} | ${surface} | ${token.pos} | ${details} | ${token.conjugated_type} | ${token.conjugated_form} | ${token.basic_form} | ${token.reading || '*'} | ${token.pronunciation || '*'} | ${token.start}-${token.end} |`;
+      });
+
+      const resultText = `# 形態素解析結果
+
+- 対象: ${sourceName}
+- 総トークン数: ${tokens.length}
+- 条件に一致したトークン数: ${filtered.length}
+- 表示範囲: ${page.length > 0 ? `${offset + 1}〜${offset + page.length}` : 'なし'}${hasMore ? `（続きは offset=${offset + limit} で取得できます）` : ''}
+
+| # | 表層形 | 品詞 | 品詞細分類 | 活用型 | 活用形 | 基本形 | 読み | 発音 | 位置 |
+|---|---|---|---|---|---|---|---|---|---|
+${rows.join('\n')}
+`;
+
+      return buildToolResult(
+        resultText + formatUserTermMatches(userDictionary, userTerms),
+        {
+          source: sourceName,
+          totalTokens: tokens.length,
+          matchedTokens: filtered.length,
+          offset,
+          limit,
+          hasMore,
+          nextOffset: hasMore ? offset + limit : null,
+          tokens: page,
+          ...(userDictionary ? { userTerms } : {})
+        },
+        format
+      );
     } catch (error: any) {
       return {
         content: [{ 
           type: 'text' as const, 
-          text: `分析中にエラーが発生しました: ${error.message}`
+          text: `形態素解析中にエラーが発生しました: ${error.message}`
         }],
         isError: true
       };
     }
   }
 
-  // ツールをセットアップ
-  setupTools() {
-    // ファイルの文字数を計測
-    this.server.tool(
-      'count_chars', 
-      'ファイルの文字数を計測します。絶対パスを指定してください（Windows形式 C:\\Users\\...、またはWSL/Linux形式 /c/Users/... のどちらも可）。スペースや改行を除いた実質的な文字数をカウントします。',
-      { 
-        filePath: z.string().describe('文字数をカウントするファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）')
-      },
-      async ({ filePath }) => {
-        try {
-          // ファイルパスを解決
-          const resolvedPath = resolveFilePath(filePath);
-          const fileContent = fs.readFileSync(resolvedPath, 'utf8');
-          return this.countTextCharsImpl(fileContent, `ファイル '${resolvedPath}'`);
-        } catch (error: any) {
-          return {
-            content: [{ 
-              type: 'text' as const, 
-              text: `ファイル読み込みエラー: ${error.message}`
-            }],
-            isError: true
-          };
-        }
+  // テキストを校正ルールで検査する処理
+  private async lintTextImpl(
+    text: string,
+    rules: Record<string, LintRuleSetting> = {},
+    sourceName: string = 'テキスト',
+    format: OutputFormat = 'markdown',
+    sourceMap: SourceMap = createIdentitySourceMap(text),
+    userDictionaryOptions: UserDictionaryOptions = {},
+    context: TokenizeContext = {}
+  ) {
+    try {
+      // 形態素解析器の初期化チェック
+      let tokenizer;
+      try {
+        tokenizer = await initializeTokenizer();
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text' as const, 
+            text: '形態素解析器の初期化に失敗しました。しばらく待ってから再試行してください。'
+          }],
+          isError: true
+        };
       }
-    );
 
-    // ファイルの単語数を計測
-    this.server.tool(
-      'count_words', 
-      'ファイルの単語数を計測します。絶対パスを指定してください（Windows形式 C:\\Users\\...、またはWSL/Linux形式 /c/Users/... のどちらも可）。英語ではスペースで区切られた単語をカウントし、日本語では形態素解析を使用します。',
-      { 
-        filePath: z.string().describe('単語数をカウントするファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
-        language: z.enum(['en', 'ja']).default('en').describe('ファイルの言語 (en: 英語, ja: 日本語)')
-      },
-      async ({ filePath, language }) => {
-        try {
-          // ファイルパスを解決
-          const resolvedPath = resolveFilePath(filePath);
-          const fileContent = fs.readFileSync(resolvedPath, 'utf8');
-          return await this.countTextWordsImpl(fileContent, language, `ファイル '${resolvedPath}'`);
-        } catch (error: any) {
-          return {
-            content: [{ 
-              type: 'text' as const, 
-              text: `ファイル読み込みエラー: ${error.message}`
-            }],
-            isError: true
-          };
+      // 形態素解析を実行し、校正ルールを適用
+      const userDictionary = loadUserDictionary(userDictionaryOptions);
+      const tokens = await tokenizeText(tokenizer, text, userDictionary, context);
+      const userTerms = countUserTermMatches(tokens, userDictionary);
+      const result = lintText(text, tokens, rules);
+      const { appliedRules } = result;
+
+      // 指摘と修正案の位置を元のテキストの位置に戻す
+      const diagnostics = result.diagnostics.map(d => ({
+        ...d,
+        ...toOriginalRange(sourceMap, d.start, d.end),
+        ...(d.fix ? { fix: { ...d.fix, start: sourceMap.toOriginal(d.fix.start), end: sourceMap.toOriginalEnd(d.fix.end) } } : {})
+      }));
+
+      const summary = {
+        total: diagnostics.length,
+        error: diagnostics.filter(d => d.severity === 'error').length,
+        warning: diagnostics.filter(d => d.severity === 'warning').length,
+        info: diagnostics.filter(d => d.severity === 'info').length
+      };
+
+      // 結果をテキスト形式で整形
+      const diagnosticLines = diagnostics.map(d => {
+        const lines = [`- ${d.line}行${d.column}列 [${d.severity}] ${d.message} (${d.ruleId})`];
+        if (d.suggestion) {
+          lines.push(`  - 修正案: ${d.suggestion}`);
         }
-      }
-    );
+        return lines.join('\n');
+      });
 
-    // テキストの文字数を計測
-    this.server.tool(
-      'count_clipboard_chars', 
-      'テキストの文字数を計測します。スペースや改行を除いた実質的な文字数をカウントします。',
-      { text: z.string().describe('文字数をカウントするテキスト') },
-      async ({ text }) => this.countTextCharsImpl(text)
-    );
+      const resultText = `# 校正結果
 
-    // テキストの単語数を計測
-    this.server.tool(
-      'count_clipboard_words', 
-      'テキストの単語数を計測します。英語ではスペースで区切られた単語をカウントし、日本語では形態素解析を使用します。',
-      { 
-        text: z.string().describe('単語数をカウントするテキスト'),
-        language: z.enum(['en', 'ja']).default('en').describe('テキストの言語 (en: 英語, ja: 日本語)')
-      },
-      async ({ text, language }) => await this.countTextWordsImpl(text, language)
-    );
+- 対象: ${sourceName}
+- 適用したルール: ${appliedRules.join(', ') || 'なし'}
+- 指摘数: ${summary.total}件（error: ${summary.error}, warning: ${summary.warning}, info: ${summary.info}）
 
-    // テキストの詳細分析
-    this.server.tool(
-      'analyze_text', 
-      'テキストの詳細な形態素解析と言語的特徴の分析を行います。文の複雑さ、品詞の割合、語彙の多様性などを解析します。',
-      { 
-        text: z.string().describe('分析するテキスト')
-      },
-      async ({ text }) => await this.analyzeTextImpl(text)
-    );
+## 指摘
+${diagnosticLines.length > 0 ? diagnosticLines.join('\n') : '指摘はありません。'}
+`;
 
-    // ファイルの詳細分析
-    this.server.tool(
-      'analyze_file', 
-      'ファイルの詳細な形態素解析と言語的特徴の分析を行います。文の複雑さ、品詞の割合、語彙の多様性などを解析します。',
-      { 
-        filePath: z.string().describe('分析するファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）')
-      },
-      async ({ filePath }) => {
-        try {
-          // ファイルパスを解決
-          const resolvedPath = resolveFilePath(filePath);
-          const fileContent = fs.readFileSync(resolvedPath, 'utf8');
-          return await this.analyzeTextImpl(fileContent);
-        } catch (error: any) {
-          return {
-            content: [{ 
-              type: 'text' as const, 
-              text: `ファイル読み込みエラー: ${error.message}`
-            }],
-            isError: true
-          };
-        }
-      }
-    );
+      return buildToolResult(
+        resultText + formatUserTermMatches(userDictionary, userTerms),
+        {
+          source: sourceName,
+          appliedRules,
+          summary,
+          diagnostics,
+          ...(userDictionary ? { userTerms } : {})
+        },
+        format
+      );
+    } catch (error: any) {
+      return {
+        content: [{ 
+          type: 'text' as const, 
+          text: `校正中にエラーが発生しました: ${error.message}`
+        }],
+        isError: true
+      };
+    }
   }
 
-  // サーバーを起動
-  async start() {
+  // テキストの文体（です・ます調／だ・である調）を判定する処理
+  private async checkStyleImpl(
+    text: string,
+    expectedStyle: 'auto' | 'polite' | 'plain' = 'auto',
+    sourceName: string = 'テキスト',
+    format: OutputFormat = 'markdown',
+    sourceMap: SourceMap = createIdentitySourceMap(text),
+    userDictionaryOptions: UserDictionaryOptions = {},
+    context: TokenizeContext = {}
+  ) {
     try {
-      // ツールをセットアップ
-      this.setupTools();
+      // 形態素解析器の初期化チェック
+      let tokenizer;
+      try {
+        tokenizer = await initializeTokenizer();
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text' as const, 
+            text: '形態素解析器の初期化に失敗しました。しばらく待ってから再試行してください。'
+          }],
+          isError: true
+        };
+      }
 
-      // サーバーを起動
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
+      // 形態素解析を実行し、文ごとに文体を判定
+      const userDictionary = loadUserDictionary(userDictionaryOptions);
+      const tokens = await tokenizeText(tokenizer, text, userDictionary, context);
+      const userTerms = countUserTermMatches(tokens, userDictionary);
+      const sentences = splitTokensIntoSentences(text, tokens);
+      const analysis = analyzeStyle(sentences, expectedStyle === 'auto' ? undefined : expectedStyle);
+      const baseStyle = expectedStyle === 'auto' ? analysis.dominantStyle : expectedStyle;
 
-      console.error('サーバーが起動しました。標準入出力からの要求を待機しています...');
-    } catch (error) {
-      console.error(`サーバーの起動中にエラーが発生しました: ${error.message || error}`);
-      throw error;
+      // 行・列の位置を付与
+      const withPosition = (result: typeof analysis.sentences[number]) => ({
+        ...result,
+        start: sourceMap.toOriginal(result.start),
+        end: sourceMap.toOriginalEnd(result.end),
+        ...sourceMap.locate(result.start)
+      });
+      const inconsistentSentences = analysis.inconsistentSentences.map(withPosition);
+
+      // 結果をテキスト形式で整形
+      const inconsistentLines = inconsistentSentences.map(result => {
+        return `- ${result.line}行${result.column}列 [${STYLE_LABELS[result.style]}] ${result.text}（文末: ${result.ending}）`;
+      });
+
+      let inconsistentSection: string;
+      if (analysis.counts.polite + analysis.counts.plain === 0) {
+        inconsistentSection = '敬体・常体の文がないため、文体の混在は判定できません。';
+      } else if (!baseStyle) {
+        inconsistentSection = `敬体と常体の文が同数（${analysis.counts.polite}文ずつ）のため基準の文体を決められません。文体が混在しています。敬体・常体のすべての文を挙げます：\n${inconsistentLines.join('\n')}`;
+      } else {
+        inconsistentSection = inconsistentLines.length > 0 ? inconsistentLines.join('\n') : '文体は統一されています。';
+      }
+
+      const resultText = `# 文体チェック結果
+
+- 対象: ${sourceName}
+- 文の数: ${analysis.sentences.length}
+- 多数派の文体: ${analysis.dominantStyle ? STYLE_LABELS[analysis.dominantStyle] : '判定不能'}
+- 基準とした文体: ${baseStyle ? STYLE_LABELS[baseStyle] : '判定不能'}
+- 敬体の割合（敬体・常体の文のうち）: ${analysis.politeRatio === null ? '—' : `${analysis.politeRatio.toFixed(2)}%`}
+- 内訳: ${Object.entries(analysis.counts).map(([key, count]) => `${STYLE_LABELS[key]}: ${count}文`).join(', ')}
+
+## 基準の文体と異なる文
+${inconsistentSection}
+`;
+
+      return buildToolResult(
+        resultText + formatUserTermMatches(userDictionary, userTerms),
+        {
+          source: sourceName,
+          dominantStyle: analysis.dominantStyle,
+          baseStyle,
+          politeRatio: analysis.politeRatio,
+          counts: analysis.counts,
+          inconsistentSentences,
+          sentences: analysis.sentences.map(withPosition),
+          ...(userDictionary ? { userTerms } : {})
+        },
+        format
+      );
+    } catch (error: any) {
+      return {
+        content: [{ 
+          type: 'text' as const, 
+          text: `文体の判定中にエラーが発生しました: ${error.message}`
+        }],
+        isError: true
+      };
     }
   }
-}
 
-// メイン関数
-async function main() {
-  try {
-    // サーバー起動前に形態素解析器を初期化
-    console.error('サーバー起動前に形態素解析器の初期化を開始します...');
+  // テキストの読みやすさを算出する処理
+  private async scoreReadabilityImpl(
+    text: string,
+    method: ReadabilityMethod = 'jreadability',
+    perParagraph: boolean = false,
+    sourceName: string = 'テキスト',
+    format: OutputFormat = 'markdown',
+    sourceMap: SourceMap = createIdentitySourceMap(text),
+    userDictionaryOptions: UserDictionaryOptions = {},
+    context: TokenizeContext = {}
+  ) {
     try {
-      await initializeTokenizer();
-      console.error('形態素解析器の初期化が完了しました');
-    } catch (err) {
-      console.error(`形態素解析器の初期化中にエラーが発生しましたが、サーバーは起動を続行します: ${err.message || err}`);
+      // 形態素解析器の初期化チェック
+      let tokenizer;
+      try {
+        tokenizer = await initializeTokenizer();
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text' as const, 
+            text: '形態素解析器の初期化に失敗しました。しばらく待ってから再試行してください。'
+          }],
+          isError: true
+        };
+      }
+
+      // 形態素解析を実行し、全体の読みやすさを算出
+      const userDictionary = loadUserDictionary(userDictionaryOptions);
+      const tokens = await tokenizeText(tokenizer, text, userDictionary, context);
+      const userTerms = countUserTermMatches(tokens, userDictionary);
+      const sentences = splitTokensIntoSentences(text, tokens);
+      const overall = {
+        ...computeReadability(text, tokens, sentences.length, method),
+        sentenceCount: sentences.length
+      };
+
+      // 段落ごとの読みやすさを算出
+      // 段落・形態素・文はいずれも位置の順に並んでいるため、前の段落の続きから読み進める
+      let tokenCursor = 0;
+      let sentenceCursor = 0;
+      const paragraphs = perParagraph
+        ? splitParagraphs(text).map((paragraph, index) => {
+          const paragraphTokens: PositionedToken[] = [];
+          while (tokenCursor < tokens.length && tokens[tokenCursor].start < paragraph.start) {
+            tokenCursor++;
+          }
+          for (; tokenCursor < tokens.length && tokens[tokenCursor].start < paragraph.end; tokenCursor++) {
+            if (tokens[tokenCursor].end <= paragraph.end) {
+              paragraphTokens.push(tokens[tokenCursor]);
+            }
+          }
+          let sentenceCount = 0;
+          while (sentenceCursor < sentences.length && sentences[sentenceCursor].start < paragraph.start) {
+            sentenceCursor++;
+          }
+          for (; sentenceCursor < sentences.length && sentences[sentenceCursor].start < paragraph.end; sentenceCursor++) {
+            if (sentences[sentenceCursor].end <= paragraph.end) {
+              sentenceCount++;
+            }
+          }
+          const trimmed = paragraph.text.trim();
+          return {
+            index,
+            start: sourceMap.toOriginal(paragraph.start),
+            end: sourceMap.toOriginalEnd(paragraph.end),
+            line: sourceMap.locate(paragraph.start).line,
+            excerpt: [...trimmed].length > 30 ? `${[...trimmed].slice(0, 30).join('')}…` : trimmed,
+            sentenceCount,
+            ...computeReadability(paragraph.text, paragraphTokens, sentenceCount, method)
+          };
+        })
+        : undefined;
+
+      // 結果をテキスト形式で整形
+      let resultText = `# 読みやすさの分析結果
+
+- 対象: ${sourceName}
+- 文の数: ${overall.sentenceCount}
+
+## 全体
+${formatReadability(overall)}
+`;
+
+      if (paragraphs) {
+        resultText += `
+## 段落ごと
+
+| # | 行 | 冒頭 | 文の数 | スコア | レベル |
+|---|---|---|---|---|---|
+${paragraphs.map(p => `| ${p.index + 1} | ${p.line} | ${p.excerpt.replace(/\|/g, '\\|')} | ${p.sentenceCount} | ${p.score === null ? '—' : p.score.toFixed(2)} | ${p.level ?? '—'} |`).join('\n')}
+`;
+      }
+
+      return buildToolResult(
+        resultText + formatUserTermMatches(userDictionary, userTerms),
+        {
+          source: sourceName,
+          overall,
+          ...(paragraphs ? { paragraphs } : {}),
+          ...(userDictionary ? { userTerms } : {})
+        },
+        format
+      );
+    } catch (error: any) {
+      return {
+        content: [{ 
+          type: 'text' as const, 
+          text: `読みやすさの算出中にエラーが発生しました: ${error.message}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  // テキスト中の漢字の難易度（教育漢字の学年・常用漢字・人名用漢字・JLPTの級）を分析する処理
+  private async kanjiProfileImpl(
+    text: string,
+    rareThreshold: KanjiDifficultyLevel = 'joyo',
+    sourceName: string = 'テキスト',
+    format: OutputFormat = 'markdown',
+    sourceMap: SourceMap = createIdentitySourceMap(text),
+    userDictionaryOptions: UserDictionaryOptions = {},
+    context: TokenizeContext = {}
+  ) {
+    try {
+      // 形態素解析器の初期化チェック
+      let tokenizer;
+      try {
+        tokenizer = await initializeTokenizer();
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text' as const, 
+            text: '形態素解析器の初期化に失敗しました。しばらく待ってから再試行してください。'
+          }],
+          isError: true
+        };
+      }
+
+      // 読みの候補を得るため、形態素解析の結果から漢字の位置と語を求める
+      const userDictionary = loadUserDictionary(userDictionaryOptions);
+      const tokens = await tokenizeText(tokenizer, text, userDictionary, context);
+      const userTerms = countUserTermMatches(tokens, userDictionary);
+
+      const categories: Record<KanjiCategory, number> = { kyoiku: 0, joyo: 0, jinmeiyo: 0, hyogai: 0 };
+      const uniqueCategories: Record<KanjiCategory, number> = { kyoiku: 0, joyo: 0, jinmeiyo: 0, hyogai: 0 };
+      const grades: Record<string, number> = { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0, '6': 0 };
+      const jlpt: Record<string, number> = Object.fromEntries([...JLPT_LEVELS, 'none'].map(level => [level, 0]));
+      const seen = new Set<string>();
+      const rare = new Map<string, any>();
+      let totalKanji = 0;
+
+      for (const token of tokens) {
+        let offset = token.start;
+        for (const char of token.surface_form) {
+          const position = offset++;
+          if (!isKanji(char)) {
+            continue;
+          }
+
+          const info = lookupKanji(char);
+          totalKanji++;
+          categories[info.category]++;
+          if (info.grade) {
+            grades[String(info.grade)]++;
+          }
+          jlpt[info.jlpt || 'none']++;
+          if (!seen.has(char)) {
+            seen.add(char);
+            uniqueCategories[info.category]++;
+          }
+
+          // 閾値より難しい漢字は出現位置と読みの候補を記録
+          if (compareKanjiDifficulty(info.difficulty, rareThreshold) > 0) {
+            if (!rare.has(char)) {
+              rare.set(char, { kanji: char, category: info.category, grade: info.grade, jlpt: info.jlpt, count: 0, occurrences: [] });
+            }
+            const entry = rare.get(char);
+            entry.count++;
+            entry.occurrences.push({
+              start: sourceMap.toOriginal(position),
+              end: sourceMap.toOriginalEnd(position + 1),
+              ...sourceMap.locate(position),
+              word: token.surface_form,
+              reading: token.reading && token.reading !== '*' ? katakanaToHiragana(token.reading) : null
+            });
+          }
+        }
+      }
+
+      const rareKanji = [...rare.values()].sort((a, b) => b.count - a.count);
+      const percent = (count: number) => totalKanji > 0 ? `${((count / totalKanji) * 100).toFixed(2)}%` : '0.00%';
+
+      // 結果をテキスト形式で整形
+      const rareLines = rareKanji.map(entry => {
+        const readings = [...new Set(entry.occurrences.map(o => o.reading ? `${o.word}（${o.reading}）` : o.word))].join(', ');
+        const positions = entry.occurrences.map(o => `${o.line}:${o.column}`).join(', ');
+        return `- ${entry.kanji} [${KANJI_CATEGORY_LABELS[entry.category]}${entry.jlpt ? `, ${entry.jlpt}` : ''}] ${entry.count}回 — 読みの候補: ${readings} — 位置: ${positions}`;
+      });
+
+      const resultText = `# 漢字の難易度分析結果
+
+- 対象: ${sourceName}
+- 漢字の延べ数: ${totalKanji}
+- 漢字の異なり数: ${seen.size}
+
+## 区分ごとの分布
+| 区分 | 延べ数 | 割合 | 異なり数 |
+|---|---|---|---|
+${(Object.keys(categories) as KanjiCategory[]).map(key => `| ${KANJI_CATEGORY_LABELS[key]} | ${categories[key]} | ${percent(categories[key])} | ${uniqueCategories[key]} |`).join('\n')}
+
+## 教育漢字の学年ごとの分布
+| 学年 | 延べ数 | 割合 |
+|---|---|---|
+${Object.entries(grades).map(([grade, count]) => `| ${grade}年 | ${count} | ${percent(count)} |`).join('\n')}
+
+## JLPTの級ごとの分布（推定）
+| 級 | 延べ数 | 割合 |
+|---|---|---|
+${Object.entries(jlpt).map(([level, count]) => `| ${level === 'none' ? '該当なし' : level} | ${count} | ${percent(count)} |`).join('\n')}
+
+## 稀な漢字（${KANJI_DIFFICULTY_LABELS[rareThreshold]}より難しい漢字）
+${rareLines.length > 0 ? rareLines.join('\n') : '該当する漢字はありません。'}
+`;
+
+      return buildToolResult(
+        resultText + formatUserTermMatches(userDictionary, userTerms),
+        {
+          source: sourceName,
+          totalKanji,
+          uniqueKanji: seen.size,
+          categories,
+          uniqueCategories,
+          grades,
+          jlpt,
+          rareThreshold,
+          rareKanji,
+          ...(userDictionary ? { userTerms } : {})
+        },
+        format
+      );
+    } catch (error: any) {
+      return {
+        content: [{ 
+          type: 'text' as const, 
+          text: `漢字の分析中にエラーが発生しました: ${error.message}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  // 漢字にふりがな（ルビ）を振る、またはテキストをひらがな・カタカナ・ローマ字に変換する処理
+  private async addFuriganaImpl(
+    text: string,
+    mode: FuriganaMode = 'ruby',
+    rubyFormat: RubyFormat = 'html',
+    minDifficulty: KanjiDifficultyLevel = 'grade1',
+    sourceName: string = 'テキスト',
+    format: OutputFormat = 'markdown',
+    sourceMap: SourceMap = createIdentitySourceMap(text),
+    userDictionaryOptions: UserDictionaryOptions = {},
+    context: TokenizeContext = {}
+  ) {
+    try {
+      // 形態素解析器の初期化チェック
+      let tokenizer;
+      try {
+        tokenizer = await initializeTokenizer();
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text' as const, 
+            text: '形態素解析器の初期化に失敗しました。しばらく待ってから再試行してください。'
+          }],
+          isError: true
+        };
+      }
+
+      const userDictionary = loadUserDictionary(userDictionaryOptions);
+      const tokens = await tokenizeText(tokenizer, text, userDictionary, context);
+      const userTerms = countUserTermMatches(tokens, userDictionary);
+      const furigana = addFurigana(tokens, { mode, rubyFormat, minDifficulty });
+      const { result, unknownWords } = furigana;
+      const annotations = furigana.annotations.map(annotation => ({
+        ...annotation,
+        start: sourceMap.toOriginal(annotation.start),
+        end: sourceMap.toOriginalEnd(annotation.end)
+      }));
+
+      const modeLabels: Record<FuriganaMode, string> = {
+        ruby: `ルビ（${rubyFormat}形式、${KANJI_DIFFICULTY_LABELS[minDifficulty]}以上の漢字）`,
+        hiragana: 'ひらがな',
+        katakana: 'カタカナ',
+        romaji: 'ローマ字（ヘボン式）'
+      };
+
+      // 結果をテキスト形式で整形
+      const resultText = `# ふりがな変換結果
+
+- 対象: ${sourceName}
+- 変換: ${modeLabels[mode]}
+- ${mode === 'ruby' ? 'ルビを振った箇所' : '変換した語'}: ${annotations.length}
+${unknownWords.length > 0 ? `- 読みが得られなかった語: ${unknownWords.join(', ')}\n` : ''}
+## 変換後のテキスト
+\`\`\`
+${result}
+\`\`\`
+`;
+
+      return buildToolResult(
+        resultText + formatUserTermMatches(userDictionary, userTerms),
+        {
+          source: sourceName,
+          mode,
+          rubyFormat,
+          minDifficulty,
+          result,
+          annotations,
+          unknownWords,
+          ...(userDictionary ? { userTerms } : {})
+        },
+        format
+      );
+    } catch (error: any) {
+      return {
+        content: [{ 
+          type: 'text' as const, 
+          text: `ふりがなの変換中にエラーが発生しました: ${error.message}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  // テキストを文に分割し、各文の位置を返す処理
+  private async splitSentencesImpl(
+    text: string,
+    sourceName: string = 'テキスト',
+    format: OutputFormat = 'markdown',
+    sourceMap: SourceMap = createIdentitySourceMap(text)
+  ) {
+    try {
+      const chars = [...text];
+      const sentences = splitSentences(text).map((sentence, index) => ({
+        index,
+        text: sentence.text,
+        // 位置は元のテキストの位置に戻す
+        ...toOriginalRange(sourceMap, sentence.start, sentence.end),
+        length: sentence.end - sentence.start,
+        // 閉じていない開き括弧（文の区切りの判定では括弧として扱っていない）
+        unclosedBrackets: (sentence.unclosedBrackets || []).map(position => ({
+          bracket: chars[position],
+          start: sourceMap.toOriginal(position),
+          ...sourceMap.locate(position)
+        }))
+      }));
+      const unclosedLines = sentences.flatMap(s => s.unclosedBrackets.map(b => `- ${b.line}:${b.column} \`${b.bracket}\`（${s.index + 1}番目の文）`));
+
+      // 結果をテキスト形式で整形
+      const resultText = `# 文の分割結果
+
+- 対象: ${sourceName}
+- 文の数: ${sentences.length}
+
+| # | 位置 | 文字数 | 文 |
+|---|---|---|---|
+${sentences.map(s => `| ${s.index + 1} | ${s.line}:${s.column} | ${s.length} | ${s.text.replace(/\|/g, '\\|')} |`).join('\n')}
+${unclosedLines.length > 0 ? `
+## 閉じていない括弧
+行の終わりまでに閉じていない開き括弧です。文の区切りの判定では括弧として扱っていません。
+${unclosedLines.join('\n')}
+` : ''}`;
+
+      return buildToolResult(
+        resultText,
+        {
+          source: sourceName,
+          totalSentences: sentences.length,
+          sentences
+        },
+        format
+      );
+    } catch (error: any) {
+      return {
+        content: [{ 
+          type: 'text' as const, 
+          text: `文の分割中にエラーが発生しました: ${error.message}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  // テキストを原稿用紙のマス目に配置し、枚数・行数を計算する処理
+  private manuscriptLayoutImpl(
+    text: string,
+    options: Partial<ManuscriptOptions> = {},
+    render: boolean = false,
+    maxRenderPages: number = 10,
+    sourceName: string = 'テキスト',
+    format: OutputFormat = 'markdown'
+  ) {
+    try {
+      const settings: ManuscriptOptions = { ...DEFAULT_MANUSCRIPT_OPTIONS };
+      for (const [key, value] of Object.entries(options)) {
+        if (value !== undefined) {
+          settings[key] = value;
+        }
+      }
+      const layout = layoutManuscript(text, settings);
+      const cellsPerPage = settings.columns * settings.rows;
+      const rendered = render ? renderManuscript(layout, settings, maxRenderPages) : undefined;
+
+      // 結果をテキスト形式で整形
+      let resultText = `# 原稿用紙換算の結果
+
+- 対象: ${sourceName}
+- 用紙: ${settings.columns}字×${settings.rows}行（${cellsPerPage}字詰め）
+- 枚数: ${layout.pages}枚
+- 行数: ${layout.totalLines}行
+- 最後の1枚: ${layout.lastPageLines}行（${layout.lastPageFill.toFixed(1)}%）
+- 使用したマス数: ${layout.usedCells}
+- 禁則処理: ${layout.kinsokuAdjustments}箇所（${settings.hangPunctuation ? '句読点のぶら下げ' : '追い出し'}）
+- 段落の字下げ: ${settings.indent ? 'あり' : 'なし'}
+- 空行: ${settings.keepBlankLines ? '1行として数える' : '数えない'}
+`;
+
+      if (rendered !== undefined) {
+        resultText += `
+## マス目${layout.pages > maxRenderPages ? `（最初の${maxRenderPages}枚）` : ''}
+\`\`\`
+${rendered}
+\`\`\`
+`;
+      }
+
+      return buildToolResult(
+        resultText,
+        {
+          source: sourceName,
+          columns: settings.columns,
+          rows: settings.rows,
+          cellsPerPage,
+          pages: layout.pages,
+          totalLines: layout.totalLines,
+          lastPageLines: layout.lastPageLines,
+          lastPageFill: layout.lastPageFill,
+          usedCells: layout.usedCells,
+          kinsokuAdjustments: layout.kinsokuAdjustments,
+          rendered
+        },
+        format
+      );
+    } catch (error: any) {
+      return {
+        content: [{ 
+          type: 'text' as const, 
+          text: `原稿用紙換算の計算中にエラーが発生しました: ${error.message}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  // ディレクトリ内のファイルをまとめて分析し、ファイルごとの結果とコーパス全体の集計を返す処理
+  private async analyzeDirectoryImpl(
+    directory: string,
+    options: {
+      include: string[];
+      exclude: string[];
+      encoding: FileEncoding;
+      inputFormat: InputFormat;
+      readabilityMethod: ReadabilityMethod;
+      sortBy: DirectorySortKey;
+      order: 'asc' | 'desc';
+      outlierThreshold: number;
+      maxFiles: number;
+    },
+    format: OutputFormat = 'markdown',
+    userDictionaryOptions: UserDictionaryOptions = {},
+    context: TokenizeContext = {}
+  ) {
+    try {
+      // 形態素解析器の初期化チェック
+      let tokenizer;
+      try {
+        tokenizer = await initializeTokenizer();
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text' as const, 
+            text: '形態素解析器の初期化に失敗しました。しばらく待ってから再試行してください。'
+          }],
+          isError: true
+        };
+      }
+
+      const { files, truncated } = listFiles(directory, options.include, options.exclude, options.maxFiles);
+      if (files.length === 0) {
+        return {
+          content: [{ 
+            type: 'text' as const, 
+            text: `ディレクトリ '${directory}' に対象のファイルが見つかりませんでした（include: ${options.include.join(', ')}）。`
+          }],
+          isError: true
+        };
+      }
+
+      // ファイルごとに分析（形態素解析器とユーザー辞書は共有する）
+      const userDictionary = loadUserDictionary(userDictionaryOptions);
+      const userTermLists: UserTermMatch[][] = [];
+      const results = [];
+      const errors: { path: string; message: string }[] = [];
+      const styleCounts: Record<string, number> = {};
+      // 進捗はファイル単位で通知する
+      for (const [i, file] of files.entries()) {
+        const relativePath = path.relative(directory, file).split(path.sep).join('/');
+        try {
+          const decoded = readAllowedTextFile(file, options.encoding);
+          const prepared = preprocessText(decoded.text, options.inputFormat, file);
+          const tokens = await tokenizeText(tokenizer, prepared.text, userDictionary, { signal: context.signal });
+          userTermLists.push(countUserTermMatches(tokens, userDictionary));
+          const sentences = splitTokensIntoSentences(prepared.text, tokens);
+          const chars = countCharacters(prepared.text, 'no_whitespace');
+          const readability = computeReadability(prepared.text, tokens, sentences.length, options.readabilityMethod);
+          const style = analyzeStyle(sentences);
+          for (const [key, count] of Object.entries(style.counts)) {
+            styleCounts[key] = (styleCounts[key] || 0) + count;
+          }
+          results.push({
+            path: relativePath,
+            encoding: decoded.encoding,
+            inputFormat: prepared.format,
+            chars,
+            sentences: sentences.length,
+            morphemes: tokens.length,
+            // 算出できない指標（文がない、敬体・常体の文がないなど）は null にして、統計量と外れ値の判定から除く
+            averageSentenceLength: sentences.length > 0 ? chars / sentences.length : null,
+            readabilityScore: readability.score,
+            readabilityLevel: readability.level,
+            politeRatio: style.politeRatio,
+            dominantStyle: style.dominantStyle,
+            outliers: [] as Outlier[]
+          });
+        } catch (error: any) {
+          errors.push({ path: relativePath, message: error.message });
+        }
+        throwIfCancelled(context.signal);
+        await context.onProgress?.(i + 1, files.length);
+      }
+
+      // コーパス全体の集計と外れ値の判定
+      const statistics: Record<string, MetricStatistics> = {};
+      for (const metric of Object.keys(DIRECTORY_METRIC_LABELS)) {
+        statistics[metric] = computeStatistics(results.map(result => result[metric]));
+      }
+      for (const result of results) {
+        const values = Object.fromEntries(Object.keys(DIRECTORY_METRIC_LABELS).map(metric => [metric, result[metric]]));
+        result.outliers = findOutliers(values, statistics, options.outlierThreshold);
+      }
+
+      const totalChars = results.reduce((sum, result) => sum + result.chars, 0);
+      const totalSentences = results.reduce((sum, result) => sum + result.sentences, 0);
+      const politeSentences = styleCounts['polite'] || 0;
+      const plainSentences = styleCounts['plain'] || 0;
+      const aggregate = {
+        totalFiles: results.length,
+        totalChars,
+        totalSentences,
+        totalMorphemes: results.reduce((sum, result) => sum + result.morphemes, 0),
+        averageSentenceLength: totalSentences > 0 ? totalChars / totalSentences : null,
+        politeRatio: politeSentences + plainSentences > 0 ? (politeSentences / (politeSentences + plainSentences)) * 100 : null,
+        styleCounts,
+        statistics
+      };
+
+      // 並べ替え（算出できなかった値は順序によらず最後にする）
+      const direction = options.order === 'desc' ? -1 : 1;
+      results.sort((a, b) => {
+        if (options.sortBy === 'path') {
+          return direction * a.path.localeCompare(b.path);
+        }
+        const [valueA, valueB]: (number | null)[] = [a[options.sortBy], b[options.sortBy]];
+        if (valueA === null || valueB === null) {
+          return (valueA === null ? 1 : 0) - (valueB === null ? 1 : 0);
+        }
+        return direction * (valueA - valueB);
+      });
+
+      // 結果をテキスト形式で整形（算出できなかった値は — と表示する）
+      const formatNullable = (value: number | null, unit: string = '') => value === null ? '—' : `${value.toFixed(2)}${unit}`;
+      const formatOutliers = (outliers: Outlier[]) => outliers
+        .map(outlier => `${DIRECTORY_METRIC_LABELS[outlier.metric]}（${outlier.zScore >= 0 ? '+' : ''}${outlier.zScore.toFixed(2)}σ）`)
+        .join('、');
+      const outlierFiles = results.filter(result => result.outliers.length > 0);
+
+      let resultText = `# ディレクトリ分析結果
+
+- 対象: ディレクトリ '${directory}'
+- 対象のパターン: ${options.include.join(', ')}${options.exclude.length > 0 ? `（除外: ${options.exclude.join(', ')}）` : ''}
+- 分析したファイル: ${results.length}件${errors.length > 0 ? `（失敗: ${errors.length}件）` : ''}${truncated ? `（上限の${options.maxFiles}件に達したため残りのファイルは分析していません）` : ''}
+
+## コーパス全体
+- 総文字数: ${aggregate.totalChars}文字
+- 文の総数: ${aggregate.totalSentences}
+- 総形態素数: ${aggregate.totalMorphemes}
+- 平均文長: ${aggregate.averageSentenceLength === null ? '—' : `${aggregate.averageSentenceLength.toFixed(2)}文字／文`}
+- 敬体の割合（敬体・常体の文のうち）: ${aggregate.politeRatio === null ? '—' : `${aggregate.politeRatio.toFixed(2)}%`}
+- 文体の内訳: ${Object.entries(styleCounts).map(([key, count]) => `${STYLE_LABELS[key]}: ${count}文`).join(', ')}
+
+| 指標 | 平均 | 標準偏差 | 最小 | 最大 |
+|---|---|---|---|---|
+${Object.entries(statistics).map(([metric, stats]) => stats.count === 0
+  ? `| ${DIRECTORY_METRIC_LABELS[metric]} | — | — | — | — |`
+  : `| ${DIRECTORY_METRIC_LABELS[metric]} | ${stats.mean.toFixed(2)} | ${stats.stdDev.toFixed(2)} | ${stats.min.toFixed(2)} | ${stats.max.toFixed(2)} |`).join('\n')}
+
+## ファイルごと
+
+| ファイル | 文字数 | 文の数 | 平均文長 | 読みやすさ | 敬体の割合 | 外れ値 |
+|---|---|---|---|---|---|---|
+${results.map(result => `| ${result.path.replace(/\|/g, '\\|')} | ${result.chars} | ${result.sentences} | ${formatNullable(result.averageSentenceLength)} | ${result.readabilityScore === null ? '—' : `${result.readabilityScore.toFixed(2)}（${result.readabilityLevel}）`} | ${formatNullable(result.politeRatio, '%')} | ${formatOutliers(result.outliers)} |`).join('\n')}
+
+## 外れ値（平均から標準偏差の${options.outlierThreshold}倍以上離れた指標）
+${outlierFiles.length > 0 ? outlierFiles.map(result => `- ${result.path}: ${formatOutliers(result.outliers)}`).join('\n') : '外れ値はありません。'}
+`;
+
+      if (errors.length > 0) {
+        resultText += `
+## 分析できなかったファイル
+${errors.map(error => `- ${error.path}: ${error.message}`).join('\n')}
+`;
+      }
+
+      const userTerms = mergeUserTermMatches(userTermLists);
+      resultText += formatUserTermMatches(userDictionary, userTerms);
+
+      return buildToolResult(
+        resultText,
+        {
+          source: directory,
+          include: options.include,
+          exclude: options.exclude,
+          readabilityMethod: options.readabilityMethod,
+          files: results,
+          errors,
+          truncated,
+          aggregate,
+          outlierThreshold: options.outlierThreshold,
+          ...(userDictionary ? { userTerms } : {})
+        },
+        format
+      );
+    } catch (error: any) {
+      return {
+        content: [{ 
+          type: 'text' as const, 
+          text: `ディレクトリの分析中にエラーが発生しました: ${error.message}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  // 2つのテキスト（書き換えの前後など）の指標・語彙・文の対応を比較する処理
+  private async compareTextsImpl(
+    beforeText: string,
+    afterText: string,
+    readabilityMethod: ReadabilityMethod = 'jreadability',
+    vocabularyLimit: number = 50,
+    beforeName: string = '変更前のテキスト',
+    afterName: string = '変更後のテキスト',
+    format: OutputFormat = 'markdown',
+    userDictionaryOptions: UserDictionaryOptions = {},
+    context: TokenizeContext = {}
+  ) {
+    try {
+      // 形態素解析器の初期化チェック
+      let tokenizer;
+      try {
+        tokenizer = await initializeTokenizer();
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text' as const, 
+            text: '形態素解析器の初期化に失敗しました。しばらく待ってから再試行してください。'
+          }],
+          isError: true
+        };
+      }
+
+      // 変更前後のテキストをそれぞれ分析
+      const userDictionary = loadUserDictionary(userDictionaryOptions);
+      const totalLength = beforeText.length + afterText.length;
+      const beforeTokens = await tokenizeText(tokenizer, beforeText, userDictionary, offsetProgress(context, 0, totalLength));
+      const afterTokens = await tokenizeText(tokenizer, afterText, userDictionary, offsetProgress(context, beforeText.length, totalLength));
+      const userTerms = countUserTermMatches([...beforeTokens, ...afterTokens], userDictionary);
+      const metricSettings = resolveMetricSettings(loadConfig().config);
+      const before = analyzeTextMetrics(beforeText, beforeTokens, readabilityMethod, metricSettings);
+      const after = analyzeTextMetrics(afterText, afterTokens, readabilityMethod, metricSettings);
+
+      const summary = {
+        totalChars: compareValues(before.summary.totalChars, after.summary.totalChars),
+        totalSentences: compareValues(before.summary.totalSentences, after.summary.totalSentences),
+        totalMorphemes: compareValues(before.summary.totalMorphemes, after.summary.totalMorphemes)
+      };
+      // 変更前後のどちらかに文がない場合は、スコアの変化を算出しない
+      const readabilityChange = before.readability.score !== null && after.readability.score !== null
+        ? compareValues(before.readability.score, after.readability.score)
+        : null;
+      const readability = {
+        method: readabilityMethod,
+        before: before.readability.score,
+        after: after.readability.score,
+        delta: readabilityChange?.delta ?? null,
+        percentChange: readabilityChange?.percentChange ?? null,
+        beforeLevel: before.readability.level,
+        afterLevel: after.readability.level,
+        // スコアの向きを考慮して読みやすくなったかどうか
+        improved: readabilityChange
+          ? before.readability.higherIsEasier ? readabilityChange.delta > 0 : readabilityChange.delta < 0
+          : null
+      };
+      const metrics = compareMetrics(before.metrics, after.metrics);
+      const vocabulary = diffVocabulary(beforeTokens, afterTokens, vocabularyLimit);
+
+      // 文の対応
+      const alignment = alignSentences(before.sentences, after.sentences).map(entry => ({
+        ...entry,
+        beforeText: entry.before.map(index => before.sentences[index].text),
+        afterText: entry.after.map(index => after.sentences[index].text)
+      }));
+      const alignmentCounts: Record<string, number> = { unchanged: 0, changed: 0, split: 0, merged: 0, added: 0, removed: 0 };
+      for (const entry of alignment) {
+        alignmentCounts[entry.type]++;
+      }
+
+      // 変化量・変化率を表示用の文字列に変換する
+      const signed = (value: number, digits: number = 2) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+      const formatChange = (change: MetricDelta, digits: number = 2) =>
+        `${change.before.toFixed(digits)} → ${change.after.toFixed(digits)}（${signed(change.delta, digits)}${change.percentChange !== null ? `、${signed(change.percentChange, 1)}%` : ''}）`;
+
+      const metricLines = Object.values(metrics).map(metric => {
+        if (metric.change) {
+          return `- ${metric.name}: ${formatChange(metric.change)} ${metric.unit}`;
+        }
+        // 比率の指標は変化の大きい項目から表示する
+        const items = Object.entries(metric.items)
+          .filter(([, change]) => Math.abs(change.delta) >= 0.005)
+          .sort((a, b) => Math.abs(b[1].delta) - Math.abs(a[1].delta))
+          .map(([item, change]) => `${item}: ${change.before.toFixed(2)}% → ${change.after.toFixed(2)}%（${signed(change.delta)}）`);
+        return `- ${metric.name}: ${items.length > 0 ? items.join(', ') : '変化なし'}`;
+      });
+
+      const formatWords = (changes: VocabularyChange[], showCounts: (change: VocabularyChange) => string) =>
+        changes.length > 0 ? changes.map(change => `${change.word}（${showCounts(change)}）`).join('、') : 'なし';
+
+      const quote = (texts: string[]) => texts.map(text => `「${text}」`).join('');
+      const changedAlignment = alignment.filter(entry => entry.type !== 'unchanged');
+      const alignmentLines = changedAlignment.map(entry => {
+        const label = ALIGNMENT_LABELS[entry.type];
+        if (entry.type === 'added') {
+          return `- [${label}] 後${entry.after[0] + 1}: ${quote(entry.afterText)}`;
+        }
+        if (entry.type === 'removed') {
+          return `- [${label}] 前${entry.before[0] + 1}: ${quote(entry.beforeText)}`;
+        }
+        const beforeIndexes = entry.before.map(index => index + 1).join('・');
+        const afterIndexes = entry.after.map(index => index + 1).join('・');
+        return `- [${label}] 前${beforeIndexes} → 後${afterIndexes}（類似度 ${entry.similarity.toFixed(2)}）: ${quote(entry.beforeText)} → ${quote(entry.afterText)}`;
+      });
+
+      // 結果をテキスト形式で整形
+      const resultText = `# テキスト比較結果
+
+- 変更前: ${beforeName}
+- 変更後: ${afterName}
+
+## 基本情報
+- 総文字数: ${formatChange(summary.totalChars, 0)}
+- 文の数: ${formatChange(summary.totalSentences, 0)}
+- 総形態素数: ${formatChange(summary.totalMorphemes, 0)}
+
+## 読みやすさ（${readabilityMethod === 'tateishi' ? '建石式' : 'jReadability'}）
+${readabilityChange ? `- スコア: ${formatChange(readabilityChange)}
+- レベル: ${readability.beforeLevel} → ${readability.afterLevel}
+- 判定: ${readabilityChange.delta === 0 ? '変化なし' : readability.improved ? '読みやすくなりました' : '読みにくくなりました'}` : '- スコア: 算出できません（変更前または変更後のテキストに文がありません）'}
+
+## 詳細分析の変化
+${metricLines.join('\n')}
+
+## 語彙の変化（基本形）
+- 追加された語: ${formatWords(vocabulary.added, change => `${change.after}回`)}
+- 削除された語: ${formatWords(vocabulary.removed, change => `${change.before}回`)}
+- 出現数が変わった語: ${formatWords(vocabulary.changed, change => `${change.before}→${change.after}回`)}
+
+## 文の対応
+- ${Object.entries(alignmentCounts).map(([type, count]) => `${ALIGNMENT_LABELS[type]}: ${count}`).join(', ')}
+
+${alignmentLines.length > 0 ? alignmentLines.join('\n') : 'すべての文が変更されていません。'}
+`;
+
+      return buildToolResult(
+        resultText + formatUserTermMatches(userDictionary, userTerms),
+        {
+          before: beforeName,
+          after: afterName,
+          summary,
+          readability,
+          metrics,
+          vocabulary,
+          alignment,
+          alignmentCounts,
+          ...(userDictionary ? { userTerms } : {})
+        },
+        format
+      );
+    } catch (error: any) {
+      return {
+        content: [{ 
+          type: 'text' as const, 
+          text: `テキストの比較中にエラーが発生しました: ${error.message}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  // 複合名詞のキーワード、形態素のn-gram、名詞＋助詞＋動詞のコロケーションを抽出する処理
+  private async extractKeywordsImpl(
+    text: string,
+    options: {
+      scoring: KeywordScoring;
+      limit: number;
+      ngramMin: number;
+      ngramMax: number;
+      minCount: number;
+      maxPositions: number;
+      backgroundDirectory?: string;
+    },
+    sourceName: string = 'テキスト',
+    format: OutputFormat = 'markdown',
+    sourceMap: SourceMap = createIdentitySourceMap(text),
+    userDictionaryOptions: UserDictionaryOptions = {},
+    context: TokenizeContext = {}
+  ) {
+    try {
+      // 形態素解析器の初期化チェック
+      let tokenizer;
+      try {
+        tokenizer = await initializeTokenizer();
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text' as const, 
+            text: '形態素解析器の初期化に失敗しました。しばらく待ってから再試行してください。'
+          }],
+          isError: true
+        };
+      }
+
+      // TF-IDFの背景（ディレクトリが指定された場合はそのファイルを文書とする）
+      let background: KeywordBackground;
+      let backgroundName: string;
+      if (options.backgroundDirectory) {
+        const { files } = listFiles(options.backgroundDirectory);
+        const documents: string[] = [];
+        for (const file of files) {
+          try {
+            documents.push(preprocessText(readAllowedTextFile(file).text, 'auto', file).text);
+          } catch (error) {
+            // 読み込めないファイルは背景に含めない
+          }
+        }
+        if (documents.length === 0) {
+          throw new Error(`背景のディレクトリ '${options.backgroundDirectory}' に読み込めるファイルがありません。`);
+        }
+        background = { type: 'corpus', documents };
+        backgroundName = `ディレクトリ '${options.backgroundDirectory}'（${documents.length}ファイル）`;
+      } else {
+        background = { type: 'dictionary', wordCost: createWordCostLookup(tokenizer) };
+        backgroundName = '辞書（IPADIC）の単語の生起コスト';
+      }
+
+      // 形態素解析を実行してキーワード・n-gram・コロケーションを抽出
+      const userDictionary = loadUserDictionary(userDictionaryOptions);
+      const tokens = await tokenizeText(tokenizer, text, userDictionary, context);
+      const userTerms = countUserTermMatches(tokens, userDictionary);
+      const sentences = splitTokensIntoSentences(text, tokens);
+      const urlTokenIndices = findUrlTokenIndices(text, tokens);
+      const allKeywords = extractKeywords(tokens, background, options.maxPositions, urlTokenIndices);
+      const ngrams = extractNgrams(sentences, options.ngramMin, options.ngramMax, options.minCount, options.maxPositions, urlTokenIndices);
+      const collocations = extractCollocations(tokens, options.minCount, options.maxPositions, urlTokenIndices);
+
+      // 位置は元のテキストの位置に戻す
+      const withPositions = <T extends { positions: { start: number; end: number }[] }>(entry: T) => ({
+        ...entry,
+        positions: entry.positions.map(position => toOriginalRange(sourceMap, position.start, position.end))
+      });
+      const scoreOf = (keyword: KeywordTerm) => options.scoring === 'frequency' ? keyword.count : keyword[options.scoring];
+      const keywords = allKeywords
+        .sort((a, b) => scoreOf(b) - scoreOf(a) || b.count - a.count || a.term.localeCompare(b.term))
+        .slice(0, options.limit)
+        .map(withPositions);
+      const topNgrams = ngrams.slice(0, options.limit).map(withPositions);
+      const topCollocations = collocations.slice(0, options.limit).map(withPositions);
+
+      // 結果をテキスト形式で整形
+      const formatPositions = (positions: { line: number; column: number }[]) => {
+        const shown = positions.slice(0, 3).map(position => `${position.line}:${position.column}`).join(', ');
+        return positions.length > 3 ? `${shown}, …` : shown;
+      };
+      const escape = (value: string) => value.replace(/\|/g, '\\|');
+
+      const resultText = `# キーワード抽出結果
+
+- 対象: ${sourceName}
+- 背景: ${backgroundName}
+- 並べ替え: ${KEYWORD_SCORING_LABELS[options.scoring]}
+- 複合名詞の種類: ${allKeywords.length}
+
+## キーワード（複合名詞）
+${keywords.length > 0 ? `| # | 語 | 構成 | 出現数 | FLR | TF-IDF | 位置 |
+|---|---|---|---|---|---|---|
+${keywords.map((k, i) => `| ${i + 1} | ${escape(k.term)} | ${escape(k.components.join('・'))} | ${k.count} | ${k.flr.toFixed(2)} | ${k.tfidf.toFixed(2)} | ${formatPositions(k.positions)} |`).join('\n')}` : 'キーワードはありません。'}
+
+## n-gram（${options.ngramMin === options.ngramMax ? options.ngramMin : `${options.ngramMin}〜${options.ngramMax}`}形態素、${options.minCount}回以上）
+${topNgrams.length > 0 ? `| n-gram | 出現数 | 位置 |
+|---|---|---|
+${topNgrams.map(n => `| ${escape(n.phrase)} | ${n.count} | ${formatPositions(n.positions)} |`).join('\n')}` : '該当するn-gramはありません。'}
+
+## コロケーション（名詞＋助詞＋動詞、${options.minCount}回以上）
+${topCollocations.length > 0 ? `| コロケーション | 出現数 | 位置 |
+|---|---|---|
+${topCollocations.map(c => `| ${escape(c.phrase)} | ${c.count} | ${formatPositions(c.positions)} |`).join('\n')}` : '該当するコロケーションはありません。'}
+`;
+
+      return buildToolResult(
+        resultText + formatUserTermMatches(userDictionary, userTerms),
+        {
+          source: sourceName,
+          background: backgroundName,
+          scoring: options.scoring,
+          totalTerms: allKeywords.length,
+          keywords,
+          ngrams: topNgrams,
+          collocations: topCollocations,
+          ...(userDictionary ? { userTerms } : {})
+        },
+        format
+      );
+    } catch (error: any) {
+      return {
+        content: [{ 
+          type: 'text' as const, 
+          text: `キーワードの抽出中にエラーが発生しました: ${error.message}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  // 読み・基本形が同じで表記の異なる語（表記ゆれ）を検出する処理
+  private async checkVariantsImpl(
+    text: string,
+    maxPositions: number = 20,
+    sourceName: string = 'テキスト',
+    format: OutputFormat = 'markdown',
+    sourceMap: SourceMap = createIdentitySourceMap(text),
+    userDictionaryOptions: UserDictionaryOptions = {},
+    context: TokenizeContext = {}
+  ) {
+    try {
+      // 形態素解析器の初期化チェック
+      let tokenizer;
+      try {
+        tokenizer = await initializeTokenizer();
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text' as const, 
+            text: '形態素解析器の初期化に失敗しました。しばらく待ってから再試行してください。'
+          }],
+          isError: true
+        };
+      }
+
+      // 形態素解析を実行して表記ゆれをまとめる
+      const userDictionary = loadUserDictionary(userDictionaryOptions);
+      const tokens = await tokenizeText(tokenizer, text, userDictionary, context);
+      const userTerms = countUserTermMatches(tokens, userDictionary);
+      const groups = findSpellingVariants(tokens, maxPositions).map(group => ({
+        ...group,
+        variants: group.variants.map(variant => ({
+          ...variant,
+          // 位置は元のテキストの位置に戻す
+          positions: variant.positions.map(position => toOriginalRange(sourceMap, position.start, position.end))
+        }))
+      }));
+
+      // 結果をテキスト形式で整形
+      const groupLines = groups.map(group => {
+        const variants = group.variants.map(variant => {
+          const shown = variant.positions.slice(0, 3).map(position => `${position.line}:${position.column}`).join(', ');
+          return `「${variant.spelling}」${variant.count}回（${shown}${variant.positions.length > 3 ? ', …' : ''}）`;
+        });
+        return `- [${VARIANT_KIND_LABELS[group.kind]}] ${variants.join('、')} → 「${group.dominant}」に統一`;
+      });
+
+      const resultText = `# 表記ゆれの検出結果
+
+- 対象: ${sourceName}
+- 表記ゆれ: ${groups.length}組
+
+## 表記ゆれ（統一先は最も多く使われている表記）
+${groupLines.length > 0 ? groupLines.join('\n') : '表記ゆれは見つかりませんでした。'}
+`;
+
+      return buildToolResult(
+        resultText + formatUserTermMatches(userDictionary, userTerms),
+        {
+          source: sourceName,
+          totalGroups: groups.length,
+          groups,
+          ...(userDictionary ? { userTerms } : {})
+        },
+        format
+      );
+    } catch (error: any) {
+      return {
+        content: [{ 
+          type: 'text' as const, 
+          text: `表記ゆれの検出中にエラーが発生しました: ${error.message}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  // テキストを方針に従って正規化する処理
+  private async normalizeTextImpl(
+    text: string,
+    policy: NormalizePolicy = DEFAULT_NORMALIZE_POLICY,
+    format: OutputFormat = 'markdown',
+    userDictionaryOptions: UserDictionaryOptions = {},
+    context: TokenizeContext = {}
+  ) {
+    try {
+      // 形態素解析器の初期化チェック
+      let tokenizer;
+      try {
+        tokenizer = await initializeTokenizer();
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text' as const, 
+            text: '形態素解析器の初期化に失敗しました。しばらく待ってから再試行してください。'
+          }],
+          isError: true
+        };
+      }
+
+      // ユーザー辞書の語は1語として扱い、表記を変更しない
+      const userDictionary = loadUserDictionary(userDictionaryOptions);
+      let userTerms: UserTermMatch[] = [];
+      const locate = createLineColumnLocator(text);
+      const result = await normalizeText(
+        text,
+        policy,
+        async target => {
+          const tokens = await tokenizeText(tokenizer, target, userDictionary, context);
+          userTerms = countUserTermMatches(tokens, userDictionary);
+          return tokens;
+        },
+        // 辞書に1語として登録されている表記かどうか
+        word => {
+          const tokens = applyUserDictionary(tokenizer.tokenize(word), userDictionary);
+          return tokens.length === 1 && tokens[0].word_type !== 'UNKNOWN';
+        }
+      );
+      const changes = result.changes.map(change => ({ ...change, ...locate(change.start) }));
+      const ruleCounts: Record<string, number> = {};
+      for (const change of changes) {
+        ruleCounts[change.rule] = (ruleCounts[change.rule] || 0) + 1;
+      }
+
+      // 結果をテキスト形式で整形
+      const resultText = `# テキストの正規化結果
+
+- 変更箇所: ${changes.length}
+${Object.entries(ruleCounts).map(([rule, count]) => `- ${NORMALIZE_RULE_LABELS[rule]}: ${count}箇所`).join('\n')}
+
+## 正規化後のテキスト
+\`\`\`
+${result.text}
+\`\`\`
+
+## 変更箇所
+${changes.length > 0 ? changes.map(change => `- ${change.line}行${change.column}列 [${NORMALIZE_RULE_LABELS[change.rule]}] 「${change.before}」→「${change.after}」`).join('\n') : '変更はありません。'}
+`;
+
+      return buildToolResult(
+        resultText + formatUserTermMatches(userDictionary, userTerms),
+        {
+          text: result.text,
+          policy,
+          totalChanges: changes.length,
+          ruleCounts,
+          changes,
+          ...(userDictionary ? { userTerms } : {})
+        },
+        format
+      );
+    } catch (error: any) {
+      return {
+        content: [{ 
+          type: 'text' as const, 
+          text: `テキストの正規化中にエラーが発生しました: ${error.message}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  // 固有表現（人名・地名・組織名）を抽出する処理
+  private async extractEntitiesImpl(
+    text: string,
+    options: {
+      types: EntityType[];
+      mask: boolean;
+      maskStyle: MaskStyle;
+      maxPositions: number;
+    },
+    sourceName: string = 'テキスト',
+    format: OutputFormat = 'markdown',
+    sourceMap: SourceMap = createIdentitySourceMap(text),
+    originalText: string = text,
+    userDictionaryOptions: UserDictionaryOptions = {},
+    context: TokenizeContext = {}
+  ) {
+    try {
+      // 形態素解析器の初期化チェック
+      let tokenizer;
+      try {
+        tokenizer = await initializeTokenizer();
+      } catch (error) {
+        return {
+          content: [{ 
+            type: 'text' as const, 
+            text: '形態素解析器の初期化に失敗しました。しばらく待ってから再試行してください。'
+          }],
+          isError: true
+        };
+      }
+
+      // 形態素解析を実行して固有表現をまとめる
+      const userDictionary = loadUserDictionary(userDictionaryOptions);
+      const tokens = await tokenizeText(tokenizer, text, userDictionary, context);
+      const userTerms = countUserTermMatches(tokens, userDictionary);
+      const extracted = extractEntities(tokens, options.types, findUrlTokenIndices(text, tokens));
+
+      // マスクは元のテキストのすべての出現箇所に適用する
+      const masks = options.mask ? createEntityMasks(extracted, options.maskStyle) : null;
+      const maskedText = masks
+        ? replaceRanges(originalText, extracted.flatMap(entity => entity.positions.map(position => ({
+            start: sourceMap.toOriginal(position.start),
+            end: sourceMap.toOriginalEnd(position.end),
+            replacement: masks.get(entity)
+          }))))
+        : undefined;
+
+      const entities = extracted.map(entity => ({
+        ...entity,
+        ...(masks ? { mask: masks.get(entity) } : {}),
+        // 位置は元のテキストの位置に戻す
+        positions: entity.positions.slice(0, options.maxPositions).map(position => toOriginalRange(sourceMap, position.start, position.end))
+      }));
+      const typeCounts = Object.fromEntries(options.types.map(type => [type, entities.filter(entity => entity.type === type).length]));
+      const totalMentions = entities.reduce((sum, entity) => sum + entity.count, 0);
+
+      // 結果をテキスト形式で整形
+      const rows = entities.map(entity => {
+        const shown = entity.positions.slice(0, 3).map(position => `${position.line}:${position.column}`).join(', ');
+        return `| ${entity.text} | ${ENTITY_TYPE_LABELS[entity.type]} | ${entity.reading || '*'} | ${entity.count} | ${shown}${entity.count > 3 ? ', …' : ''} |${masks ? ` ${entity.mask} |` : ''}`;
+      });
+
+      const resultText = `# 固有表現の抽出結果
+
+- 対象: ${sourceName}
+- 固有表現: ${entities.length}種類（出現数の合計: ${totalMentions}）
+- 内訳: ${options.types.map(type => `${ENTITY_TYPE_LABELS[type]}: ${typeCounts[type]}種類`).join(', ')}
+
+## 固有表現（出現数の多い順）
+${rows.length > 0 ? `| 表記 | 種類 | 読み | 出現数 | 位置（行:列） |${masks ? ' マスク |' : ''}
+|---|---|---|---|---|${masks ? '---|' : ''}
+${rows.join('\n')}` : '固有表現は見つかりませんでした。'}
+${maskedText !== undefined ? `
+## マスクしたテキスト
+
+\`\`\`
+${maskedText}
+\`\`\`
+` : ''}`;
+
+      return buildToolResult(
+        resultText + formatUserTermMatches(userDictionary, userTerms),
+        {
+          source: sourceName,
+          types: options.types,
+          totalEntities: entities.length,
+          totalMentions,
+          typeCounts,
+          entities,
+          ...(maskedText !== undefined ? { maskedText } : {}),
+          ...(userDictionary ? { userTerms } : {})
+        },
+        format
+      );
+    } catch (error: any) {
+      return {
+        content: [{ 
+          type: 'text' as const, 
+          text: `固有表現の抽出中にエラーが発生しました: ${error.message}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  // ツールをセットアップ
+  setupTools() {
+    // ファイルの文字コード
+    const encodingParam = z.enum(FILE_ENCODINGS).default('auto')
+      .describe('ファイルの文字コード (auto: BOMとバイト列から判定, utf-8, shift_jis: Shift_JIS（CP932）, euc-jp, iso-2022-jp, utf-16le, utf-16be)。BOMは取り除きます');
+
+    // 入力の形式
+    const inputFormatParam = z.enum(INPUT_FORMATS).default('auto')
+      .describe('入力の形式。Markdown・HTML・Re:VIEW・LaTeXの場合はコード・URL・タグなどを除いた本文だけを分析し、位置は元のテキストの位置で返します (auto: ファイルの拡張子から判定（テキストはplain）, plain: プレーンテキスト, markdown, html, review, latex)');
+
+    // 文字数の計数ルール
+    const countingRuleParam = z.enum(COUNTING_RULES).default('no_whitespace')
+      .describe('charCount として返す計数ルール (all: すべての文字, no_whitespace: 空白・改行を除く, no_newlines: 改行のみ除く, no_halfwidth_whitespace: 改行・半角スペースを除き全角スペースは数える, twitter: X（Twitter）の重み付き文字数, utf8_bytes: UTF-8のバイト数, shift_jis_bytes: Shift_JISのバイト数)');
+
+    // ユーザー辞書（環境変数・設定ファイルで指定した辞書に加えて使用する）
+    const userDictionaryParams = {
+      userDictionary: z.string().optional()
+        .describe('ユーザー辞書のファイルパス。MeCabのユーザー辞書形式（CSV）か、1行に1語ずつ 表記[,読み[,品詞]] を書いた語の一覧（品詞は 名詞-固有名詞-組織 のようにハイフンでつなぐ。省略時は 名詞-固有名詞-一般）'),
+      userTerms: z.array(z.string()).optional()
+        .describe('ユーザー辞書に加える語（辞書ファイルの1行と同じ書式。例: "形態素解析器,けいたいそかいせきき"）')
+    };
+
+    // ファイルの文字数を計測
+    this.server.registerTool(
+      'count_chars', 
+      {
+        description: 'ファイルの文字数を計測します。絶対パスを指定してください（Windows形式 C:\\Users\\...、またはWSL/Linux形式 /c/Users/... のどちらも可）。絵文字や結合文字は見た目の1文字として数え、すべての文字・空白改行を除く・改行のみ除く・X（Twitter）の重み付き文字数・UTF-8/Shift_JISのバイト数を並べて返します。',
+        inputSchema: { 
+          filePath: z.string().describe('文字数をカウントするファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
+          encoding: encodingParam,
+          rule: countingRuleParam,
+          inputFormat: inputFormatParam,
+          format: formatParam
+        },
+        outputSchema: charCountOutputSchema
+      },
+      async ({ filePath, encoding, inputFormat, rule, format }) => {
+        try {
+          // ファイルパスを解決
+          const resolvedPath = resolveFilePath(filePath);
+          const { text: fileContent, encoding: detectedEncoding } = readAllowedTextFile(resolvedPath, encoding);
+          // 本文を抽出（Markdown・HTMLなどは拡張子または inputFormat で判定）
+          const prepared = preprocessText(fileContent, inputFormat, resolvedPath);
+          return this.countTextCharsImpl(prepared.text, `ファイル '${resolvedPath}'（${ENCODING_LABELS[detectedEncoding]}）`, format, rule);
+        } catch (error: any) {
+          return {
+            content: [{ 
+              type: 'text' as const, 
+              text: `ファイル読み込みエラー: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // ファイルの単語数を計測
+    this.server.registerTool(
+      'count_words', 
+      {
+        description: 'ファイルの単語数を計測します。絶対パスを指定してください（Windows形式 C:\\Users\\...、またはWSL/Linux形式 /c/Users/... のどちらも可）。英語ではスペースで区切られた単語をカウントし、日本語では形態素解析を使用します。デフォルトの自動判定では、日本語と英語が混在していても文字種から区間ごとに言語を判定し、言語ごとの単語数と合計を返します。',
+        inputSchema: { 
+          filePath: z.string().describe('単語数をカウントするファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
+          encoding: encodingParam,
+          language: z.enum(WORD_COUNT_LANGUAGES).default('auto').describe('ファイルの言語 (auto: 文字種から日本語と英語の区間を判定して数える, en: 英語, ja: 日本語)'),
+          inputFormat: inputFormatParam,
+          ...userDictionaryParams,
+          format: formatParam
+        },
+        outputSchema: wordCountOutputSchema
+      },
+      async ({ filePath, encoding, inputFormat, language, format, userDictionary, userTerms }, extra) => {
+        try {
+          // ファイルパスを解決
+          const resolvedPath = resolveFilePath(filePath);
+          const { text: fileContent, encoding: detectedEncoding } = readAllowedTextFile(resolvedPath, encoding);
+          // 本文を抽出（Markdown・HTMLなどは拡張子または inputFormat で判定）
+          const prepared = preprocessText(fileContent, inputFormat, resolvedPath);
+          return await this.countTextWordsImpl(prepared.text, language, `ファイル '${resolvedPath}'（${ENCODING_LABELS[detectedEncoding]}）`, format, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+        } catch (error: any) {
+          return {
+            content: [{ 
+              type: 'text' as const, 
+              text: `ファイル読み込みエラー: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // テキストの文字数を計測
+    this.server.registerTool(
+      'count_clipboard_chars', 
+      {
+        description: 'テキストの文字数を計測します。絵文字や結合文字は見た目の1文字として数え、すべての文字・空白改行を除く・改行のみ除く・X（Twitter）の重み付き文字数・UTF-8/Shift_JISのバイト数を並べて返します。',
+        inputSchema: {
+          text: z.string().describe('文字数をカウントするテキスト'),
+          rule: countingRuleParam,
+          inputFormat: inputFormatParam,
+          format: formatParam
+        },
+        outputSchema: charCountOutputSchema
+      },
+      async ({ text, inputFormat, rule, format }) => {
+        const prepared = preprocessText(text, inputFormat);
+        return this.countTextCharsImpl(prepared.text, 'テキスト', format, rule);
+      }
+    );
+
+    // テキストの単語数を計測
+    this.server.registerTool(
+      'count_clipboard_words', 
+      {
+        description: 'テキストの単語数を計測します。英語ではスペースで区切られた単語をカウントし、日本語では形態素解析を使用します。デフォルトの自動判定では、日本語と英語が混在していても文字種から区間ごとに言語を判定し、言語ごとの単語数と合計を返します。',
+        inputSchema: { 
+          text: z.string().describe('単語数をカウントするテキスト'),
+          language: z.enum(WORD_COUNT_LANGUAGES).default('auto').describe('テキストの言語 (auto: 文字種から日本語と英語の区間を判定して数える, en: 英語, ja: 日本語)'),
+          inputFormat: inputFormatParam,
+          ...userDictionaryParams,
+          format: formatParam
+        },
+        outputSchema: wordCountOutputSchema
+      },
+      async ({ text, inputFormat, language, format, userDictionary, userTerms }, extra) => {
+        const prepared = preprocessText(text, inputFormat);
+        return await this.countTextWordsImpl(prepared.text, language, 'テキスト', format, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+      }
+    );
+
+    // 読みやすさの算出方式
+    const readabilityMethodParam = z.enum(['jreadability', 'tateishi']).default('jreadability')
+      .describe('読みやすさの算出方式 (jreadability: 語種・品詞の比率と平均文長による式, tateishi: 建石式（文字種の連続の長さと平均文長による式）)');
+
+    // テキストの詳細分析
+    this.server.registerTool(
+      'analyze_text', 
+      {
+        description: 'テキストの詳細な形態素解析と言語的特徴の分析を行います。文の複雑さ、品詞の割合、語彙の多様性などを解析します。',
+        inputSchema: { 
+          text: z.string().describe('分析するテキスト'),
+          readabilityMethod: readabilityMethodParam,
+          inputFormat: inputFormatParam,
+          ...userDictionaryParams,
+          format: formatParam
+        },
+        outputSchema: analysisOutputSchema
+      },
+      async ({ text, inputFormat, readabilityMethod, format, userDictionary, userTerms }, extra) => {
+        const prepared = preprocessText(text, inputFormat);
+        return await this.analyzeTextImpl(prepared.text, 'テキスト', format, readabilityMethod, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+      }
+    );
+
+    // ファイルの詳細分析
+    this.server.registerTool(
+      'analyze_file', 
+      {
+        description: 'ファイルの詳細な形態素解析と言語的特徴の分析を行います。文の複雑さ、品詞の割合、語彙の多様性などを解析します。',
+        inputSchema: { 
+          filePath: z.string().describe('分析するファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
+          encoding: encodingParam,
+          readabilityMethod: readabilityMethodParam,
+          inputFormat: inputFormatParam,
+          ...userDictionaryParams,
+          format: formatParam
+        },
+        outputSchema: analysisOutputSchema
+      },
+      async ({ filePath, encoding, inputFormat, readabilityMethod, format, userDictionary, userTerms }, extra) => {
+        try {
+          // ファイルパスを解決
+          const resolvedPath = resolveFilePath(filePath);
+          const { text: fileContent, encoding: detectedEncoding } = readAllowedTextFile(resolvedPath, encoding);
+          // 本文を抽出（Markdown・HTMLなどは拡張子または inputFormat で判定）
+          const prepared = preprocessText(fileContent, inputFormat, resolvedPath);
+          const result = await this.analyzeTextImpl(prepared.text, `ファイル '${resolvedPath}'（${ENCODING_LABELS[detectedEncoding]}）`, 'markdown', readabilityMethod, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+          if ('isError' in result) {
+            return result;
+          }
+          // 分析結果をリソース（analysis://file/{path}）として参照できるように保存する
+          const markdown = result.content[0].text;
+          if (this.reports.save({ path: resolvedPath, markdown, data: result.structuredContent, analyzedAt: new Date().toISOString() })) {
+            this.server.sendResourceListChanged();
+          }
+          return buildToolResult(markdown, result.structuredContent, format);
+        } catch (error: any) {
+          return {
+            content: [{ 
+              type: 'text' as const, 
+              text: `ファイル読み込みエラー: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+    // 形態素解析の結果を取得するツールの共通パラメータ
+    const tokenizeParams = {
+      pos: z.array(z.string()).optional().describe('絞り込む品詞（例: ["名詞", "動詞"]）。未指定の場合はすべての品詞'),
+      posDetail: z.array(z.string()).optional().describe('絞り込む品詞細分類（pos_detail_1〜3のいずれかに一致、例: ["固有名詞"]）'),
+      excludeSymbols: z.boolean().default(false).describe('記号（句読点・括弧など）を除外するかどうか'),
+      excludeWhitespace: z.boolean().default(false).describe('空白・改行を除外するかどうか'),
+      offset: z.number().int().min(0).default(0).describe('返却を開始するトークンの位置（絞り込み後の0始まりの番号）'),
+      limit: z.number().int().min(1).max(1000).default(200).describe('1回で返却するトークンの最大数'),
+      inputFormat: inputFormatParam,
+      ...userDictionaryParams,
+      format: formatParam
+    };
+
+    // テキストの形態素解析
+    this.server.registerTool(
+      'tokenize_text', 
+      {
+        description: 'テキストを形態素解析し、各トークンの品詞・活用型・活用形・基本形・読み・発音と文字位置（コードポイント単位）を返します。品詞による絞り込みやページ分割が可能です。',
+        inputSchema: { 
+          text: z.string().describe('形態素解析するテキスト'),
+          ...tokenizeParams
+        },
+        outputSchema: tokenizeOutputSchema
+      },
+      async ({ text, inputFormat, format, userDictionary, userTerms, ...options }, extra) => {
+        const prepared = preprocessText(text, inputFormat);
+        return await this.tokenizeTextImpl(prepared.text, options, 'テキスト', format, prepared.sourceMap, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+      }
+    );
+
+    // ファイルの形態素解析
+    this.server.registerTool(
+      'tokenize_file', 
+      {
+        description: 'ファイルを形態素解析し、各トークンの品詞・活用型・活用形・基本形・読み・発音と文字位置（コードポイント単位）を返します。品詞による絞り込みやページ分割が可能です。',
+        inputSchema: { 
+          filePath: z.string().describe('形態素解析するファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
+          encoding: encodingParam,
+          ...tokenizeParams
+        },
+        outputSchema: tokenizeOutputSchema
+      },
+      async ({ filePath, encoding, inputFormat, format, userDictionary, userTerms, ...options }, extra) => {
+        try {
+          // ファイルパスを解決
+          const resolvedPath = resolveFilePath(filePath);
+          const { text: fileContent, encoding: detectedEncoding } = readAllowedTextFile(resolvedPath, encoding);
+          // 本文を抽出（Markdown・HTMLなどは拡張子または inputFormat で判定）
+          const prepared = preprocessText(fileContent, inputFormat, resolvedPath);
+          return await this.tokenizeTextImpl(prepared.text, options, `ファイル '${resolvedPath}'（${ENCODING_LABELS[detectedEncoding]}）`, format, prepared.sourceMap, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+        } catch (error: any) {
+          return {
+            content: [{ 
+              type: 'text' as const, 
+              text: `ファイル読み込みエラー: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+    // 校正ツールの共通パラメータ
+    const ruleSetting = (options: z.ZodRawShape) => z.union([
+      z.boolean(),
+      z.object({
+        enabled: z.boolean().optional().describe('ルールを有効にするかどうか'),
+        severity: z.enum(['error', 'warning', 'info']).optional().describe('指摘の重要度'),
+        ...options
+      })
+    ]).optional();
+
+    const lintParams = {
+      rules: z.object({
+        'no-ra-nuki': ruleSetting({}),
+        'no-doubled-particle': ruleSetting({
+          particles: z.record(z.number().int().min(0)).optional().describe('対象とする助詞と一文あたりの許容回数（例: {"が": 1, "の": 2}）')
+        }),
+        'max-ten': ruleSetting({
+          max: z.number().int().min(0).optional().describe('一文あたりの読点の上限（デフォルト: 3）')
+        }),
+        'sentence-length': ruleSetting({
+          max: z.number().int().min(1).optional().describe('一文あたりの文字数の上限（デフォルト: 100）')
+        }),
+        'no-double-negative': ruleSetting({
+          window: z.number().int().min(1).optional().describe('否定表現同士の間に入る形態素数の上限（デフォルト: 5）')
+        }),
+        'no-doubled-sentence-ending': ruleSetting({
+          maxRepeat: z.number().int().min(1).optional().describe('同じ文末表現が連続してよい回数（デフォルト: 2）')
+        }),
+        'no-unclosed-bracket': ruleSetting({})
+      }).default({}).describe(`ルールごとの設定。falseで無効化、オブジェクトで重要度やパラメータを指定します（ルール: ${lintRules.map(rule => `${rule.id}=${rule.name}`).join(', ')}）`),
+      inputFormat: inputFormatParam,
+      ...userDictionaryParams,
+      format: formatParam
+    };
+
+    // テキストの校正
+    this.server.registerTool(
+      'lint_text', 
+      {
+        description: 'テキストを校正し、ら抜き言葉・二重助詞・読点の多すぎる文・長すぎる文・二重否定・同じ文末の連続・閉じていない括弧などを行・列の位置、重要度、修正案とともに報告します。',
+        inputSchema: { 
+          text: z.string().describe('校正するテキスト'),
+          ...lintParams
+        },
+        outputSchema: lintOutputSchema
+      },
+      async ({ text, inputFormat, rules, format, userDictionary, userTerms }, extra) => {
+        const prepared = preprocessText(text, inputFormat);
+        return await this.lintTextImpl(prepared.text, rules, 'テキスト', format, prepared.sourceMap, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+      }
+    );
+
+    // ファイルの校正
+    this.server.registerTool(
+      'lint_file', 
+      {
+        description: 'ファイルを校正し、ら抜き言葉・二重助詞・読点の多すぎる文・長すぎる文・二重否定・同じ文末の連続・閉じていない括弧などを行・列の位置、重要度、修正案とともに報告します。',
+        inputSchema: { 
+          filePath: z.string().describe('校正するファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
+          encoding: encodingParam,
+          ...lintParams
+        },
+        outputSchema: lintOutputSchema
+      },
+      async ({ filePath, encoding, inputFormat, rules, format, userDictionary, userTerms }, extra) => {
+        try {
+          // ファイルパスを解決
+          const resolvedPath = resolveFilePath(filePath);
+          const { text: fileContent, encoding: detectedEncoding } = readAllowedTextFile(resolvedPath, encoding);
+          // 本文を抽出（Markdown・HTMLなどは拡張子または inputFormat で判定）
+          const prepared = preprocessText(fileContent, inputFormat, resolvedPath);
+          return await this.lintTextImpl(prepared.text, rules, `ファイル '${resolvedPath}'（${ENCODING_LABELS[detectedEncoding]}）`, format, prepared.sourceMap, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+        } catch (error: any) {
+          return {
+            content: [{ 
+              type: 'text' as const, 
+              text: `ファイル読み込みエラー: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+    // 文体チェックの共通パラメータ
+    const styleParams = {
+      expectedStyle: z.enum(['auto', 'polite', 'plain']).default('auto').describe('基準とする文体 (auto: 多数派の文体, polite: 敬体（です・ます調）, plain: 常体（だ・である調）)'),
+      inputFormat: inputFormatParam,
+      ...userDictionaryParams,
+      format: formatParam
+    };
+
+    // テキストの文体チェック
+    this.server.registerTool(
+      'check_style_text', 
+      {
+        description: 'テキストの各文の文体（敬体／常体／体言止め／不明）を文末の述語から判定し、敬体の割合と、基準の文体と異なる文（です・ます調とだ・である調の混在）を報告します。',
+        inputSchema: { 
+          text: z.string().describe('文体を判定するテキスト'),
+          ...styleParams
+        },
+        outputSchema: styleOutputSchema
+      },
+      async ({ text, inputFormat, expectedStyle, format, userDictionary, userTerms }, extra) => {
+        const prepared = preprocessText(text, inputFormat);
+        return await this.checkStyleImpl(prepared.text, expectedStyle, 'テキスト', format, prepared.sourceMap, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+      }
+    );
+
+    // ファイルの文体チェック
+    this.server.registerTool(
+      'check_style_file', 
+      {
+        description: 'ファイルの各文の文体（敬体／常体／体言止め／不明）を文末の述語から判定し、敬体の割合と、基準の文体と異なる文（です・ます調とだ・である調の混在）を報告します。',
+        inputSchema: { 
+          filePath: z.string().describe('文体を判定するファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
+          encoding: encodingParam,
+          ...styleParams
+        },
+        outputSchema: styleOutputSchema
+      },
+      async ({ filePath, encoding, inputFormat, expectedStyle, format, userDictionary, userTerms }, extra) => {
+        try {
+          // ファイルパスを解決
+          const resolvedPath = resolveFilePath(filePath);
+          const { text: fileContent, encoding: detectedEncoding } = readAllowedTextFile(resolvedPath, encoding);
+          // 本文を抽出（Markdown・HTMLなどは拡張子または inputFormat で判定）
+          const prepared = preprocessText(fileContent, inputFormat, resolvedPath);
+          return await this.checkStyleImpl(prepared.text, expectedStyle, `ファイル '${resolvedPath}'（${ENCODING_LABELS[detectedEncoding]}）`, format, prepared.sourceMap, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+        } catch (error: any) {
+          return {
+            content: [{ 
+              type: 'text' as const, 
+              text: `ファイル読み込みエラー: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+    // 読みやすさの算出ツールの共通パラメータ
+    const readabilityParams = {
+      method: readabilityMethodParam,
+      perParagraph: z.boolean().default(false).describe('段落ごとにも算出するかどうか（空行、空行がない場合は改行を段落の区切りとみなします）'),
+      inputFormat: inputFormatParam,
+      ...userDictionaryParams,
+      format: formatParam
+    };
+
+    // テキストの読みやすさ
+    this.server.registerTool(
+      'score_readability_text', 
+      {
+        description: 'テキストの読みやすさをスコアとレベルで示します。平均文長・語種（漢語・和語）・品詞の比率、または文字種の連続の長さから算出し、各要素のスコアへの寄与も示します。段落ごとの算出も可能です。',
+        inputSchema: { 
+          text: z.string().describe('読みやすさを算出するテキスト'),
+          ...readabilityParams
+        },
+        outputSchema: readabilityOutputSchema
+      },
+      async ({ text, inputFormat, method, perParagraph, format, userDictionary, userTerms }, extra) => {
+        const prepared = preprocessText(text, inputFormat);
+        return await this.scoreReadabilityImpl(prepared.text, method, perParagraph, 'テキスト', format, prepared.sourceMap, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+      }
+    );
+
+    // ファイルの読みやすさ
+    this.server.registerTool(
+      'score_readability_file', 
+      {
+        description: 'ファイルの読みやすさをスコアとレベルで示します。平均文長・語種（漢語・和語）・品詞の比率、または文字種の連続の長さから算出し、各要素のスコアへの寄与も示します。段落ごとの算出も可能です。',
+        inputSchema: { 
+          filePath: z.string().describe('読みやすさを算出するファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
+          encoding: encodingParam,
+          ...readabilityParams
+        },
+        outputSchema: readabilityOutputSchema
+      },
+      async ({ filePath, encoding, inputFormat, method, perParagraph, format, userDictionary, userTerms }, extra) => {
+        try {
+          // ファイルパスを解決
+          const resolvedPath = resolveFilePath(filePath);
+          const { text: fileContent, encoding: detectedEncoding } = readAllowedTextFile(resolvedPath, encoding);
+          // 本文を抽出（Markdown・HTMLなどは拡張子または inputFormat で判定）
+          const prepared = preprocessText(fileContent, inputFormat, resolvedPath);
+          return await this.scoreReadabilityImpl(prepared.text, method, perParagraph, `ファイル '${resolvedPath}'（${ENCODING_LABELS[detectedEncoding]}）`, format, prepared.sourceMap, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+        } catch (error: any) {
+          return {
+            content: [{ 
+              type: 'text' as const, 
+              text: `ファイル読み込みエラー: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+    // 漢字の難易度分析ツールの共通パラメータ
+    const kanjiProfileParams = {
+      rareThreshold: z.enum(['grade1', 'grade2', 'grade3', 'grade4', 'grade5', 'grade6', 'joyo', 'jinmeiyo']).default('joyo')
+        .describe('この段階より難しい漢字を稀な漢字として一覧にします (grade1〜grade6: 教育漢字の学年, joyo: 常用漢字, jinmeiyo: 人名用漢字)'),
+      inputFormat: inputFormatParam,
+      ...userDictionaryParams,
+      format: formatParam
+    };
+
+    // テキストの漢字の難易度分析
+    this.server.registerTool(
+      'kanji_profile_text', 
+      {
+        description: 'テキスト中の漢字を教育漢字（学年1〜6）・常用漢字・人名用漢字・表外漢字に分類し、JLPTの級ごとの分布と、稀な漢字の出現位置・読みの候補（ふりがな用）を返します。',
+        inputSchema: { 
+          text: z.string().describe('分析するテキスト'),
+          ...kanjiProfileParams
+        },
+        outputSchema: kanjiProfileOutputSchema
+      },
+      async ({ text, inputFormat, rareThreshold, format, userDictionary, userTerms }, extra) => {
+        const prepared = preprocessText(text, inputFormat);
+        return await this.kanjiProfileImpl(prepared.text, rareThreshold, 'テキスト', format, prepared.sourceMap, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+      }
+    );
+
+    // ファイルの漢字の難易度分析
+    this.server.registerTool(
+      'kanji_profile_file', 
+      {
+        description: 'ファイル中の漢字を教育漢字（学年1〜6）・常用漢字・人名用漢字・表外漢字に分類し、JLPTの級ごとの分布と、稀な漢字の出現位置・読みの候補（ふりがな用）を返します。',
+        inputSchema: { 
+          filePath: z.string().describe('分析するファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
+          encoding: encodingParam,
+          ...kanjiProfileParams
+        },
+        outputSchema: kanjiProfileOutputSchema
+      },
+      async ({ filePath, encoding, inputFormat, rareThreshold, format, userDictionary, userTerms }, extra) => {
+        try {
+          // ファイルパスを解決
+          const resolvedPath = resolveFilePath(filePath);
+          const { text: fileContent, encoding: detectedEncoding } = readAllowedTextFile(resolvedPath, encoding);
+          // 本文を抽出（Markdown・HTMLなどは拡張子または inputFormat で判定）
+          const prepared = preprocessText(fileContent, inputFormat, resolvedPath);
+          return await this.kanjiProfileImpl(prepared.text, rareThreshold, `ファイル '${resolvedPath}'（${ENCODING_LABELS[detectedEncoding]}）`, format, prepared.sourceMap, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+        } catch (error: any) {
+          return {
+            content: [{ 
+              type: 'text' as const, 
+              text: `ファイル読み込みエラー: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // ふりがな（ルビ）の付与・読みへの変換
+    this.server.registerTool(
+      'add_furigana', 
+      {
+        description: '漢字にふりがな（ルビ）を振るか、テキストをひらがな・カタカナ・ローマ字（ヘボン式）に変換します。ルビはHTMLの<ruby>、青空文庫形式の漢字《かんじ》、{漢字|かんじ}の形式で出力でき、送り仮名を除いた漢字部分だけに振ります。指定した難しさ以上の漢字にだけルビを振ることもできます。',
+        inputSchema: { 
+          text: z.string().describe('変換するテキスト'),
+          mode: z.enum(['ruby', 'hiragana', 'katakana', 'romaji']).default('ruby')
+            .describe('変換の種類 (ruby: 漢字にルビを振る, hiragana: ひらがなに変換, katakana: カタカナに変換, romaji: ヘボン式ローマ字に変換)'),
+          rubyFormat: z.enum(['html', 'aozora', 'braces']).default('html')
+            .describe('ルビの表記形式 (html: <ruby>漢字<rt>かんじ</rt></ruby>, aozora: 漢字《かんじ》, braces: {漢字|かんじ})'),
+          minDifficulty: z.enum(['grade1', 'grade2', 'grade3', 'grade4', 'grade5', 'grade6', 'joyo', 'jinmeiyo', 'hyogai']).default('grade1')
+            .describe('この段階以上の難しさの漢字を含む部分にだけルビを振ります (grade1〜grade6: 教育漢字の学年, joyo: 常用漢字, jinmeiyo: 人名用漢字, hyogai: 表外漢字)'),
+          inputFormat: inputFormatParam,
+          ...userDictionaryParams,
+          format: formatParam
+        },
+        outputSchema: furiganaOutputSchema
+      },
+      async ({ text, inputFormat, mode, rubyFormat, minDifficulty, format, userDictionary, userTerms }, extra) => {
+        const prepared = preprocessText(text, inputFormat);
+        return await this.addFuriganaImpl(prepared.text, mode, rubyFormat, minDifficulty, 'テキスト', format, prepared.sourceMap, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+      }
+    );
+
+    // 文の分割
+    this.server.registerTool(
+      'split_sentences', 
+      {
+        description: 'テキストを文に分割し、各文の位置（コードポイント単位の開始・終了位置と行・列）を返します。「」『』（）などの括弧（入れ子を含む）の中の句点、小数点、URL、三点リーダーでは区切らず、句点のない段落は改行で区切ります。文字数・文体・読みやすさなど文単位の指標はすべてこの分割に基づいて計算されます。',
+        inputSchema: { 
+          text: z.string().describe('分割するテキスト'),
+          inputFormat: inputFormatParam,
+          format: formatParam
+        },
+        outputSchema: sentenceSplitOutputSchema
+      },
+      async ({ text, inputFormat, format }) => {
+        const prepared = preprocessText(text, inputFormat);
+        return await this.splitSentencesImpl(prepared.text, 'テキスト', format, prepared.sourceMap);
+      }
+    );
+
+    // 原稿用紙換算ツールの共通パラメータ
+    const manuscriptParams = {
+      columns: z.number().int().min(1).max(100).default(20).describe('1行のマス数'),
+      rows: z.number().int().min(1).max(100).default(20).describe('1枚の行数'),
+      indent: z.boolean().default(true).describe('段落の最初を1マス空ける（全角スペースで字下げ済みの段落はそのまま）'),
+      keepBlankLines: z.boolean().default(true).describe('空行を1行として数える'),
+      hangPunctuation: z.boolean().default(true)
+        .describe('行頭に来る句読点・閉じ括弧を前の行の枠外に書く（句読点のぶら下げ）。falseの場合は前の行の最後の文字を次の行に送る'),
+      render: z.boolean().default(false).describe('マス目をテキストで描画して返す'),
+      maxRenderPages: z.number().int().min(1).default(10).describe('描画する最大枚数'),
+      inputFormat: inputFormatParam,
+      format: formatParam
+    };
+
+    // テキストの原稿用紙換算
+    this.server.registerTool(
+      'manuscript_layout_text', 
+      {
+        description: 'テキストを原稿用紙（デフォルトは20字×20行の400字詰め）のマス目に配置し、枚数・行数・最後の1枚の埋まり具合を返します。段落の字下げ、空行、行頭の句読点・閉じ括弧の禁則処理（ぶら下げ）、行末の開き括弧の禁則処理を考慮します。',
+        inputSchema: { 
+          text: z.string().describe('原稿用紙に換算するテキスト'),
+          ...manuscriptParams
+        },
+        outputSchema: manuscriptOutputSchema
+      },
+      async ({ text, inputFormat, render, maxRenderPages, format, ...options }) => {
+        const prepared = preprocessText(text, inputFormat);
+        return this.manuscriptLayoutImpl(prepared.text, options, render, maxRenderPages, 'テキスト', format);
+      }
+    );
+
+    // ファイルの原稿用紙換算
+    this.server.registerTool(
+      'manuscript_layout_file', 
+      {
+        description: 'ファイルの内容を原稿用紙（デフォルトは20字×20行の400字詰め）のマス目に配置し、枚数・行数・最後の1枚の埋まり具合を返します。段落の字下げ、空行、行頭の句読点・閉じ括弧の禁則処理（ぶら下げ）、行末の開き括弧の禁則処理を考慮します。',
+        inputSchema: { 
+          filePath: z.string().describe('原稿用紙に換算するファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
+          encoding: encodingParam,
+          ...manuscriptParams
+        },
+        outputSchema: manuscriptOutputSchema
+      },
+      async ({ filePath, encoding, inputFormat, render, maxRenderPages, format, ...options }) => {
+        try {
+          // ファイルパスを解決
+          const resolvedPath = resolveFilePath(filePath);
+          const { text: fileContent, encoding: detectedEncoding } = readAllowedTextFile(resolvedPath, encoding);
+          // 本文を抽出（Markdown・HTMLなどは拡張子または inputFormat で判定）
+          const prepared = preprocessText(fileContent, inputFormat, resolvedPath);
+          return this.manuscriptLayoutImpl(prepared.text, options, render, maxRenderPages, `ファイル '${resolvedPath}'（${ENCODING_LABELS[detectedEncoding]}）`, format);
+        } catch (error: any) {
+          return {
+            content: [{ 
+              type: 'text' as const, 
+              text: `ファイル読み込みエラー: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+    // ディレクトリ内のファイルをまとめて分析
+    this.server.registerTool(
+      'analyze_directory',
+      {
+        description: 'ディレクトリ内のファイルをまとめて分析します。include/excludeのglobパターン（例: "**/*.md", "drafts/**"）で対象を絞り込み、ファイルごとの文字数・文の数・平均文長・読みやすさ・敬体の割合と、コーパス全体の集計を返します。コーパスの平均から外れた値を持つファイルを外れ値として示します。',
+        inputSchema: {
+          directory: z.string().describe('分析するディレクトリのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
+          include: z.array(z.string()).default(DEFAULT_INCLUDE_PATTERNS)
+            .describe('対象とするファイルのglobパターン（ディレクトリからの相対パスと照合。**, *, ?, {a,b}, [abc] に対応）'),
+          exclude: z.array(z.string()).default(DEFAULT_EXCLUDE_PATTERNS)
+            .describe('除外するファイル・ディレクトリのglobパターン'),
+          sortBy: z.enum(DIRECTORY_SORT_KEYS).default('path')
+            .describe('ファイルごとの結果の並べ替えの基準 (path: パス, chars: 文字数, sentences: 文の数, averageSentenceLength: 平均文長, readabilityScore: 読みやすさ, politeRatio: 敬体の割合)'),
+          order: z.enum(['asc', 'desc']).default('asc').describe('並べ替えの順序 (asc: 昇順, desc: 降順)'),
+          outlierThreshold: z.number().min(0).default(2)
+            .describe('外れ値とする標準得点の絶対値の下限（平均から標準偏差の何倍離れているか）'),
+          maxFiles: z.number().int().min(1).max(5000).default(1000).describe('分析するファイルの最大数'),
+          encoding: encodingParam,
+          readabilityMethod: readabilityMethodParam,
+          inputFormat: inputFormatParam,
+          ...userDictionaryParams,
+          format: formatParam
+        },
+        outputSchema: directoryAnalysisOutputSchema
+      },
+      async ({ directory, include, exclude, sortBy, order, outlierThreshold, maxFiles, encoding, readabilityMethod, inputFormat, format, userDictionary, userTerms }, extra) => {
+        try {
+          // ディレクトリのパスを解決
+          const resolvedPath = resolveFilePath(directory);
+          if (!fs.statSync(resolvedPath).isDirectory()) {
+            throw new Error(`"${resolvedPath}" はディレクトリではありません。`);
+          }
+          return await this.analyzeDirectoryImpl(
+            resolvedPath,
+            { include, exclude, encoding, inputFormat, readabilityMethod, sortBy, order, outlierThreshold, maxFiles },
+            format,
+            { path: userDictionary, terms: userTerms },
+            createTokenizeContext(extra)
+          );
+        } catch (error: any) {
+          return {
+            content: [{ 
+              type: 'text' as const, 
+              text: `ディレクトリ読み込みエラー: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // 2つのテキストの比較
+    const vocabularyLimitParam = z.number().int().min(1).max(500).default(50)
+      .describe('追加・削除・出現数が変わった語をそれぞれ何件まで返すか');
+
+    this.server.registerTool(
+      'compare_texts',
+      {
+        description: '2つのテキスト（書き換えの前後など）を比較します。analyze_text の各指標と読みやすさの変化量・変化率、追加・削除された語彙（基本形）、文の対応（変更なし・書き換え・分割・結合・追加・削除）を返します。',
+        inputSchema: {
+          before: z.string().describe('変更前のテキスト'),
+          after: z.string().describe('変更後のテキスト'),
+          readabilityMethod: readabilityMethodParam,
+          vocabularyLimit: vocabularyLimitParam,
+          inputFormat: inputFormatParam,
+          ...userDictionaryParams,
+          format: formatParam
+        },
+        outputSchema: compareOutputSchema
+      },
+      async ({ before, after, readabilityMethod, vocabularyLimit, inputFormat, format, userDictionary, userTerms }, extra) => {
+        const preparedBefore = preprocessText(before, inputFormat);
+        const preparedAfter = preprocessText(after, inputFormat);
+        return await this.compareTextsImpl(preparedBefore.text, preparedAfter.text, readabilityMethod, vocabularyLimit, '変更前のテキスト', '変更後のテキスト', format, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+      }
+    );
+
+    // 2つのファイルの比較
+    this.server.registerTool(
+      'compare_files',
+      {
+        description: '2つのファイル（原稿の改訂前後など）を比較します。analyze_file の各指標と読みやすさの変化量・変化率、追加・削除された語彙（基本形）、文の対応（変更なし・書き換え・分割・結合・追加・削除）を返します。絶対パスを指定してください（Windows形式 C:\\Users\\...、またはWSL/Linux形式 /c/Users/... のどちらも可）。',
+        inputSchema: {
+          beforePath: z.string().describe('変更前のファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
+          afterPath: z.string().describe('変更後のファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
+          encoding: encodingParam,
+          readabilityMethod: readabilityMethodParam,
+          vocabularyLimit: vocabularyLimitParam,
+          inputFormat: inputFormatParam,
+          ...userDictionaryParams,
+          format: formatParam
+        },
+        outputSchema: compareOutputSchema
+      },
+      async ({ beforePath, afterPath, encoding, readabilityMethod, vocabularyLimit, inputFormat, format, userDictionary, userTerms }, extra) => {
+        try {
+          // ファイルパスを解決
+          const resolvedBefore = resolveFilePath(beforePath);
+          const resolvedAfter = resolveFilePath(afterPath);
+          const beforeFile = readAllowedTextFile(resolvedBefore, encoding);
+          const afterFile = readAllowedTextFile(resolvedAfter, encoding);
+          // 本文を抽出（Markdown・HTMLなどは拡張子または inputFormat で判定）
+          const preparedBefore = preprocessText(beforeFile.text, inputFormat, resolvedBefore);
+          const preparedAfter = preprocessText(afterFile.text, inputFormat, resolvedAfter);
+          return await this.compareTextsImpl(
+            preparedBefore.text,
+            preparedAfter.text,
+            readabilityMethod,
+            vocabularyLimit,
+            `ファイル '${resolvedBefore}'（${ENCODING_LABELS[beforeFile.encoding]}）`,
+            `ファイル '${resolvedAfter}'（${ENCODING_LABELS[afterFile.encoding]}）`,
+            format,
+            { path: userDictionary, terms: userTerms },
+            createTokenizeContext(extra)
+          );
+        } catch (error: any) {
+          return {
+            content: [{ 
+              type: 'text' as const, 
+              text: `ファイル読み込みエラー: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // キーワード抽出の共通パラメータ
+    const keywordParams = {
+      scoring: z.enum(KEYWORD_SCORINGS).default('flr')
+        .describe('キーワードの並べ替えの基準 (frequency: 出現数, flr: 専門用語抽出（TermExtract）のFLRスコア, tfidf: 出現数×背景コーパスでの珍しさ)'),
+      limit: z.number().int().min(1).max(500).default(30).describe('キーワード・n-gram・コロケーションをそれぞれ何件まで返すか'),
+      backgroundDirectory: z.string().optional()
+        .describe('TF-IDFの背景とするディレクトリのパス。ファイルごとに文書頻度を数えます。未指定の場合は辞書（IPADIC）の単語の生起コストを背景として使います'),
+      ngramMin: z.number().int().min(1).max(10).default(2).describe('n-gramの最小の形態素数'),
+      ngramMax: z.number().int().min(1).max(10).default(3).describe('n-gramの最大の形態素数'),
+      minCount: z.number().int().min(1).default(2).describe('n-gram・コロケーションとして返す最小の出現数'),
+      maxPositions: z.number().int().min(1).max(1000).default(20).describe('1つの語・n-gram・コロケーションについて返す位置の最大数'),
+      inputFormat: inputFormatParam,
+      ...userDictionaryParams,
+      format: formatParam
+    };
+
+    // 背景のディレクトリを解決する
+    const resolveBackgroundDirectory = (directory?: string) => {
+      if (!directory) {
+        return undefined;
+      }
+      const resolvedPath = resolveFilePath(directory);
+      if (!fs.statSync(resolvedPath).isDirectory()) {
+        throw new Error(`"${resolvedPath}" はディレクトリではありません。`);
+      }
+      return resolvedPath;
+    };
+
+    // テキストのキーワード抽出
+    this.server.registerTool(
+      'extract_keywords',
+      {
+        description: 'テキストからキーワードを抽出します。連続する名詞を複合名詞（例: 形態素解析器）としてまとめ、出現数・FLRスコア（TermExtract）・TF-IDFで順位付けします。あわせて形態素のn-gramと名詞＋助詞＋動詞のコロケーション（例: 量子力学を学ぶ）を出現数と位置つきで返します。',
+        inputSchema: {
+          text: z.string().describe('キーワードを抽出するテキスト'),
+          ...keywordParams
+        },
+        outputSchema: keywordsOutputSchema
+      },
+      async ({ text, scoring, limit, backgroundDirectory, ngramMin, ngramMax, minCount, maxPositions, inputFormat, format, userDictionary, userTerms }, extra) => {
+        try {
+          const prepared = preprocessText(text, inputFormat);
+          return await this.extractKeywordsImpl(
+            prepared.text,
+            { scoring, limit, ngramMin, ngramMax: Math.max(ngramMin, ngramMax), minCount, maxPositions, backgroundDirectory: resolveBackgroundDirectory(backgroundDirectory) },
+            'テキスト',
+            format,
+            prepared.sourceMap,
+            { path: userDictionary, terms: userTerms },
+            createTokenizeContext(extra)
+          );
+        } catch (error: any) {
+          return {
+            content: [{ 
+              type: 'text' as const, 
+              text: `ディレクトリ読み込みエラー: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // ファイルのキーワード抽出
+    this.server.registerTool(
+      'extract_keywords_file',
+      {
+        description: 'ファイルからキーワードを抽出します。連続する名詞を複合名詞としてまとめ、出現数・FLRスコア（TermExtract）・TF-IDFで順位付けし、形態素のn-gramと名詞＋助詞＋動詞のコロケーションを出現数と位置つきで返します。絶対パスを指定してください（Windows形式 C:\\Users\\...、またはWSL/Linux形式 /c/Users/... のどちらも可）。',
+        inputSchema: {
+          filePath: z.string().describe('キーワードを抽出するファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
+          encoding: encodingParam,
+          ...keywordParams
+        },
+        outputSchema: keywordsOutputSchema
+      },
+      async ({ filePath, encoding, scoring, limit, backgroundDirectory, ngramMin, ngramMax, minCount, maxPositions, inputFormat, format, userDictionary, userTerms }, extra) => {
+        try {
+          // ファイルパスを解決
+          const resolvedPath = resolveFilePath(filePath);
+          const { text: fileContent, encoding: detectedEncoding } = readAllowedTextFile(resolvedPath, encoding);
+          // 本文を抽出（Markdown・HTMLなどは拡張子または inputFormat で判定）
+          const prepared = preprocessText(fileContent, inputFormat, resolvedPath);
+          return await this.extractKeywordsImpl(
+            prepared.text,
+            { scoring, limit, ngramMin, ngramMax: Math.max(ngramMin, ngramMax), minCount, maxPositions, backgroundDirectory: resolveBackgroundDirectory(backgroundDirectory) },
+            `ファイル '${resolvedPath}'（${ENCODING_LABELS[detectedEncoding]}）`,
+            format,
+            prepared.sourceMap,
+            { path: userDictionary, terms: userTerms },
+            createTokenizeContext(extra)
+          );
+        } catch (error: any) {
+          return {
+            content: [{ 
+              type: 'text' as const, 
+              text: `ファイル読み込みエラー: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // 表記ゆれの検出
+    const variantsMaxPositionsParam = z.number().int().min(1).max(1000).default(20).describe('1つの表記について返す位置の最大数');
+
+    this.server.registerTool(
+      'check_variants_text',
+      {
+        description: 'テキストの表記ゆれを検出します。読みや基本形が同じで表記の異なる語（サーバ/サーバー、行う/行なう、出来る/できる、全角・半角の英数字、半角カタカナなど）をまとめ、表記ごとの出現数と位置、統一先の候補（最も多い表記）を返します。',
+        inputSchema: {
+          text: z.string().describe('表記ゆれを検出するテキスト'),
+          maxPositions: variantsMaxPositionsParam,
+          inputFormat: inputFormatParam,
+          ...userDictionaryParams,
+          format: formatParam
+        },
+        outputSchema: variantsOutputSchema
+      },
+      async ({ text, maxPositions, inputFormat, format, userDictionary, userTerms }, extra) => {
+        const prepared = preprocessText(text, inputFormat);
+        return await this.checkVariantsImpl(prepared.text, maxPositions, 'テキスト', format, prepared.sourceMap, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+      }
+    );
+
+    this.server.registerTool(
+      'check_variants_file',
+      {
+        description: 'ファイルの表記ゆれを検出します。読みや基本形が同じで表記の異なる語をまとめ、表記ごとの出現数と位置、統一先の候補（最も多い表記）を返します。絶対パスを指定してください（Windows形式 C:\\Users\\...、またはWSL/Linux形式 /c/Users/... のどちらも可）。',
+        inputSchema: {
+          filePath: z.string().describe('表記ゆれを検出するファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
+          encoding: encodingParam,
+          maxPositions: variantsMaxPositionsParam,
+          inputFormat: inputFormatParam,
+          ...userDictionaryParams,
+          format: formatParam
+        },
+        outputSchema: variantsOutputSchema
+      },
+      async ({ filePath, encoding, maxPositions, inputFormat, format, userDictionary, userTerms }, extra) => {
+        try {
+          // ファイルパスを解決
+          const resolvedPath = resolveFilePath(filePath);
+          const { text: fileContent, encoding: detectedEncoding } = readAllowedTextFile(resolvedPath, encoding);
+          // 本文を抽出（Markdown・HTMLなどは拡張子または inputFormat で判定）
+          const prepared = preprocessText(fileContent, inputFormat, resolvedPath);
+          return await this.checkVariantsImpl(prepared.text, maxPositions, `ファイル '${resolvedPath}'（${ENCODING_LABELS[detectedEncoding]}）`, format, prepared.sourceMap, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+        } catch (error: any) {
+          return {
+            content: [{ 
+              type: 'text' as const, 
+              text: `ファイル読み込みエラー: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    // テキストの正規化
+    this.server.registerTool(
+      'normalize_text',
+      {
+        description: 'テキストを指定した方針で正規化します。Unicode正規化（NFKC）、英数字の全角・半角、半角カタカナの全角化、カタカナ語の語末の長音符、補助動詞（〜て下さい → 〜てください）・形式名詞（事 → こと）のひらがな表記を選択でき、正規化後のテキストと変更箇所を返します。',
+        inputSchema: {
+          text: z.string().describe('正規化するテキスト'),
+          nfkc: z.boolean().default(DEFAULT_NORMALIZE_POLICY.nfkc).describe('Unicode正規化（NFKC）を行うかどうか（全角英数字・記号は半角に、半角カタカナは全角になる）'),
+          alphanumeric: z.enum(['halfwidth', 'fullwidth', 'keep']).default(DEFAULT_NORMALIZE_POLICY.alphanumeric)
+            .describe('英数字の幅 (halfwidth: 半角にそろえる, fullwidth: 全角にそろえる, keep: 変更しない)'),
+          katakana: z.enum(['fullwidth', 'keep']).default(DEFAULT_NORMALIZE_POLICY.katakana)
+            .describe('半角カタカナ (fullwidth: 全角にする, keep: 変更しない)'),
+          longVowel: z.enum(['add', 'remove', 'keep']).default(DEFAULT_NORMALIZE_POLICY.longVowel)
+            .describe('カタカナ語の語末の長音符 (add: 付ける（サーバ → サーバー）, remove: 省く（サーバー → サーバ）, keep: 変更しない)。変更後の表記が辞書にある語だけを変更します'),
+          auxiliaryVerbs: z.boolean().default(DEFAULT_NORMALIZE_POLICY.auxiliaryVerbs)
+            .describe('補助動詞・補助形容詞をひらがなにするかどうか（〜て下さい → 〜てください、〜て見る → 〜てみる）'),
+          formalNouns: z.boolean().default(DEFAULT_NORMALIZE_POLICY.formalNouns)
+            .describe('形式名詞をひらがなにするかどうか（事 → こと、為 → ため、時 → とき）'),
+          ...userDictionaryParams,
+          format: formatParam
+        },
+        outputSchema: normalizeOutputSchema
+      },
+      async ({ text, nfkc, alphanumeric, katakana, longVowel, auxiliaryVerbs, formalNouns, format, userDictionary, userTerms }, extra) => {
+        return await this.normalizeTextImpl(text, { nfkc, alphanumeric, katakana, longVowel, auxiliaryVerbs, formalNouns }, format, { path: userDictionary, terms: userTerms }, createTokenizeContext(extra));
+      }
+    );
+
+    // 固有表現の抽出
+    const entityParams = {
+      types: z.array(z.enum(ENTITY_TYPES)).min(1).default(['person', 'place', 'organization'])
+        .describe('抽出する固有表現の種類 (person: 人名, place: 地名, organization: 組織名, other: その他の固有名詞（製品名・ユーザー辞書の語など）)'),
+      mask: z.boolean().default(false).describe('固有表現をマスクしたテキストを返すかどうか（共有する前の匿名化に使う）'),
+      maskStyle: z.enum(MASK_STYLES).default('circle')
+        .describe('マスクの方法 (circle: ○○ に置き換える, placeholder: [人名1] のように種類と番号に置き換える（同じ固有表現には同じ番号）)'),
+      maxPositions: z.number().int().min(1).max(1000).default(20).describe('1つの固有表現について返す位置の最大数'),
+      inputFormat: inputFormatParam,
+      ...userDictionaryParams,
+      format: formatParam
+    };
+
+    this.server.registerTool(
+      'extract_entities',
+      {
+        description: 'テキストから人名・地名・組織名などの固有表現を抽出します。連続する固有名詞（姓＋名、東京＋都＋港＋区など）を1つにまとめて種類を判定し、固有表現ごとの出現数・読み・位置を返します。mask を指定すると固有表現を ○○ や [人名1] に置き換えたテキストも返します。',
+        inputSchema: {
+          text: z.string().describe('固有表現を抽出するテキスト'),
+          ...entityParams
+        },
+        outputSchema: entitiesOutputSchema
+      },
+      async ({ text, types, mask, maskStyle, maxPositions, inputFormat, format, userDictionary, userTerms }, extra) => {
+        const prepared = preprocessText(text, inputFormat);
+        return await this.extractEntitiesImpl(
+          prepared.text,
+          { types: types as EntityType[], mask, maskStyle, maxPositions },
+          'テキスト',
+          format,
+          prepared.sourceMap,
+          text,
+          { path: userDictionary, terms: userTerms },
+          createTokenizeContext(extra)
+        );
+      }
+    );
+
+    this.server.registerTool(
+      'extract_entities_file',
+      {
+        description: 'ファイルから人名・地名・組織名などの固有表現を抽出します。絶対パスを指定してください（Windows形式 C:\\Users\\...、またはWSL/Linux形式 /c/Users/... のどちらも可）。mask を指定すると、固有表現を置き換えたファイルの内容（Markdownなどの記法を含む）も返します。',
+        inputSchema: {
+          filePath: z.string().describe('固有表現を抽出するファイルのパス（Windows形式かWSL/Linux形式の絶対パスを推奨）'),
+          encoding: encodingParam,
+          ...entityParams
+        },
+        outputSchema: entitiesOutputSchema
+      },
+      async ({ filePath, encoding, types, mask, maskStyle, maxPositions, inputFormat, format, userDictionary, userTerms }, extra) => {
+        try {
+          // ファイルパスを解決
+          const resolvedPath = resolveFilePath(filePath);
+          const { text: fileContent, encoding: detectedEncoding } = readAllowedTextFile(resolvedPath, encoding);
+          // 本文を抽出（Markdown・HTMLなどは拡張子または inputFormat で判定）
+          const prepared = preprocessText(fileContent, inputFormat, resolvedPath);
+          return await this.extractEntitiesImpl(
+            prepared.text,
+            { types: types as EntityType[], mask, maskStyle, maxPositions },
+            `ファイル '${resolvedPath}'（${ENCODING_LABELS[detectedEncoding]}）`,
+            format,
+            prepared.sourceMap,
+            fileContent,
+            { path: userDictionary, terms: userTerms },
+            createTokenizeContext(extra)
+          );
+        } catch (error: any) {
+          return {
+            content: [{ 
+              type: 'text' as const, 
+              text: `ファイル読み込みエラー: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+  }
+
+  // リソースをセットアップ
+  setupResources() {
+    this.server.registerResource(
+      'counting-rules',
+      COUNTING_RULES_URI,
+      {
+        title: '計数ルール',
+        description: '文字数の計数ルール（count_chars などの rule パラメータ）の一覧',
+        mimeType: 'text/markdown'
+      },
+      async uri => ({
+        contents: [
+          { uri: uri.href, mimeType: 'text/markdown', text: formatCountingRules() },
+          { uri: uri.href, mimeType: 'application/json', text: JSON.stringify(countingRulesData(), null, 2) }
+        ]
+      })
+    );
+
+    this.server.registerResource(
+      'metrics',
+      METRICS_URI,
+      {
+        title: '分析の指標',
+        description: 'analyze_text・analyze_file が算出する指標の定義と目標範囲（設定ファイルを反映）',
+        mimeType: 'text/markdown'
+      },
+      async uri => {
+        const settings = resolveMetricSettings(loadConfig().config);
+        return {
+          contents: [
+            { uri: uri.href, mimeType: 'text/markdown', text: formatMetricDefinitions(settings) },
+            { uri: uri.href, mimeType: 'application/json', text: JSON.stringify(metricDefinitionsData(settings), null, 2) }
+          ]
+        };
+      }
+    );
+
+    this.server.registerResource(
+      'file-report',
+      new ResourceTemplate(FILE_REPORT_URI_TEMPLATE, {
+        list: async () => ({
+          resources: this.reports.list().map(report => ({
+            uri: fileReportUri(report.path),
+            name: report.path,
+            title: `${path.basename(report.path)} の分析結果`,
+            description: `${report.analyzedAt} に analyze_file で分析した結果`,
+            mimeType: 'text/markdown'
+          }))
+        })
+      }),
+      {
+        title: 'ファイルの分析結果',
+        description: 'analyze_file で最後に分析した結果（ファイルごと）。{path} はURLエンコードしたファイルの絶対パス',
+        mimeType: 'text/markdown'
+      },
+      async (uri, variables) => {
+        const encodedPath = String(variables.path);
+        const report = this.reports.get(encodedPath);
+        if (!report) {
+          throw new Error(`"${decodeURIComponent(encodedPath)}" の分析結果はありません。先に analyze_file で分析してください`);
+        }
+        return {
+          contents: [
+            { uri: uri.href, mimeType: 'text/markdown', text: report.markdown },
+            { uri: uri.href, mimeType: 'application/json', text: JSON.stringify(report.data, null, 2) }
+          ]
+        };
+      }
+    );
+  }
+
+  // プロンプトをセットアップ
+  setupPrompts() {
+    // ツールと同じ処理の結果（Markdown）をプロンプトに埋め込む
+    const embed = (result: { content: { type: 'text'; text: string }[]; isError?: boolean }) => {
+      if (result.isError) {
+        throw new Error(result.content[0].text);
+      }
+      return result.content[0].text;
+    };
+
+    this.server.registerPrompt(
+      'rewrite_readable',
+      {
+        title: '読みやすく書き直す',
+        description: 'テキストの分析結果（目標範囲・読みやすさ）と校正の指摘を埋め込み、読みやすく書き直すよう依頼します',
+        argsSchema: {
+          text: z.string().describe('書き直すテキスト'),
+          audience: z.string().optional().describe('想定する読者（例: 小学生、一般の読者、専門家）')
+        }
+      },
+      async ({ text, audience }) => {
+        const analysis = embed(await this.analyzeTextImpl(text));
+        const lint = embed(await this.lintTextImpl(text));
+        return {
+          description: '読みやすく書き直す',
+          messages: [{
+            role: 'user' as const,
+            content: {
+              type: 'text' as const,
+              text: `次の文章を、内容を変えずに読みやすく書き直してください。${audience ? `想定する読者は「${audience}」です。` : ''}
+分析結果で目標範囲から外れた指標や校正の指摘を参考に、長すぎる文の分割、読点の整理、難しい語や漢字の言い換えを行ってください。書き直した文章だけを出力してください。
+
+## 元の文章
+
+${text}
+
+## 現在の分析結果
+
+${analysis}
+
+${lint}`
+            }
+          }]
+        };
+      }
+    );
+
+    this.server.registerPrompt(
+      'unify_polite_style',
+      {
+        title: '敬体に統一',
+        description: '文ごとの文体の判定結果を埋め込み、常体の文を敬体（です・ます）に書き換えるよう依頼します',
+        argsSchema: {
+          text: z.string().describe('文体を統一するテキスト')
+        }
+      },
+      async ({ text }) => {
+        const style = embed(await this.checkStyleImpl(text, 'polite'));
+        return {
+          description: '敬体に統一',
+          messages: [{
+            role: 'user' as const,
+            content: {
+              type: 'text' as const,
+              text: `次の文章の文体を敬体（です・ます）に統一してください。
+判定結果で敬体と異なるとされた文だけを、意味を変えずに敬体に書き換え、それ以外の文はそのまま残してください。見出しや箇条書きの体言止めは書き換える必要はありません。統一した文章だけを出力してください。
+
+## 元の文章
+
+${text}
+
+## 現在の文体の判定結果
+
+${style}`
+            }
+          }]
+        };
+      }
+    );
+
+    this.server.registerPrompt(
+      'summarize_to_length',
+      {
+        title: '要約して指定字数に収める',
+        description: '現在の文字数とキーワードを埋め込み、指定した文字数以内に要約するよう依頼します',
+        argsSchema: {
+          text: z.string().describe('要約するテキスト'),
+          maxChars: z.string().regex(/^\d+$/).describe('要約の最大文字数'),
+          rule: z.enum(COUNTING_RULES).optional().describe('文字数の計数ルール（省略時は no_whitespace: 空白・改行を除く）')
+        }
+      },
+      async ({ text, maxChars, rule }) => {
+        const countingRule: CountingRule = rule || 'no_whitespace';
+        const counts = embed(this.countTextCharsImpl(text, 'テキスト', 'markdown', countingRule));
+        const keywords = embed(await this.extractKeywordsImpl(text, {
+          scoring: 'flr',
+          limit: 10,
+          ngramMin: 2,
+          ngramMax: 3,
+          minCount: 2,
+          maxPositions: 1
+        }));
+        return {
+          description: '要約して指定字数に収める',
+          messages: [{
+            role: 'user' as const,
+            content: {
+              type: 'text' as const,
+              text: `次の文章を${maxChars}${COUNTING_RULE_INFO[countingRule].unit}以内（${COUNTING_RULE_INFO[countingRule].name}）に要約してください。
+キーワードの抽出結果の上位の語をできるだけ残し、元の文章の文体に合わせてください。要約した文章だけを出力してください。
+
+## 元の文章
+
+${text}
+
+## 現在の文字数
+
+${counts}
+
+## キーワード
+
+${keywords}`
+            }
+          }]
+        };
+      }
+    );
+  }
+
+  // MCPクライアントのルートを取得し、読み込みを許可するディレクトリに加える
+  private async refreshClientRoots() {
+    if (!this.server.server.getClientCapabilities()?.roots) {
+      return;
+    }
+    try {
+      const { roots } = await this.server.server.listRoots();
+      setClientRoots(roots.map(root => root.uri));
+      console.error(`読み込みを許可するディレクトリ: ${getAllowedRoots().join(', ')}`);
+    } catch (error) {
+      console.error(`クライアントのルートの取得に失敗しました: ${error.message || error}`);
+    }
+  }
+
+  // サーバーを起動
+  // useClientRoots: クライアントのルートを読み込みを許可するディレクトリに加えるかどうか
+  // （HTTPのクライアントのルートはサーバーとは別のマシンのパスである可能性があるため使わない）
+  async start(transport: Transport = new StdioServerTransport(), useClientRoots: boolean = true) {
+    try {
+      // ツール・リソース・プロンプトをセットアップ
+      this.setupTools();
+      this.setupResources();
+      this.setupPrompts();
+
+      // クライアントがルートに対応している場合は、接続時と変更の通知を受けたときにルートを取得する
+      if (useClientRoots) {
+        this.server.server.oninitialized = () => {
+          this.refreshClientRoots();
+        };
+        this.server.server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+          await this.refreshClientRoots();
+        });
+      }
+
+      // サーバーを起動
+      await this.server.connect(transport);
+    } catch (error) {
+      console.error(`サーバーの起動中にエラーが発生しました: ${error.message || error}`);
+      throw error;
+    }
+  }
+}
+
+// メイン関数
+async function main() {
+  const argv = process.argv.slice(2);
+  // コマンド（analyze など）を指定した場合はMCPサーバーではなくコマンドラインツールとして実行する
+  const cliArgs: CliArgs | null = parseCliArgs(argv);
+  try {
+    const transportOptions = parseTransportOptions(argv);
+
+    // 読み込みを許可するディレクトリとファイルサイズの上限（コマンドライン引数・環境変数）
+    const sandboxOptions = parseSandboxOptions(argv);
+    if (cliArgs && sandboxOptions.roots.length === 0) {
+      // コマンドラインツールでは、指定がなければカレントディレクトリとホームディレクトリの中を許可する
+      sandboxOptions.roots.push(process.cwd(), os.homedir());
+    }
+    if (!cliArgs && transportOptions.transport === 'http' && sandboxOptions.roots.length === 0) {
+      // HTTPでは複数のクライアントがサーバーのファイルを読めるため、既定のホームディレクトリを暗黙に許可しない
+      throw new Error(`--transport http では --root（または環境変数 ${ALLOWED_ROOTS_ENV}）で読み込みを許可するディレクトリを指定してください`);
+    }
+    configureSandbox(sandboxOptions);
+
+    // コマンドラインツールでは形態素解析器を必要になったときに初期化する
+    if (cliArgs) {
+      process.exitCode = await runCli(cliArgs, transport => new JapaneseTextAnalyzer().start(transport, false));
+      return;
+    }
+    console.error(`読み込みを許可するディレクトリ: ${getAllowedRoots().join(', ')}（ファイルサイズの上限: ${getMaxFileSize()}バイト）`);
+
+    // サーバー起動前に形態素解析器を初期化
+    console.error('サーバー起動前に形態素解析器の初期化を開始します...');
+    try {
+      await initializeTokenizer();
+      console.error('形態素解析器の初期化が完了しました');
+    } catch (err) {
+      console.error(`形態素解析器の初期化中にエラーが発生しましたが、サーバーは起動を続行します: ${err.message || err}`);
+    }
+
+    if (transportOptions.transport === 'http') {
+      // セッションごとにサーバーインスタンスを作成する（形態素解析器は共有）
+      const httpServer = await startHttpServer(transport => new JapaneseTextAnalyzer().start(transport, false), transportOptions);
+      const { port } = httpServer.address() as AddressInfo;
+      console.error(`サーバーが起動しました。http://${transportOptions.host}:${port}${MCP_ENDPOINT} で要求を待機しています...`);
+      return;
     }
 
     // サーバーインスタンスを作成
@@ -607,9 +3492,10 @@ async function main() {
     
     // サーバーを起動
     await server.start();
+    console.error('サーバーが起動しました。標準入出力からの要求を待機しています...');
   } catch (error) {
-    console.error(`サーバーの起動中にエラーが発生しました: ${error.message || error}`);
-    process.exit(1);
+    console.error(`${cliArgs ? 'エラーが発生しました' : 'サーバーの起動中にエラーが発生しました'}: ${error.message || error}`);
+    process.exit(cliArgs ? EXIT_ERROR : 1);
   }
 }
 
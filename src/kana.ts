@@ -0,0 +1,119 @@
+// カタカナをひらがなに変換する関数（長音記号などはそのまま残す）
+export function katakanaToHiragana(text: string): string {
+  return text.replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+}
+
+// ひらがなをカタカナに変換する関数
+export function hiraganaToKatakana(text: string): string {
+  return text.replace(/[ぁ-ゖ]/g, char => String.fromCharCode(char.charCodeAt(0) + 0x60));
+}
+
+// ヘボン式ローマ字の対応表（拗音など2文字のものを先に照合する）
+const HEPBURN_DIGRAPHS: Record<string, string> = {
+  'きゃ': 'kya', 'きゅ': 'kyu', 'きょ': 'kyo',
+  'しゃ': 'sha', 'しゅ': 'shu', 'しょ': 'sho', 'しぇ': 'she',
+  'ちゃ': 'cha', 'ちゅ': 'chu', 'ちょ': 'cho', 'ちぇ': 'che',
+  'にゃ': 'nya', 'にゅ': 'nyu', 'にょ': 'nyo',
+  'ひゃ': 'hya', 'ひゅ': 'hyu', 'ひょ': 'hyo',
+  'みゃ': 'mya', 'みゅ': 'myu', 'みょ': 'myo',
+  'りゃ': 'rya', 'りゅ': 'ryu', 'りょ': 'ryo',
+  'ぎゃ': 'gya', 'ぎゅ': 'gyu', 'ぎょ': 'gyo',
+  'じゃ': 'ja', 'じゅ': 'ju', 'じょ': 'jo', 'じぇ': 'je',
+  'ぢゃ': 'ja', 'ぢゅ': 'ju', 'ぢょ': 'jo',
+  'びゃ': 'bya', 'びゅ': 'byu', 'びょ': 'byo',
+  'ぴゃ': 'pya', 'ぴゅ': 'pyu', 'ぴょ': 'pyo',
+  'ふぁ': 'fa', 'ふぃ': 'fi', 'ふぇ': 'fe', 'ふぉ': 'fo',
+  'てぃ': 'ti', 'でぃ': 'di', 'とぅ': 'tu', 'どぅ': 'du',
+  'うぃ': 'wi', 'うぇ': 'we', 'うぉ': 'wo',
+  'ゔぁ': 'va', 'ゔぃ': 'vi', 'ゔぇ': 've', 'ゔぉ': 'vo',
+  'つぁ': 'tsa', 'つぃ': 'tsi', 'つぇ': 'tse', 'つぉ': 'tso'
+};
+
+const HEPBURN_MONOGRAPHS: Record<string, string> = {
+  'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
+  'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
+  'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so',
+  'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to',
+  'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+  'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho',
+  'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
+  'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
+  'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
+  'わ': 'wa', 'ゐ': 'i', 'ゑ': 'e', 'を': 'o', 'ん': 'n',
+  'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
+  'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
+  'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do',
+  'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+  'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
+  'ゔ': 'vu',
+  'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o',
+  'ゃ': 'ya', 'ゅ': 'yu', 'ょ': 'yo', 'ゎ': 'wa'
+};
+
+// 長音記号で伸ばした母音（マクロン付き）
+const MACRON_VOWELS: Record<string, string> = { a: 'ā', i: 'ī', u: 'ū', e: 'ē', o: 'ō' };
+
+// かなをヘボン式ローマ字に変換する関数
+// 長音記号（ー）はマクロンで表し、促音は次の子音を重ねる（ch の前は t）
+// 撥音「ん」は母音・y の前では n' と表記する
+export function kanaToRomaji(kana: string): string {
+  const text = katakanaToHiragana(kana);
+  let result = '';
+  let sokuon = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const previous = text[i - 1];
+
+    // 促音は次の音節の子音を重ねる
+    if (char === 'っ') {
+      sokuon = true;
+      continue;
+    }
+
+    // 長音記号は直前の母音にマクロンを付ける
+    if (char === 'ー') {
+      const last = result.slice(-1);
+      if (MACRON_VOWELS[last]) {
+        result = result.slice(0, -1) + MACRON_VOWELS[last];
+      }
+      continue;
+    }
+
+    let syllable = HEPBURN_DIGRAPHS[text.slice(i, i + 2)];
+    if (syllable) {
+      i++;
+    } else {
+      syllable = HEPBURN_MONOGRAPHS[char];
+    }
+
+    // かな以外の文字はそのまま出力
+    if (!syllable) {
+      if (sokuon) {
+        result += 'tsu';
+        sokuon = false;
+      }
+      result += char;
+      continue;
+    }
+
+    if (sokuon) {
+      result += syllable.startsWith('ch') ? 't' : syllable[0];
+      sokuon = false;
+    }
+
+    // 「ん」の直後が母音・yの場合は区切りを入れる
+    if (previous === 'ん' && /^[aiueoy]/.test(syllable)) {
+      result += "'";
+    }
+
+    result += syllable;
+  }
+
+  // 末尾の促音
+  if (sokuon) {
+    result += 'tsu';
+  }
+
+  return result;
+}
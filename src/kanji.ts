@@ -0,0 +1,104 @@
+import { KYOIKU_KANJI_BY_GRADE, JOYO_KANJI_OTHER, JINMEIYO_KANJI, JLPT_KANJI_BY_LEVEL } from './data/kanjiTables.js';
+
+// 漢字の区分
+// kyoiku: 教育漢字, joyo: 教育漢字以外の常用漢字, jinmeiyo: 人名用漢字, hyogai: 表外漢字
+export type KanjiCategory = 'kyoiku' | 'joyo' | 'jinmeiyo' | 'hyogai';
+
+// 区分の表示名
+export const KANJI_CATEGORY_LABELS: Record<KanjiCategory, string> = {
+  kyoiku: '教育漢字',
+  joyo: '常用漢字（教育漢字以外）',
+  jinmeiyo: '人名用漢字',
+  hyogai: '表外漢字'
+};
+
+// 難易度の段階（易しい順）
+// 学年別の教育漢字 → 常用漢字 → 人名用漢字 → 表外漢字
+export const KANJI_DIFFICULTY_LEVELS = ['grade1', 'grade2', 'grade3', 'grade4', 'grade5', 'grade6', 'joyo', 'jinmeiyo', 'hyogai'] as const;
+export type KanjiDifficultyLevel = typeof KANJI_DIFFICULTY_LEVELS[number];
+
+// 難易度の段階の表示名
+export const KANJI_DIFFICULTY_LABELS: Record<KanjiDifficultyLevel, string> = {
+  grade1: '小学1年の教育漢字',
+  grade2: '小学2年の教育漢字',
+  grade3: '小学3年の教育漢字',
+  grade4: '小学4年の教育漢字',
+  grade5: '小学5年の教育漢字',
+  grade6: '小学6年の教育漢字',
+  joyo: '常用漢字',
+  jinmeiyo: '人名用漢字',
+  hyogai: '表外漢字'
+};
+
+// JLPTの級（易しい順）
+export const JLPT_LEVELS = ['N5', 'N4', 'N3', 'N2', 'N1'] as const;
+export type JlptLevel = typeof JLPT_LEVELS[number];
+
+// 漢字の情報
+export interface KanjiInfo {
+  kanji: string;
+  category: KanjiCategory;
+  // 教育漢字の学年（1〜6）、教育漢字以外はnull
+  grade: number | null;
+  jlpt: JlptLevel | null;
+  difficulty: KanjiDifficultyLevel;
+}
+
+// 漢字表から検索用のMapを作成（初回参照時に作成）
+let kanjiTable: Map<string, { category: KanjiCategory; grade: number | null }> | null = null;
+let jlptTable: Map<string, JlptLevel> | null = null;
+
+function getKanjiTable() {
+  if (!kanjiTable) {
+    kanjiTable = new Map();
+    for (const [grade, chars] of Object.entries(KYOIKU_KANJI_BY_GRADE)) {
+      for (const char of chars) {
+        kanjiTable.set(char, { category: 'kyoiku', grade: Number(grade) });
+      }
+    }
+    for (const char of JOYO_KANJI_OTHER) {
+      kanjiTable.set(char, { category: 'joyo', grade: null });
+    }
+    for (const char of JINMEIYO_KANJI) {
+      kanjiTable.set(char, { category: 'jinmeiyo', grade: null });
+    }
+  }
+  return kanjiTable;
+}
+
+function getJlptTable() {
+  if (!jlptTable) {
+    jlptTable = new Map();
+    for (const [level, chars] of Object.entries(JLPT_KANJI_BY_LEVEL)) {
+      for (const char of chars) {
+        jlptTable.set(char, level as JlptLevel);
+      }
+    }
+  }
+  return jlptTable;
+}
+
+// 漢字かどうか（々〆〇などの記号的な文字は除く）
+export function isKanji(char: string): boolean {
+  return /^\p{Script=Han}$/u.test(char) && !'々〆〇'.includes(char);
+}
+
+// 漢字の区分・学年・JLPTの級を調べる関数
+export function lookupKanji(char: string): KanjiInfo {
+  const entry = getKanjiTable().get(char);
+  const category = entry ? entry.category : 'hyogai';
+  const grade = entry ? entry.grade : null;
+
+  return {
+    kanji: char,
+    category,
+    grade,
+    jlpt: getJlptTable().get(char) || null,
+    difficulty: grade ? KANJI_DIFFICULTY_LEVELS[grade - 1] : category as KanjiDifficultyLevel
+  };
+}
+
+// 難易度の段階を比較する関数（aがbより難しい場合に正の値）
+export function compareKanjiDifficulty(a: KanjiDifficultyLevel, b: KanjiDifficultyLevel): number {
+  return KANJI_DIFFICULTY_LEVELS.indexOf(a) - KANJI_DIFFICULTY_LEVELS.indexOf(b);
+}
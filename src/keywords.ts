@@ -0,0 +1,266 @@
+import { PositionedToken, isSymbolToken, isWhitespaceToken } from './tokens.js';
+import { Sentence } from './sentences.js';
+
+// キーワードの並べ替えの基準
+// frequency: 出現数
+// flr: 専門用語抽出（TermExtract）の FLR スコア（出現数 × 構成語の連接の多さ）
+// tfidf: 出現数 × 背景コーパスでの珍しさ
+export const KEYWORD_SCORINGS = ['frequency', 'flr', 'tfidf'] as const;
+export type KeywordScoring = typeof KEYWORD_SCORINGS[number];
+
+// 並べ替えの基準の表示名
+export const KEYWORD_SCORING_LABELS: Record<KeywordScoring, string> = {
+  frequency: '出現数',
+  flr: 'FLRスコア（TermExtract）',
+  tfidf: 'TF-IDF'
+};
+
+// テキスト中の範囲（コードポイント単位、endは含まない）
+export interface TermPosition {
+  start: number;
+  end: number;
+}
+
+// 抽出したキーワード（複合名詞）
+export interface KeywordTerm {
+  term: string;
+  // 構成する名詞（単名詞）
+  components: string[];
+  count: number;
+  flr: number;
+  tfidf: number;
+  // 背景コーパスでの文書頻度（ディレクトリを背景にした場合のみ）
+  documentFrequency?: number;
+  positions: TermPosition[];
+}
+
+// n-gram・コロケーションの出現
+export interface PhraseCount {
+  phrase: string;
+  // 構成する形態素（コロケーションは 名詞・助詞・動詞の基本形）
+  parts: string[];
+  count: number;
+  positions: TermPosition[];
+}
+
+// TF-IDF の背景
+// dictionary: 辞書（IPADIC）の単語の生起コストを珍しさとして使う
+// corpus: 指定したディレクトリのファイルを文書として文書頻度を数える
+export type KeywordBackground =
+  | { type: 'dictionary'; wordCost: (token: PositionedToken) => number | null }
+  | { type: 'corpus'; documents: string[] };
+
+// kuromojiの辞書から単語の生起コスト（出現しにくいほど大きい）を引く関数を作成する
+// token_info_dictionary は word_id の位置に left_id・right_id・word_cost を2バイトずつ格納している
+export function createWordCostLookup(tokenizer: any): (token: PositionedToken) => number | null {
+  const dictionary = tokenizer?.token_info_dictionary?.dictionary;
+  return token => {
+    if (!dictionary || token.word_type !== 'KNOWN') {
+      return null;
+    }
+    return dictionary.getShort(token.word_id + 4);
+  };
+}
+
+// 辞書にない語（未知語）の珍しさ
+const UNKNOWN_WORD_RARITY = 10;
+
+// 生起コストから珍しさへの換算（コスト1000を1とする）
+const WORD_COST_SCALE = 1000;
+
+// 複合名詞を構成できる名詞かどうか
+// 非自立（こと・もの）、代名詞、特殊（そう・よう）は構成語にしない（数は複合名詞の途中に限り残す）
+function isTermNoun(token: PositionedToken): boolean {
+  return token.pos === '名詞' && !['非自立', '代名詞', '特殊'].includes(token.pos_detail_1);
+}
+
+// 文字（かな・漢字・英字）も数字も含まない記号だけの語かどうか
+// kuromojiは辞書にない「.」「/」「://」を名詞とするため、複合名詞の端やn-gramから除く
+function isPunctuationOnly(token: PositionedToken): boolean {
+  return !/[\p{L}\p{N}]/u.test(token.surface_form);
+}
+
+// 複合名詞の先頭に置ける接頭詞（「再」「各」など）
+function isTermPrefix(token: PositionedToken): boolean {
+  return token.pos === '接頭詞' && token.pos_detail_1 === '名詞接続';
+}
+
+// 連続する名詞を複合名詞としてまとめる関数
+// 先頭の接尾・数、末尾の接頭詞・数と、両端の記号だけの語は取り除く
+// ひらがな1文字だけの語と、文字（かな・漢字・英字）を含まない語（3.14 など）は除外する
+// urlTokenIndices（findUrlTokenIndices の結果）に含まれる形態素は複合名詞に含めない
+export function extractCompoundNouns(tokens: PositionedToken[], urlTokenIndices: Set<number> = new Set()): PositionedToken[][] {
+  const compounds: PositionedToken[][] = [];
+  let current: PositionedToken[] = [];
+
+  const flush = () => {
+    let from = 0;
+    let to = current.length;
+    while (from < to && (current[from].pos_detail_1 === '接尾' || current[from].pos_detail_1 === '数' || isPunctuationOnly(current[from]))) {
+      from++;
+    }
+    while (to > from && (isTermPrefix(current[to - 1]) || current[to - 1].pos_detail_1 === '数' || isPunctuationOnly(current[to - 1]))) {
+      to--;
+    }
+    const compound = current.slice(from, to);
+    current = [];
+    if (compound.length === 0 || isSymbolToken(compound[0])) {
+      return;
+    }
+    const term = compound.map(token => token.surface_form).join('');
+    if (/^[ぁ-ゖ]$/.test(term) || !/\p{L}/u.test(term)) {
+      return;
+    }
+    compounds.push(compound);
+  };
+
+  for (const token of tokens) {
+    if (urlTokenIndices.has(token.index)) {
+      flush();
+    } else if (isTermNoun(token) || (isTermPrefix(token) && current.every(isTermPrefix))) {
+      current.push(token);
+    } else {
+      flush();
+    }
+  }
+  flush();
+
+  return compounds;
+}
+
+// 複合名詞を抽出し、出現数・FLR・TF-IDFのスコアを付けて返す関数
+export function extractKeywords(
+  tokens: PositionedToken[],
+  background: KeywordBackground,
+  maxPositions: number = 20,
+  urlTokenIndices: Set<number> = new Set()
+): KeywordTerm[] {
+  const compounds = extractCompoundNouns(tokens, urlTokenIndices);
+  const terms = new Map<string, { components: string[]; tokens: PositionedToken[]; positions: TermPosition[] }>();
+
+  // 単名詞ごとの左右の連接の頻度（TermExtractの「連接語の延べ数」）
+  const left = new Map<string, number>();
+  const right = new Map<string, number>();
+  const increment = (map: Map<string, number>, key: string) => map.set(key, (map.get(key) || 0) + 1);
+
+  for (const compound of compounds) {
+    const components = compound.map(token => token.surface_form);
+    const term = components.join('');
+    const entry = terms.get(term) || { components, tokens: compound, positions: [] };
+    entry.positions.push({ start: compound[0].start, end: compound[compound.length - 1].end });
+    terms.set(term, entry);
+    for (let i = 0; i < components.length - 1; i++) {
+      increment(right, components[i]);
+      increment(left, components[i + 1]);
+    }
+  }
+
+  // 背景コーパスでの珍しさ
+  const rarity = (term: string, termTokens: PositionedToken[]): { idf: number; documentFrequency?: number } => {
+    if (background.type === 'corpus') {
+      const documentFrequency = background.documents.filter(document => document.includes(term)).length;
+      return { idf: Math.log((background.documents.length + 1) / (documentFrequency + 1)) + 1, documentFrequency };
+    }
+    const costs = termTokens.map(token => {
+      const cost = background.wordCost(token);
+      return cost === null ? UNKNOWN_WORD_RARITY : Math.max(cost, 0) / WORD_COST_SCALE;
+    });
+    return { idf: costs.reduce((sum, cost) => sum + cost, 0) / costs.length };
+  };
+
+  return [...terms.entries()].map(([term, entry]) => {
+    const count = entry.positions.length;
+    // LR = (Π (L(w)+1)(R(w)+1))^(1/2n)
+    const product = entry.components.reduce((value, component) => value * ((left.get(component) || 0) + 1) * ((right.get(component) || 0) + 1), 1);
+    const lr = Math.pow(product, 1 / (2 * entry.components.length));
+    const { idf, documentFrequency } = rarity(term, entry.tokens);
+    return {
+      term,
+      components: entry.components,
+      count,
+      flr: count * lr,
+      tfidf: count * idf,
+      ...(documentFrequency !== undefined ? { documentFrequency } : {}),
+      positions: entry.positions.slice(0, maxPositions)
+    };
+  });
+}
+
+// 出現を集計する
+function collectPhrases(
+  occurrences: { parts: string[]; phrase: string; start: number; end: number }[],
+  minCount: number,
+  maxPositions: number
+): PhraseCount[] {
+  const phrases = new Map<string, PhraseCount>();
+  for (const occurrence of occurrences) {
+    const entry = phrases.get(occurrence.phrase) || { phrase: occurrence.phrase, parts: occurrence.parts, count: 0, positions: [] };
+    entry.count++;
+    if (entry.positions.length < maxPositions) {
+      entry.positions.push({ start: occurrence.start, end: occurrence.end });
+    }
+    phrases.set(occurrence.phrase, entry);
+  }
+  return [...phrases.values()]
+    .filter(entry => entry.count >= minCount)
+    .sort((a, b) => b.count - a.count || a.phrase.localeCompare(b.phrase));
+}
+
+// 形態素のn-gram（文をまたがず、記号・空白・URLを含まないもの）を数える関数
+export function extractNgrams(
+  sentences: Sentence[],
+  minSize: number = 2,
+  maxSize: number = 3,
+  minCount: number = 2,
+  maxPositions: number = 20,
+  urlTokenIndices: Set<number> = new Set()
+): PhraseCount[] {
+  const occurrences = [];
+  for (const sentence of sentences) {
+    const tokens = sentence.tokens;
+    for (let size = minSize; size <= maxSize; size++) {
+      for (let i = 0; i + size <= tokens.length; i++) {
+        const window = tokens.slice(i, i + size);
+        if (window.some(token => isSymbolToken(token) || isWhitespaceToken(token) || isPunctuationOnly(token) || urlTokenIndices.has(token.index))) {
+          continue;
+        }
+        const parts = window.map(token => token.surface_form);
+        occurrences.push({ parts, phrase: parts.join(' '), start: window[0].start, end: window[size - 1].end });
+      }
+    }
+  }
+  return collectPhrases(occurrences, minCount, maxPositions);
+}
+
+// 名詞＋助詞＋動詞のコロケーション（「量子力学を学ぶ」など）を数える関数
+// 名詞は複合名詞としてまとめ、動詞は基本形で数える
+export function extractCollocations(
+  tokens: PositionedToken[],
+  minCount: number = 1,
+  maxPositions: number = 20,
+  urlTokenIndices: Set<number> = new Set()
+): PhraseCount[] {
+  const compoundEnds = new Map<number, PositionedToken[]>();
+  for (const compound of extractCompoundNouns(tokens, urlTokenIndices)) {
+    compoundEnds.set(compound[compound.length - 1].index, compound);
+  }
+
+  const occurrences = [];
+  for (let i = 0; i + 2 < tokens.length; i++) {
+    const compound = compoundEnds.get(tokens[i].index);
+    const particle = tokens[i + 1];
+    const verb = tokens[i + 2];
+    if (!compound || particle.pos !== '助詞' || !['格助詞', '係助詞'].includes(particle.pos_detail_1) || verb.pos !== '動詞') {
+      continue;
+    }
+    const noun = compound.map(token => token.surface_form).join('');
+    const verbForm = verb.basic_form && verb.basic_form !== '*' ? verb.basic_form : verb.surface_form;
+    occurrences.push({
+      parts: [noun, particle.surface_form, verbForm],
+      phrase: `${noun}${particle.surface_form}${verbForm}`,
+      start: compound[0].start,
+      end: verb.end
+    });
+  }
+  return collectPhrases(occurrences, minCount, maxPositions);
+}
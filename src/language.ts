@@ -0,0 +1,91 @@
+// 単語数を数える言語モード
+// auto: 文字種から区間ごとに言語を判定する, en: 英語（空白で区切る）, ja: 日本語（形態素解析）
+export const WORD_COUNT_LANGUAGES = ['auto', 'en', 'ja'] as const;
+export type WordCountLanguage = typeof WORD_COUNT_LANGUAGES[number];
+
+// 区間の言語
+export type SegmentLanguage = 'ja' | 'en';
+
+// 区間の言語の表示名
+export const SEGMENT_LANGUAGE_LABELS: Record<SegmentLanguage, string> = {
+  ja: '日本語',
+  en: '英語'
+};
+
+// 同じ言語の文字が続く区間
+export interface LanguageSegment {
+  language: SegmentLanguage;
+  text: string;
+  // コードポイント単位の位置（endは含まない）
+  start: number;
+  end: number;
+}
+
+// 日本語の文字（ひらがな・カタカナ・漢字、和文の記号、全角英数字・記号、半角カタカナ）
+const JAPANESE_CHAR = /[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}\u3000-\u303f\u30fc\uff01-\uff9f]/u;
+
+// 英語として数える文字（日本語以外の文字。ラテン文字のほかギリシャ文字・キリル文字なども空白で区切って数える）
+const LETTER_CHAR = /\p{L}/u;
+
+// 英語の単語（アポストロフィやハイフンでつながった語は1語: don't, e-mail）
+const ENGLISH_WORD = /[\p{L}\p{N}]+(?:['\u2019\-][\p{L}\p{N}]+)*/gu;
+
+// 文字の言語（数字・空白・記号などどちらでもない文字はnull）
+function charLanguage(char: string): SegmentLanguage | null {
+  if (JAPANESE_CHAR.test(char)) {
+    return 'ja';
+  }
+  return LETTER_CHAR.test(char) ? 'en' : null;
+}
+
+// テキストを言語ごとの区間に分ける関数
+// 数字・空白・記号は、次の区間の文字との間に空白がなければ次の区間に（2024年 は日本語の区間）、それ以外は直前の区間に含める
+// 日本語・英語の文字をまったく含まない場合は全体を英語の区間とする
+export function splitLanguageSegments(text: string): LanguageSegment[] {
+  const segments: LanguageSegment[] = [];
+  let current: LanguageSegment | null = null;
+  // 直前の区間のあとに続く、言語を判定できない文字
+  let pending: string[] = [];
+  let offset = 0;
+
+  for (const char of text) {
+    const language = charLanguage(char);
+    if (!language) {
+      pending.push(char);
+    } else if (current && current.language === language) {
+      current.text += pending.join('') + char;
+      current.end = offset + 1;
+      pending = [];
+    } else {
+      // 最後の空白までは直前の区間、それ以降は新しい区間に含める
+      let split = pending.length;
+      while (split > 0 && !/\s/.test(pending[split - 1])) {
+        split--;
+      }
+      if (current) {
+        current.text += pending.slice(0, split).join('');
+        current.end += split;
+      } else {
+        split = 0;
+      }
+      const carried = pending.slice(split);
+      current = { language, text: carried.join('') + char, start: offset - carried.length, end: offset + 1 };
+      segments.push(current);
+      pending = [];
+    }
+    offset++;
+  }
+
+  if (current) {
+    current.text += pending.join('');
+    current.end = offset;
+  } else if (text.length > 0) {
+    segments.push({ language: 'en', text, start: 0, end: offset });
+  }
+  return segments;
+}
+
+// 英語の区間の単語を取り出す関数（空白・句読点で区切る）
+export function splitEnglishWords(text: string): string[] {
+  return text.match(ENGLISH_WORD) || [];
+}
@@ -0,0 +1,385 @@
+import { PositionedToken, createLineColumnLocator } from './tokens.js';
+import { Sentence, joinSurface, splitTokensIntoSentences } from './sentences.js';
+
+// 診断の重要度
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+// 修正案（start〜endの範囲をreplacementに置き換える）
+export interface LintFix {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+// 校正ルールが報告する診断
+export interface LintDiagnostic {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  // コードポイント単位の位置
+  start: number;
+  end: number;
+  // 1始まりの行・列
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  suggestion?: string;
+  fix?: LintFix;
+}
+
+// 校正ルールに渡すコンテキスト
+export interface LintContext {
+  text: string;
+  tokens: PositionedToken[];
+  sentences: Sentence[];
+}
+
+// ルールが返す位置情報付きの報告（行・列と重要度はエンジン側で付与する）
+type RuleReport = Omit<LintDiagnostic, 'ruleId' | 'severity' | 'line' | 'column' | 'endLine' | 'endColumn'>;
+
+// 校正ルールの定義
+export interface LintRule<Options = Record<string, any>> {
+  id: string;
+  name: string;
+  description: string;
+  defaultSeverity: LintSeverity;
+  defaultOptions: Options;
+  check: (context: LintContext, options: Options) => RuleReport[];
+}
+
+// 呼び出し時のルール設定（falseで無効化、オブジェクトで重要度やオプションを上書き）
+export type LintRuleSetting = boolean | ({ enabled?: boolean; severity?: LintSeverity } & Record<string, any>);
+
+// 否定を表すトークンかどうか（助動詞「ない」「ぬ」、形容詞「ない」）
+function isNegationToken(token: PositionedToken): boolean {
+  if (token.pos === '助動詞' && (token.conjugated_type === '特殊・ナイ' || token.conjugated_type === '特殊・ヌ')) {
+    return true;
+  }
+  return token.pos === '形容詞' && token.pos_detail_1 === '自立' && token.basic_form === 'ない';
+}
+
+// 文末表現を取り出す（末尾の助動詞・終助詞の連なり）
+function getSentenceEnding(sentence: Sentence): PositionedToken[] {
+  const content = sentence.tokens.filter(token => token.pos !== '記号');
+  const ending: PositionedToken[] = [];
+  for (let i = content.length - 1; i >= 0; i--) {
+    const token = content[i];
+    if (token.pos === '助動詞' || (token.pos === '助詞' && token.pos_detail_1 === '終助詞')) {
+      ending.unshift(token);
+    } else {
+      break;
+    }
+  }
+  // 助動詞などで終わらない場合は最後の語を文末表現とする
+  if (ending.length === 0 && content.length > 0) {
+    ending.push(content[content.length - 1]);
+  }
+  return ending;
+}
+
+// 1語として辞書に登録されているら抜き言葉
+const RA_NUKI_WORDS = ['見れる', '来れる', 'これる', '着れる', '寝れる', '出れる'];
+
+// ら抜き言葉
+const raNukiRule: LintRule<{}> = {
+  id: 'no-ra-nuki',
+  name: 'ら抜き言葉',
+  description: '一段動詞・カ変動詞の可能形で「ら」が抜けた表現（食べれる、来れるなど）を検出します。',
+  defaultSeverity: 'warning',
+  defaultOptions: {},
+  check: ({ tokens }) => {
+    const reports: RuleReport[] = [];
+
+    tokens.forEach((token, i) => {
+      // 一段・カ変動詞の未然形 + 接尾「れる」
+      const prev = tokens[i - 1];
+      if (prev && token.pos === '動詞' && token.pos_detail_1 === '接尾' && token.basic_form === 'れる' &&
+          prev.pos === '動詞' && prev.conjugated_form === '未然形' &&
+          (prev.conjugated_type.startsWith('一段') || prev.conjugated_type.startsWith('カ変'))) {
+        const replacement = prev.surface_form + 'ら' + token.surface_form;
+        reports.push({
+          message: `ら抜き言葉「${prev.surface_form}${token.surface_form}」が使われています。`,
+          start: prev.start,
+          end: token.end,
+          suggestion: `「${replacement}」`,
+          fix: { start: prev.start, end: token.end, replacement }
+        });
+        return;
+      }
+
+      // 1語として登録されているもの（見れる、来れるなど）
+      if (token.pos === '動詞' && RA_NUKI_WORDS.includes(token.basic_form)) {
+        const replacement = token.surface_form.replace('れ', 'られ');
+        reports.push({
+          message: `ら抜き言葉「${token.surface_form}」が使われています。`,
+          start: token.start,
+          end: token.end,
+          suggestion: `「${replacement}」`,
+          fix: { start: token.start, end: token.end, replacement }
+        });
+      }
+    });
+
+    return reports;
+  }
+};
+
+// 二重助詞
+const doubledParticleRule: LintRule<{ particles: Record<string, number> }> = {
+  id: 'no-doubled-particle',
+  name: '二重助詞',
+  description: '一文の中で同じ助詞（が、を、の など）が許容回数を超えて使われている箇所を検出します。',
+  defaultSeverity: 'warning',
+  // 助詞ごとの一文あたりの許容回数
+  defaultOptions: { particles: { 'が': 1, 'を': 1, 'に': 1, 'で': 1, 'は': 1, 'の': 2 } },
+  check: ({ sentences }, { particles }) => {
+    const reports: RuleReport[] = [];
+
+    for (const sentence of sentences) {
+      const occurrences: Record<string, PositionedToken[]> = {};
+      for (const token of sentence.tokens) {
+        if (token.pos !== '助詞' || !(token.surface_form in particles)) {
+          continue;
+        }
+        // 接続助詞の「が」「で」などは別の用法のため対象外
+        if (token.pos_detail_1 === '接続助詞') {
+          continue;
+        }
+        (occurrences[token.surface_form] = occurrences[token.surface_form] || []).push(token);
+      }
+
+      for (const [particle, found] of Object.entries(occurrences)) {
+        const limit = particles[particle];
+        if (found.length <= limit) {
+          continue;
+        }
+        // 許容回数を超えた箇所を報告
+        for (const token of found.slice(limit)) {
+          reports.push({
+            message: `一文の中で助詞「${particle}」が${found.length}回使われています（許容: ${limit}回）。`,
+            start: token.start,
+            end: token.end,
+            suggestion: '言い換えるか、文を分割してください。'
+          });
+        }
+      }
+    }
+
+    return reports;
+  }
+};
+
+// 読点の数
+const maxTenRule: LintRule<{ max: number }> = {
+  id: 'max-ten',
+  name: '読点の数',
+  description: '一文の中の読点（、，）が多すぎる文を検出します。',
+  defaultSeverity: 'warning',
+  defaultOptions: { max: 3 },
+  check: ({ sentences }, { max }) => {
+    const reports: RuleReport[] = [];
+
+    for (const sentence of sentences) {
+      const commas = sentence.tokens.filter(token => token.surface_form === '、' || token.surface_form === '，');
+      if (commas.length > max) {
+        const over = commas[max];
+        reports.push({
+          message: `一文の中で読点が${commas.length}個使われています（上限: ${max}個）。`,
+          start: over.start,
+          end: over.end,
+          suggestion: '文を分割するか、読点を減らしてください。'
+        });
+      }
+    }
+
+    return reports;
+  }
+};
+
+// 文の長さ
+const sentenceLengthRule: LintRule<{ max: number }> = {
+  id: 'sentence-length',
+  name: '文の長さ',
+  description: '指定した文字数を超える長い文を検出します。',
+  defaultSeverity: 'warning',
+  defaultOptions: { max: 100 },
+  check: ({ sentences }, { max }) => {
+    const reports: RuleReport[] = [];
+
+    for (const sentence of sentences) {
+      const length = sentence.end - sentence.start;
+      if (length > max) {
+        reports.push({
+          message: `文が長すぎます（${length}文字、上限: ${max}文字）。`,
+          start: sentence.start,
+          end: sentence.end,
+          suggestion: '文を分割してください。'
+        });
+      }
+    }
+
+    return reports;
+  }
+};
+
+// 二重否定
+const doubleNegativeRule: LintRule<{ window: number }> = {
+  id: 'no-double-negative',
+  name: '二重否定',
+  description: '「〜ないわけではない」「〜なくはない」などの二重否定を検出します。',
+  defaultSeverity: 'info',
+  // 否定表現同士の間に入る形態素数の上限
+  defaultOptions: { window: 5 },
+  check: ({ sentences }, { window }) => {
+    const reports: RuleReport[] = [];
+
+    for (const sentence of sentences) {
+      let previous: { token: PositionedToken; index: number } | null = null;
+      sentence.tokens.forEach((token, index) => {
+        // 読点などの記号をまたぐ場合は別の節とみなす
+        if (token.pos === '記号') {
+          previous = null;
+          return;
+        }
+        if (!isNegationToken(token)) {
+          return;
+        }
+        if (previous && index - previous.index <= window) {
+          const phrase = joinSurface(sentence.tokens.slice(previous.index, index + 1));
+          reports.push({
+            message: `二重否定「${phrase}」が使われています。`,
+            start: previous.token.start,
+            end: token.end,
+            suggestion: '肯定表現に言い換えると意図が伝わりやすくなります。'
+          });
+          previous = null;
+          return;
+        }
+        previous = { token, index };
+      });
+    }
+
+    return reports;
+  }
+};
+
+// 同じ文末の連続
+const doubledSentenceEndingRule: LintRule<{ maxRepeat: number }> = {
+  id: 'no-doubled-sentence-ending',
+  name: '同じ文末の連続',
+  description: '同じ文末表現（〜です。〜です。など）が続く箇所を検出します。',
+  defaultSeverity: 'info',
+  // 同じ文末が連続してよい回数
+  defaultOptions: { maxRepeat: 2 },
+  check: ({ sentences }, { maxRepeat }) => {
+    const reports: RuleReport[] = [];
+    let previousEnding = '';
+    let repeat = 0;
+
+    for (const sentence of sentences) {
+      const endingTokens = getSentenceEnding(sentence);
+      const ending = joinSurface(endingTokens);
+      repeat = ending !== '' && ending === previousEnding ? repeat + 1 : 1;
+      previousEnding = ending;
+
+      if (repeat > maxRepeat && endingTokens.length > 0) {
+        reports.push({
+          message: `文末表現「${ending}」が${repeat}文続いています（上限: ${maxRepeat}文）。`,
+          start: endingTokens[0].start,
+          end: endingTokens[endingTokens.length - 1].end,
+          suggestion: '文末表現に変化をつけてください。'
+        });
+      }
+    }
+
+    return reports;
+  }
+};
+
+// 閉じていない括弧
+const unclosedBracketRule: LintRule<{}> = {
+  id: 'no-unclosed-bracket',
+  name: '閉じていない括弧',
+  description: '行の終わりまでに閉じていない開き括弧（「や（など）を検出します。',
+  defaultSeverity: 'warning',
+  defaultOptions: {},
+  check: ({ sentences }) => {
+    const reports: RuleReport[] = [];
+
+    for (const sentence of sentences) {
+      for (const position of sentence.unclosedBrackets || []) {
+        const bracket = [...sentence.text][position - sentence.start];
+        reports.push({
+          message: `開き括弧 ${bracket} が行の終わりまでに閉じていません。`,
+          start: position,
+          end: position + 1,
+          suggestion: '対応する閉じ括弧を追加するか、不要な開き括弧を削除してください。'
+        });
+      }
+    }
+
+    return reports;
+  }
+};
+
+// 利用可能な校正ルール
+export const lintRules: LintRule[] = [
+  raNukiRule,
+  doubledParticleRule,
+  maxTenRule,
+  sentenceLengthRule,
+  doubleNegativeRule,
+  doubledSentenceEndingRule,
+  unclosedBracketRule
+];
+
+// 重要度の並び順
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+// テキストに校正ルールを適用する関数
+export function lintText(
+  text: string,
+  tokens: PositionedToken[],
+  settings: Record<string, LintRuleSetting> = {}
+): { diagnostics: LintDiagnostic[]; appliedRules: string[] } {
+  const context: LintContext = {
+    text,
+    tokens,
+    sentences: splitTokensIntoSentences(text, tokens)
+  };
+  const locate = createLineColumnLocator(text);
+  const diagnostics: LintDiagnostic[] = [];
+  const appliedRules: string[] = [];
+
+  for (const rule of lintRules) {
+    const setting = settings[rule.id];
+    if (setting === false || (typeof setting === 'object' && setting.enabled === false)) {
+      continue;
+    }
+
+    // ルールごとのオプションをデフォルト値とマージ
+    const { enabled, severity, ...overrides } = typeof setting === 'object' ? setting : ({} as Record<string, any>);
+    const options = { ...rule.defaultOptions, ...overrides };
+    appliedRules.push(rule.id);
+
+    for (const report of rule.check(context, options)) {
+      const from = locate(report.start);
+      const to = locate(report.end);
+      diagnostics.push({
+        ruleId: rule.id,
+        severity: severity || rule.defaultSeverity,
+        ...report,
+        line: from.line,
+        column: from.column,
+        endLine: to.line,
+        endColumn: to.column
+      });
+    }
+  }
+
+  // 出現位置順に並べる（同じ位置では重要度の高いものを先に）
+  diagnostics.sort((a, b) => a.start - b.start || SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+  return { diagnostics, appliedRules };
+}
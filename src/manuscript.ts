@@ -0,0 +1,183 @@
+import { splitGraphemes } from './counting.js';
+
+// 原稿用紙のレイアウトの設定
+export interface ManuscriptOptions {
+  // 1行のマス数
+  columns: number;
+  // 1枚の行数
+  rows: number;
+  // 段落の最初を1マス空ける（すでに全角スペースで字下げされている段落は除く）
+  indent: boolean;
+  // 空行を1行として数える
+  keepBlankLines: boolean;
+  // 行頭に来る句読点・閉じ括弧を前の行の最後のマスの外に書く（句読点のぶら下げ）
+  // falseの場合は前の行の最後の文字を次の行に送る（追い出し）
+  hangPunctuation: boolean;
+}
+
+export const DEFAULT_MANUSCRIPT_OPTIONS: ManuscriptOptions = {
+  columns: 20,
+  rows: 20,
+  indent: true,
+  keepBlankLines: true,
+  hangPunctuation: true
+};
+
+// 原稿用紙の1行（cellsはマスごとの文字、hangingはマスの外にぶら下げた文字。「）。」のように続く場合は2文字以上）
+export interface ManuscriptLine {
+  cells: string[];
+  hanging: string | null;
+}
+
+// レイアウトの結果
+export interface ManuscriptLayout {
+  lines: ManuscriptLine[];
+  totalLines: number;
+  // 使用したマス数（字下げの空白・ぶら下げを含む）
+  usedCells: number;
+  pages: number;
+  // 最後の1枚で使用した行数と、その割合（%）
+  lastPageLines: number;
+  lastPageFill: number;
+  // 禁則処理を行った箇所の数
+  kinsokuAdjustments: number;
+}
+
+// 行頭に置かない文字（句読点・閉じ括弧）
+const LINE_START_FORBIDDEN = /^[、。，．,.」』）)】〕〉》］}｝]/;
+
+// 行末に置かない文字（開き括弧）
+const LINE_END_FORBIDDEN = /^[「『（(【〔〈《［{｛]$/;
+
+// 句読点の直後の閉じ括弧は同じマスに書く（「〜。」の 。」）
+const PUNCTUATION = /^[、。，．]$/;
+const CLOSING_BRACKET = /^[」』）)】〕〉》］}｝]$/;
+
+// 半角英数字は1マスに2文字書く
+const HALF_WIDTH_ALNUM = /^[0-9a-zA-Z]$/;
+
+// 段落をマス単位に分割する関数
+function toCells(paragraph: string): string[] {
+  const cells: string[] = [];
+  for (const grapheme of splitGraphemes(paragraph)) {
+    const last = cells[cells.length - 1];
+    if (last !== undefined && CLOSING_BRACKET.test(grapheme) && PUNCTUATION.test(last)) {
+      cells[cells.length - 1] = last + grapheme;
+    } else if (last !== undefined && HALF_WIDTH_ALNUM.test(grapheme) && HALF_WIDTH_ALNUM.test(last)) {
+      cells[cells.length - 1] = last + grapheme;
+    } else {
+      cells.push(grapheme);
+    }
+  }
+  return cells;
+}
+
+// テキストを原稿用紙のマス目に配置する関数
+export function layoutManuscript(text: string, options: ManuscriptOptions = DEFAULT_MANUSCRIPT_OPTIONS): ManuscriptLayout {
+  const { columns, rows, indent, keepBlankLines, hangPunctuation } = options;
+  const lines: ManuscriptLine[] = [];
+  let kinsokuAdjustments = 0;
+  // ぶら下げた文字のマス数
+  let hangingCells = 0;
+
+  // 末尾の改行は空行として数えない（ファイルの最後の改行で1行増えないようにする）
+  for (const paragraph of text.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n')) {
+    // 空行
+    if (paragraph.trim() === '') {
+      if (keepBlankLines) {
+        lines.push({ cells: [], hanging: null });
+      }
+      continue;
+    }
+
+    // 段落の最初の字下げ（半角スペースでの字下げは全角スペース1マスに置き換える）
+    const body = paragraph.replace(/[ \t]+$/, '');
+    const cells = toCells(body.replace(/^[ \t]+/, ''));
+    if (/^[ \t]/.test(body) || (indent && !body.startsWith('　'))) {
+      cells.unshift('　');
+    }
+
+    let current: string[] = [];
+    let hangingLine: ManuscriptLine | null = null;
+    cells.forEach((cell, i) => {
+      // ぶら下げた文字に続く句読点・閉じ括弧（「）。」の 。）も同じ行にぶら下げる
+      if (hangingLine && current.length === 0 && LINE_START_FORBIDDEN.test(cell)) {
+        hangingLine.hanging += cell;
+        hangingCells++;
+        return;
+      }
+      hangingLine = null;
+
+      if (current.length === columns) {
+        if (LINE_START_FORBIDDEN.test(cell)) {
+          kinsokuAdjustments++;
+          if (hangPunctuation) {
+            // 句読点のぶら下げ
+            hangingLine = { cells: current, hanging: cell };
+            hangingCells++;
+            lines.push(hangingLine);
+            current = [];
+            return;
+          }
+          // 追い出し：前の行の最後の文字を次の行に送る
+          const carried = current.pop();
+          lines.push({ cells: current, hanging: null });
+          current = [carried];
+        } else {
+          lines.push({ cells: current, hanging: null });
+          current = [];
+        }
+      }
+
+      // 行末の開き括弧は次の行に送る
+      if (current.length === columns - 1 && columns > 1 && LINE_END_FORBIDDEN.test(cell) && i < cells.length - 1) {
+        kinsokuAdjustments++;
+        lines.push({ cells: current, hanging: null });
+        current = [];
+      }
+
+      current.push(cell);
+    });
+    if (current.length > 0) {
+      lines.push({ cells: current, hanging: null });
+    }
+  }
+
+  const totalLines = lines.length;
+  const pages = Math.max(1, Math.ceil(totalLines / rows));
+  const lastPageLines = totalLines === 0 ? 0 : totalLines - (pages - 1) * rows;
+
+  return {
+    lines,
+    totalLines,
+    usedCells: lines.reduce((sum, line) => sum + line.cells.length, 0) + hangingCells,
+    pages,
+    lastPageLines,
+    lastPageFill: (lastPageLines / rows) * 100,
+    kinsokuAdjustments
+  };
+}
+
+// 原稿用紙のマス目をテキストで描画する関数（空きマスは全角スペース、ぶら下げは枠の外に書く）
+export function renderManuscript(layout: ManuscriptLayout, options: ManuscriptOptions, maxPages: number = Infinity): string {
+  const { columns, rows } = options;
+  const pages: string[] = [];
+  const border = `＋${'－'.repeat(columns)}＋`;
+
+  for (let page = 0; page < Math.min(layout.pages, maxPages); page++) {
+    const pageLines = layout.lines.slice(page * rows, (page + 1) * rows);
+    while (pageLines.length < rows) {
+      pageLines.push({ cells: [], hanging: null });
+    }
+    const body = pageLines.map(line => {
+      const cells = [...line.cells];
+      while (cells.length < columns) {
+        cells.push('　');
+      }
+      return `｜${cells.join('')}｜${line.hanging || ''}`;
+    });
+    pages.push([`${page + 1}枚目`, border, ...body, border].join('\n'));
+  }
+
+  return pages.join('\n\n');
+}
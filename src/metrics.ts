@@ -0,0 +1,405 @@
+import { PositionedToken } from './tokens.js';
+import { Sentence } from './sentences.js';
+import { STYLE_LABELS, analyzeStyle } from './style.js';
+import { KANJI_CATEGORY_LABELS, isKanji, lookupKanji } from './kanji.js';
+
+// 指標の名前・説明の言語
+export const METRIC_LOCALES = ['ja', 'en'] as const;
+export type MetricLocale = typeof METRIC_LOCALES[number];
+
+// 言語ごとの文字列（jaは必須、ほかの言語がない場合はjaを使う）
+export type LocalizedText = { ja: string } & Partial<Record<MetricLocale, string>>;
+
+// 指標の算出に使うテキストの情報
+export interface MetricContext {
+  text: string;
+  tokens: PositionedToken[];
+  sentences: Sentence[];
+  // 改行・スペースを除いた総文字数
+  totalChars: number;
+  totalSentences: number;
+  totalMorphemes: number;
+}
+
+// 指標の算出結果
+// valueは数値、または項目ごとの比率（%）。countsは比率の算出に使用した項目ごとの出現数
+export interface MetricValue {
+  value: number | Record<string, number>;
+  counts?: Record<string, number>;
+}
+
+// 目標範囲（min・maxはどちらも範囲に含む。省略した側は制限なし）
+export interface TargetRange {
+  min?: number;
+  max?: number;
+}
+
+// 指標の目標範囲（数値の指標は範囲、比率の指標は項目ごとの範囲）
+export type MetricTarget = TargetRange | Record<string, TargetRange>;
+
+// 指標の定義
+export interface MetricDefinition {
+  id: string;
+  name: LocalizedText;
+  unit: string;
+  description: LocalizedText;
+  // 既定の目標範囲（設定ファイルで上書きできる）
+  defaultTarget?: MetricTarget;
+  compute: (context: MetricContext) => MetricValue;
+}
+
+// 比率（%）を項目ごとに計算する
+function toRatios(counts: Record<string, number>, total: number): Record<string, number> {
+  const ratios: Record<string, number> = {};
+  for (const [key, count] of Object.entries(counts)) {
+    ratios[key] = total > 0 ? (count / total) * 100 : 0;
+  }
+  return ratios;
+}
+
+// 平均文長
+const averageSentenceLength: MetricDefinition = {
+  id: 'average_sentence_length',
+  name: { ja: '平均文長', en: 'Average sentence length' },
+  unit: '文字／文',
+  description: {
+    ja: '一文の長さ。長すぎると読みにくくなる。',
+    en: 'Characters per sentence. Long sentences are harder to read.'
+  },
+  // 一文は60字以内が読みやすいとされる
+  defaultTarget: { max: 60 },
+  compute: ({ totalChars, totalSentences }) => ({
+    value: totalSentences > 0 ? totalChars / totalSentences : 0
+  })
+};
+
+// 文あたりの形態素数
+const averageMorphemesPerSentence: MetricDefinition = {
+  id: 'average_morphemes_per_sentence',
+  name: { ja: '文あたりの形態素数', en: 'Morphemes per sentence' },
+  unit: '形態素／文',
+  description: {
+    ja: '文の密度や構文の複雑さを表す。',
+    en: 'Density and syntactic complexity of sentences.'
+  },
+  compute: ({ totalMorphemes, totalSentences }) => ({
+    value: totalSentences > 0 ? totalMorphemes / totalSentences : 0
+  })
+};
+
+// 品詞の割合
+const posRatio: MetricDefinition = {
+  id: 'pos_ratio',
+  name: { ja: '品詞の割合', en: 'Part-of-speech ratio' },
+  unit: '%',
+  description: {
+    ja: '名詞・動詞・形容詞などの使用バランスを分析。',
+    en: 'Balance of nouns, verbs, adjectives and other parts of speech.'
+  },
+  compute: ({ tokens, totalMorphemes }) => {
+    const counts: Record<string, number> = {};
+    for (const token of tokens) {
+      counts[token.pos] = (counts[token.pos] || 0) + 1;
+    }
+    return { value: toRatios(counts, totalMorphemes), counts };
+  }
+};
+
+// 助詞の割合（上位10件のみを対象とする）
+const particleRatio: MetricDefinition = {
+  id: 'particle_ratio',
+  name: { ja: '助詞の割合', en: 'Particle ratio' },
+  unit: '%',
+  description: {
+    ja: '主語・目的語などの構造分析や文の流れを判断。',
+    en: 'Share of each particle (top 10), reflecting sentence structure and flow.'
+  },
+  compute: ({ tokens }) => {
+    const particleCounts: Record<string, number> = {};
+    let totalParticles = 0;
+    for (const token of tokens) {
+      if (token.pos === '助詞') {
+        particleCounts[token.surface_form] = (particleCounts[token.surface_form] || 0) + 1;
+        totalParticles++;
+      }
+    }
+    const counts = Object.fromEntries(
+      Object.entries(particleCounts)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 10)
+    );
+    return { value: toRatios(counts, totalParticles), counts };
+  }
+};
+
+// 文字種の割合
+const scriptTypeRatio: MetricDefinition = {
+  id: 'script_type_ratio',
+  name: { ja: '文字種の割合', en: 'Script type ratio' },
+  unit: '%',
+  description: {
+    ja: 'ひらがな・カタカナ・漢字・英数字の構成比率。',
+    en: 'Composition of hiragana, katakana, kanji, alphabet and digits.'
+  },
+  compute: ({ text }) => {
+    const counts = {
+      hiragana: 0,
+      katakana: 0,
+      kanji: 0,
+      alphabet: 0,
+      digit: 0,
+      other: 0
+    };
+    for (const char of text) {
+      if (/[\u3040-\u309F]/.test(char)) {
+        counts.hiragana++;
+      } else if (/[\u30A0-\u30FF]/.test(char)) {
+        counts.katakana++;
+      } else if (/[\u4E00-\u9FAF]/.test(char)) {
+        counts.kanji++;
+      } else if (/[a-zA-Z]/.test(char)) {
+        counts.alphabet++;
+      } else if (/[0-9０-９]/.test(char)) {
+        counts.digit++;
+      } else if (!/\s/.test(char)) {
+        counts.other++;
+      }
+    }
+    const total = Object.values(counts).reduce((a, b) => a + b, 0);
+    return { value: toRatios(counts, total), counts };
+  }
+};
+
+// 漢字の区分（教育漢字・常用漢字・人名用漢字・表外漢字）の割合
+const kanjiCategoryRatio: MetricDefinition = {
+  id: 'kanji_category_ratio',
+  name: { ja: '漢字の区分の割合', en: 'Kanji category ratio' },
+  unit: '%',
+  description: {
+    ja: '教育漢字・常用漢字・人名用漢字・表外漢字の構成比率。漢字の難しさを示す。',
+    en: 'Share of kyōiku, jōyō, jinmeiyō and non-standard kanji, indicating kanji difficulty.'
+  },
+  compute: ({ text }) => {
+    const counts: Record<string, number> = {};
+    let totalKanjiChars = 0;
+    for (const char of text) {
+      if (isKanji(char)) {
+        const label = KANJI_CATEGORY_LABELS[lookupKanji(char).category];
+        counts[label] = (counts[label] || 0) + 1;
+        totalKanjiChars++;
+      }
+    }
+    return { value: toRatios(counts, totalKanjiChars), counts };
+  }
+};
+
+// 語彙の多様性（基本形の異なり数／延べ数）
+const vocabularyDiversity: MetricDefinition = {
+  id: 'vocabulary_diversity',
+  name: { ja: '語彙の多様性（タイプ/トークン比）', en: 'Vocabulary diversity (type/token ratio)' },
+  unit: '%',
+  description: {
+    ja: '語彙の豊かさや表現力の指標。',
+    en: 'Richness of vocabulary and expression.'
+  },
+  compute: ({ tokens, totalMorphemes }) => {
+    const uniqueWords = new Set(tokens.map(token => token.basic_form));
+    return { value: totalMorphemes > 0 ? (uniqueWords.size / totalMorphemes) * 100 : 0 };
+  }
+};
+
+// カタカナ語の割合
+const katakanaWordRatio: MetricDefinition = {
+  id: 'katakana_word_ratio',
+  name: { ja: 'カタカナ語の割合', en: 'Katakana word ratio' },
+  unit: '%',
+  description: {
+    ja: '外来語や専門用語の多さ、カジュアルさを示す。',
+    en: 'Amount of loanwords and technical terms, and casualness.'
+  },
+  compute: ({ tokens, totalMorphemes }) => {
+    const katakanaWords = tokens.filter(token => /^[\u30A0-\u30FF]+$/.test(token.surface_form)).length;
+    return { value: totalMorphemes > 0 ? (katakanaWords / totalMorphemes) * 100 : 0 };
+  }
+};
+
+// 文体（敬体・常体・体言止め）の割合
+const sentenceStyleRatio: MetricDefinition = {
+  id: 'sentence_style_ratio',
+  name: { ja: '文体の割合', en: 'Sentence style ratio' },
+  unit: '%',
+  description: {
+    ja: '文末の述語から判定した敬体・常体・体言止めの構成比率。文体の統一度を示す。',
+    en: 'Share of polite, plain and noun-ending sentences judged from sentence endings, showing style consistency.'
+  },
+  compute: ({ sentences }) => {
+    const style = analyzeStyle(sentences);
+    const counts = Object.fromEntries(
+      Object.entries(style.counts).map(([key, count]) => [STYLE_LABELS[key], count])
+    );
+    return { value: toRatios(counts, style.sentences.length), counts };
+  }
+};
+
+// 句読点の平均数
+const punctuationPerSentence: MetricDefinition = {
+  id: 'punctuation_per_sentence',
+  name: { ja: '句読点の平均数', en: 'Punctuation per sentence' },
+  unit: '個／文',
+  description: {
+    ja: '文の区切りや読みやすさに影響。',
+    en: 'Periods and commas per sentence, affecting segmentation and readability.'
+  },
+  compute: ({ tokens, totalSentences }) => {
+    const punctuationCount = tokens.filter(token =>
+      token.pos === '記号' && (token.pos_detail_1 === '句点' || token.pos_detail_1 === '読点')
+    ).length;
+    return { value: totalSentences > 0 ? punctuationCount / totalSentences : 0 };
+  }
+};
+
+// 指標の登録簿（登録した順に出力する）
+const registry = new Map<string, MetricDefinition>();
+
+// 指標を登録する関数（同じIDの指標は置き換える）
+export function registerMetric(definition: MetricDefinition): void {
+  registry.set(definition.id, definition);
+}
+
+// 登録されている指標の一覧
+export function listMetrics(): MetricDefinition[] {
+  return [...registry.values()];
+}
+
+// IDから指標を取得する関数
+export function getMetric(id: string): MetricDefinition | undefined {
+  return registry.get(id);
+}
+
+[
+  averageSentenceLength,
+  averageMorphemesPerSentence,
+  posRatio,
+  particleRatio,
+  scriptTypeRatio,
+  kanjiCategoryRatio,
+  vocabularyDiversity,
+  katakanaWordRatio,
+  sentenceStyleRatio,
+  punctuationPerSentence
+].forEach(registerMetric);
+
+// 削除した指標と、代わりに使う指標
+// 敬語の頻度は「お」「ご」などを含む形態素を数えていたため、文末から判定する文体の割合に置き換えた
+const REMOVED_METRICS: Record<string, string> = {
+  honorific_frequency: 'sentence_style_ratio'
+};
+
+// 指標ごとの設定（設定ファイルの metrics に書く内容）
+export interface MetricConfig {
+  enabled?: boolean;
+  target?: MetricTarget;
+  name?: string | LocalizedText;
+  description?: string | LocalizedText;
+}
+
+// 分析に使う指標の設定
+export interface MetricSettings {
+  locale: MetricLocale;
+  // 有効な指標（出力する順）
+  enabled: MetricDefinition[];
+  targets: Record<string, MetricTarget>;
+  overrides: Record<string, { name?: string | LocalizedText; description?: string | LocalizedText }>;
+}
+
+// 設定ファイルの内容から指標の設定を作成する関数
+// enabledMetrics を指定した場合はその指標だけをその順で、指定しない場合は登録されているすべての指標を使う
+export function resolveMetricSettings(options: {
+  locale?: MetricLocale;
+  enabledMetrics?: string[];
+  metrics?: Record<string, MetricConfig>;
+} = {}): MetricSettings {
+  const metricConfigs = options.metrics || {};
+  const ids = [...(options.enabledMetrics || []), ...Object.keys(metricConfigs)];
+  const removed = ids.filter(id => REMOVED_METRICS[id]);
+  if (removed.length > 0) {
+    throw new Error(`削除された指標です: ${removed.map(id => `${id}（代わりに ${REMOVED_METRICS[id]} を使用してください）`).join(', ')}`);
+  }
+  const unknown = ids.filter(id => !registry.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`未知の指標です: ${unknown.join(', ')}（指定できる指標: ${[...registry.keys()].join(', ')}）`);
+  }
+
+  const candidates = options.enabledMetrics ? options.enabledMetrics.map(id => registry.get(id)!) : listMetrics();
+  const enabled = candidates.filter(definition => metricConfigs[definition.id]?.enabled !== false);
+  const targets: Record<string, MetricTarget> = {};
+  const overrides: MetricSettings['overrides'] = {};
+  for (const definition of enabled) {
+    const config = metricConfigs[definition.id] || {};
+    const target = config.target ?? definition.defaultTarget;
+    if (target) {
+      targets[definition.id] = target;
+    }
+    overrides[definition.id] = { name: config.name, description: config.description };
+  }
+  return { locale: options.locale || 'ja', enabled, targets, overrides };
+}
+
+// 既定の設定（すべての指標を日本語で出力し、既定の目標範囲を使う）
+export const DEFAULT_METRIC_SETTINGS = resolveMetricSettings();
+
+// 指定した言語の文字列を取り出す
+export function localize(text: string | LocalizedText, locale: MetricLocale): string {
+  return typeof text === 'string' ? text : text[locale] ?? text.ja;
+}
+
+// 目標範囲との比較結果
+// within: 範囲内, below: 下回る, above: 上回る
+export type TargetStatus = 'within' | 'below' | 'above';
+
+// 目標範囲との比較結果の表示名
+export const TARGET_STATUS_LABELS: Record<TargetStatus, string> = {
+  within: '範囲内',
+  below: '範囲外（下回る）',
+  above: '範囲外（上回る）'
+};
+
+// 目標範囲の判定（比率の指標では項目ごと。itemは項目名）
+export interface TargetCheck {
+  item?: string;
+  value: number;
+  min?: number;
+  max?: number;
+  status: TargetStatus;
+}
+
+// 値を目標範囲と比べる
+function checkRange(value: number, range: TargetRange): TargetStatus {
+  if (range.min !== undefined && value < range.min) {
+    return 'below';
+  }
+  if (range.max !== undefined && value > range.max) {
+    return 'above';
+  }
+  return 'within';
+}
+
+// 目標範囲かどうか（min・maxのどちらかを持つ）
+function isTargetRange(target: MetricTarget): target is TargetRange {
+  return typeof (target as TargetRange).min === 'number' || typeof (target as TargetRange).max === 'number';
+}
+
+// 指標の値を目標範囲と比べる関数
+// 比率の指標で項目ごとの範囲を指定した場合、テキストに現れない項目は0%として判定する
+export function checkTarget(value: number | Record<string, number>, target: MetricTarget): TargetCheck[] {
+  if (typeof value === 'number') {
+    return isTargetRange(target) ? [{ value, ...target, status: checkRange(value, target) }] : [];
+  }
+  if (isTargetRange(target)) {
+    return [];
+  }
+  return Object.entries(target).map(([item, range]) => {
+    const itemValue = value[item] || 0;
+    return { item, value: itemValue, ...range, status: checkRange(itemValue, range) };
+  });
+}
@@ -0,0 +1,424 @@
+import { PositionedToken, isSymbolToken, isWhitespaceToken } from './tokens.js';
+import { hiraganaToKatakana, katakanaToHiragana } from './kana.js';
+import { isKanji } from './kanji.js';
+
+// 表記ゆれの種類
+// width: 全角・半角, long-vowel: 長音符の有無, okurigana: 送り仮名, kana-kanji: 漢字とかな, kana: ひらがなとカタカナ
+export type VariantKind = 'width' | 'long-vowel' | 'okurigana' | 'kana-kanji' | 'kana';
+
+// 表記ゆれの種類の表示名
+export const VARIANT_KIND_LABELS: Record<VariantKind, string> = {
+  'width': '全角・半角',
+  'long-vowel': '長音符',
+  'okurigana': '送り仮名',
+  'kana-kanji': '漢字・かな',
+  'kana': 'ひらがな・カタカナ'
+};
+
+// 表記ごとの出現
+export interface SpellingVariant {
+  spelling: string;
+  count: number;
+  // コードポイント単位の位置（endは含まない）
+  positions: { start: number; end: number }[];
+}
+
+// 同じ語の異なる表記のまとまり
+export interface VariantGroup {
+  kind: VariantKind;
+  // 最も多く使われている表記（統一先の候補）
+  dominant: string;
+  total: number;
+  variants: SpellingVariant[];
+}
+
+// 表記ゆれの対象とする品詞（助詞・助動詞・記号は除く）
+const CONTENT_POS = ['名詞', '動詞', '形容詞', '副詞', '連体詞', '接続詞', '接頭詞'];
+
+// 語の表記（活用する語は基本形、辞書にない語は表層形）
+function spellingOf(token: PositionedToken): string {
+  return token.basic_form && token.basic_form !== '*' ? token.basic_form : token.surface_form;
+}
+
+// カタカナ（と長音符）だけからなる語かどうか
+function isKatakanaWord(text: string): boolean {
+  return /^[ァ-ヺー]+$/.test(text);
+}
+
+function isKanaOnly(text: string): boolean {
+  return /^[ぁ-ゖァ-ヺー]+$/.test(text);
+}
+
+// 全角・半角と語末の長音符の違いをそろえた表記
+function foldWidthAndLongVowel(spelling: string): string {
+  const folded = spelling.normalize('NFKC');
+  if (isKatakanaWord(folded) && folded.length > 2) {
+    return folded.replace(/ー+$/, '');
+  }
+  return folded;
+}
+
+// 基本形の読み（カタカナ）を求める
+// 活用した語は、表層形と基本形で異なる語尾（かな）を読みの末尾で置き換える（行なっ/オコナッ → 行なう/オコナウ）
+function basicReadingOf(token: PositionedToken): string | null {
+  if (!token.reading || token.reading === '*') {
+    return null;
+  }
+  const surface = [...token.surface_form];
+  const base = [...spellingOf(token)];
+  let common = 0;
+  while (common < surface.length && common < base.length && surface[common] === base[common]) {
+    common++;
+  }
+  const surfaceTail = hiraganaToKatakana(surface.slice(common).join(''));
+  const baseTail = hiraganaToKatakana(base.slice(common).join(''));
+  const tails = surfaceTail + baseTail;
+  if ((tails !== '' && !isKanaOnly(tails)) || !token.reading.endsWith(surfaceTail)) {
+    return null;
+  }
+  return token.reading.slice(0, token.reading.length - surfaceTail.length) + baseTail;
+}
+
+// 表記に含まれる漢字の並び（送り仮名の違いを無視して比較するため）
+function kanjiSequence(spelling: string): string {
+  return [...spelling].filter(isKanji).join('');
+}
+
+// 表記のまとまりから表記ゆれの種類を判定する
+function classifyVariants(spellings: string[]): VariantKind {
+  const normalized = new Set(spellings.map(spelling => spelling.normalize('NFKC')));
+  if (normalized.size === 1) {
+    return 'width';
+  }
+  const folded = new Set(spellings.map(foldWidthAndLongVowel));
+  if (folded.size === 1) {
+    return 'long-vowel';
+  }
+  const withKanji = spellings.filter(spelling => kanjiSequence(spelling) !== '');
+  if (withKanji.length === spellings.length) {
+    return 'okurigana';
+  }
+  return withKanji.length > 0 ? 'kana-kanji' : 'kana';
+}
+
+// 同じ読み・基本形で表記の異なる語をまとめる関数
+// - 全角・半角、語末の長音符だけが異なる表記（サーバ/サーバー、ＡＰＩ/API）
+// - 読みが同じで漢字の並びが同じ表記（行う/行なう、生れる/生まれる）
+// - 読みが同じでかなだけの表記（出来る/できる）。同じ読みで漢字の異なる語がある場合（機会/機械 と きかい）は対応が決まらないためまとめない
+export function findSpellingVariants(tokens: PositionedToken[], maxPositions: number = 20): VariantGroup[] {
+  const occurrences = new Map<string, { tokens: PositionedToken[] }>();
+  for (const token of tokens) {
+    if (!CONTENT_POS.includes(token.pos) || isSymbolToken(token) || isWhitespaceToken(token)) {
+      continue;
+    }
+    const spelling = spellingOf(token);
+    const entry = occurrences.get(spelling) || { tokens: [] };
+    entry.tokens.push(token);
+    occurrences.set(spelling, entry);
+  }
+
+  // 表記を union-find でまとめる
+  const parent = new Map<string, string>();
+  const find = (spelling: string): string => {
+    let root = spelling;
+    while (parent.get(root) !== root) {
+      root = parent.get(root);
+    }
+    parent.set(spelling, root);
+    return root;
+  };
+  const union = (a: string, b: string) => parent.set(find(a), find(b));
+  for (const spelling of occurrences.keys()) {
+    parent.set(spelling, spelling);
+  }
+
+  // 全角・半角と長音符の違い
+  const byFolded = new Map<string, string>();
+  for (const spelling of occurrences.keys()) {
+    const key = foldWidthAndLongVowel(spelling);
+    if (byFolded.has(key)) {
+      union(spelling, byFolded.get(key));
+    } else {
+      byFolded.set(key, spelling);
+    }
+  }
+
+  // 読みが同じ表記
+  const byReading = new Map<string, Set<string>>();
+  for (const [spelling, entry] of occurrences) {
+    const reading = basicReadingOf(entry.tokens[0]);
+    if (!reading) {
+      continue;
+    }
+    const spellings = byReading.get(reading) || new Set<string>();
+    spellings.add(spelling);
+    byReading.set(reading, spellings);
+  }
+  for (const spellings of byReading.values()) {
+    if (spellings.size < 2) {
+      continue;
+    }
+    // 漢字の並びごとにまとめる
+    const byKanji = new Map<string, string[]>();
+    const kanaOnly: string[] = [];
+    for (const spelling of spellings) {
+      const kanji = kanjiSequence(spelling);
+      if (kanji === '') {
+        kanaOnly.push(spelling);
+      } else {
+        byKanji.set(kanji, [...(byKanji.get(kanji) || []), spelling]);
+      }
+    }
+    for (const group of byKanji.values()) {
+      group.slice(1).forEach(spelling => union(spelling, group[0]));
+    }
+
+    // かなだけの表記は、漢字の表記が1通りに決まり品詞が一致する場合にまとめる
+    const kanjiGroups = [...byKanji.values()];
+    const anchor = kanjiGroups.length === 1 ? kanjiGroups[0][0] : kanaOnly[0];
+    if (kanjiGroups.length > 1 || !anchor) {
+      continue;
+    }
+    const anchorToken = occurrences.get(anchor).tokens[0];
+    for (const spelling of kanaOnly) {
+      const token = occurrences.get(spelling).tokens[0];
+      if (spelling !== anchor && token.pos === anchorToken.pos && token.pos_detail_1 === anchorToken.pos_detail_1) {
+        union(spelling, anchor);
+      }
+    }
+  }
+
+  // まとまりごとに集計
+  const groups = new Map<string, SpellingVariant[]>();
+  for (const [spelling, entry] of occurrences) {
+    const root = find(spelling);
+    groups.set(root, [...(groups.get(root) || []), {
+      spelling,
+      count: entry.tokens.length,
+      positions: entry.tokens.slice(0, maxPositions).map(token => ({ start: token.start, end: token.end }))
+    }]);
+  }
+
+  return [...groups.values()]
+    .filter(variants => variants.length > 1)
+    .map(variants => {
+      variants.sort((a, b) => b.count - a.count || a.spelling.localeCompare(b.spelling));
+      return {
+        kind: classifyVariants(variants.map(variant => variant.spelling)),
+        dominant: variants[0].spelling,
+        total: variants.reduce((sum, variant) => sum + variant.count, 0),
+        variants
+      };
+    })
+    .sort((a, b) => b.total - a.total || a.dominant.localeCompare(b.dominant));
+}
+
+// 正規化の方針
+export interface NormalizePolicy {
+  // Unicode正規化（NFKC）を行う（全角英数字は半角に、半角カタカナは全角になる）
+  nfkc: boolean;
+  // 英数字の幅（halfwidth: 半角にそろえる, fullwidth: 全角にそろえる, keep: 変更しない）
+  alphanumeric: 'halfwidth' | 'fullwidth' | 'keep';
+  // 半角カタカナ（fullwidth: 全角にする, keep: 変更しない）
+  katakana: 'fullwidth' | 'keep';
+  // カタカナ語の語末の長音符（add: 付ける, remove: 省く, keep: 変更しない）
+  // 変更後の表記が辞書に1語として登録されている場合のみ変更する（サーバ ⇔ サーバー、コーヒー は コーヒ にしない）
+  longVowel: 'add' | 'remove' | 'keep';
+  // 補助動詞・補助形容詞をひらがなにする（〜て下さい → 〜てください、〜て見る → 〜てみる）
+  auxiliaryVerbs: boolean;
+  // 形式名詞をひらがなにする（事 → こと、為 → ため）
+  formalNouns: boolean;
+}
+
+export const DEFAULT_NORMALIZE_POLICY: NormalizePolicy = {
+  nfkc: false,
+  alphanumeric: 'halfwidth',
+  katakana: 'fullwidth',
+  longVowel: 'keep',
+  auxiliaryVerbs: false,
+  formalNouns: false
+};
+
+// 正規化のルール
+export type NormalizeRule = 'nfkc' | 'alphanumeric' | 'katakana' | 'long-vowel' | 'auxiliary-verb' | 'formal-noun';
+
+// 正規化のルールの表示名
+export const NORMALIZE_RULE_LABELS: Record<NormalizeRule, string> = {
+  'nfkc': 'Unicode正規化（NFKC）',
+  'alphanumeric': '英数字の幅',
+  'katakana': '半角カタカナ',
+  'long-vowel': '長音符',
+  'auxiliary-verb': '補助動詞のひらがな表記',
+  'formal-noun': '形式名詞のひらがな表記'
+};
+
+// 正規化による変更（start/end は元のテキストのコードポイント単位の位置）
+export interface NormalizeChange {
+  rule: NormalizeRule;
+  start: number;
+  end: number;
+  before: string;
+  after: string;
+}
+
+// 正規化の結果
+export interface NormalizeResult {
+  text: string;
+  changes: NormalizeChange[];
+}
+
+// 補助動詞として使われる動詞（「て」「で」の後でひらがなにする）
+const AUXILIARY_VERBS = ['見る', '行く', '来る', '置く', '居る', '仕舞う', '貰う', '上げる', '差し上げる', '頂く', '下さる', '呉れる', '遣る', '欲しい'];
+
+// ひらがなにする形式名詞（名詞・非自立のもの）
+const FORMAL_NOUNS = ['事', '物', '時', '所', '為', '訳', '筈', '様', '通り', '程', '故', '内'];
+
+const FULLWIDTH_ALNUM = /[０-９Ａ-Ｚａ-ｚ]/;
+const HALFWIDTH_ALNUM = /[0-9A-Za-z]/;
+const HALFWIDTH_KATAKANA = /[｡-ﾟ]/;
+
+// 英数字を全角にする
+function toFullwidthAlnum(text: string): string {
+  return text.replace(/[0-9A-Za-z]/g, char => String.fromCharCode(char.charCodeAt(0) + 0xFEE0));
+}
+
+// 文字ごとに適用するルール（連続する同じルールの文字はまとめて変換する）
+function characterRuleOf(char: string, policy: NormalizePolicy): NormalizeRule | null {
+  if (HALFWIDTH_KATAKANA.test(char) && (policy.katakana === 'fullwidth' || policy.nfkc)) {
+    return 'katakana';
+  }
+  if (FULLWIDTH_ALNUM.test(char) && policy.alphanumeric === 'halfwidth') {
+    return 'alphanumeric';
+  }
+  if (HALFWIDTH_ALNUM.test(char) && policy.alphanumeric === 'fullwidth') {
+    return 'alphanumeric';
+  }
+  if (policy.nfkc && char.normalize('NFKC') !== char && !(FULLWIDTH_ALNUM.test(char) && policy.alphanumeric === 'keep')) {
+    return 'nfkc';
+  }
+  return null;
+}
+
+function applyCharacterRule(rule: NormalizeRule, text: string, policy: NormalizePolicy): string {
+  if (rule === 'alphanumeric') {
+    return policy.alphanumeric === 'fullwidth' ? toFullwidthAlnum(text) : text.normalize('NFKC');
+  }
+  const normalized = text.normalize('NFKC');
+  return policy.alphanumeric === 'fullwidth' ? toFullwidthAlnum(normalized) : normalized;
+}
+
+// テキストを方針に従って正規化する関数
+// 文字単位の変換（NFKC・英数字・半角カタカナ）を行ってから、形態素解析の結果に基づく変換（長音符・補助動詞・形式名詞）を行う
+// tokenize は形態素解析、isKnownWord は表記が辞書に1語として登録されているかを調べる関数
+export async function normalizeText(
+  text: string,
+  policy: NormalizePolicy,
+  tokenize: (text: string) => Promise<PositionedToken[]>,
+  isKnownWord: (word: string) => boolean
+): Promise<NormalizeResult> {
+  const chars = [...text];
+  const changes: NormalizeChange[] = [];
+
+  // 文字単位の変換（変換後の位置と元の位置の対応を記録する）
+  const pieces: string[] = [];
+  const edits: { start: number; end: number; originalStart: number; originalEnd: number }[] = [];
+  let converted = 0;
+  for (let i = 0; i < chars.length;) {
+    const rule = characterRuleOf(chars[i], policy);
+    if (!rule) {
+      pieces.push(chars[i]);
+      converted++;
+      i++;
+      continue;
+    }
+    let j = i + 1;
+    while (j < chars.length && characterRuleOf(chars[j], policy) === rule) {
+      j++;
+    }
+    const before = chars.slice(i, j).join('');
+    const after = applyCharacterRule(rule, before, policy);
+    const length = [...after].length;
+    pieces.push(after);
+    if (after !== before) {
+      changes.push({ rule, start: i, end: j, before, after });
+    }
+    edits.push({ start: converted, end: converted + length, originalStart: i, originalEnd: j });
+    converted += length;
+    i = j;
+  }
+  const intermediate = pieces.join('');
+
+  // 変換後の位置を元のテキストの位置に戻す
+  // 変換した区間の内側の位置は、区間の先頭（開始位置）または末尾（終了位置）に寄せる
+  const toOriginal = (offset: number, isEnd: boolean) => {
+    let shift = 0;
+    for (const edit of edits) {
+      if (offset <= edit.start) {
+        break;
+      }
+      if (offset < edit.end) {
+        return isEnd ? edit.originalEnd : edit.originalStart;
+      }
+      shift += (edit.originalEnd - edit.originalStart) - (edit.end - edit.start);
+    }
+    return offset + shift;
+  };
+
+  // 形態素解析の結果に基づく変換
+  const replacements: { start: number; end: number; rule: NormalizeRule; after: string }[] = [];
+  if (policy.longVowel !== 'keep' || policy.auxiliaryVerbs || policy.formalNouns) {
+    const tokens = await tokenize(intermediate);
+    tokens.forEach((token, i) => {
+      // ユーザー辞書の語は表記を変えない
+      if (token.word_type === 'USER') {
+        return;
+      }
+      const surface = token.surface_form;
+      const prev = tokens[i - 1];
+      const hasKanji = [...surface].some(isKanji);
+      const hiragana = token.reading && token.reading !== '*' ? katakanaToHiragana(token.reading) : null;
+
+      if (policy.longVowel !== 'keep' && token.pos === '名詞' && isKatakanaWord(surface) && surface.length >= 2) {
+        const candidate = policy.longVowel === 'add'
+          ? (surface.endsWith('ー') ? null : `${surface}ー`)
+          : (surface.endsWith('ー') && surface.length > 2 ? surface.replace(/ー+$/, '') : null);
+        if (candidate && isKnownWord(candidate)) {
+          replacements.push({ start: token.start, end: token.end, rule: 'long-vowel', after: candidate });
+        }
+        return;
+      }
+
+      const isAuxiliary = (token.pos === '動詞' || token.pos === '形容詞') && (
+        token.pos_detail_1 === '非自立' ||
+        (prev && prev.pos === '助詞' && prev.pos_detail_1 === '接続助詞' && ['て', 'で'].includes(prev.surface_form) && AUXILIARY_VERBS.includes(token.basic_form))
+      );
+      if (policy.auxiliaryVerbs && isAuxiliary && hasKanji && hiragana) {
+        replacements.push({ start: token.start, end: token.end, rule: 'auxiliary-verb', after: hiragana });
+        return;
+      }
+
+      if (policy.formalNouns && token.pos === '名詞' && token.pos_detail_1 === '非自立' && FORMAL_NOUNS.includes(token.basic_form) && hiragana) {
+        replacements.push({ start: token.start, end: token.end, rule: 'formal-noun', after: hiragana });
+      }
+    });
+  }
+
+  // 置き換えを適用
+  const intermediateChars = [...intermediate];
+  const output: string[] = [];
+  let cursor = 0;
+  for (const replacement of replacements) {
+    output.push(intermediateChars.slice(cursor, replacement.start).join(''));
+    output.push(replacement.after);
+    cursor = replacement.end;
+    const start = toOriginal(replacement.start, false);
+    const end = toOriginal(replacement.end, true);
+    changes.push({ rule: replacement.rule, start, end, before: chars.slice(start, end).join(''), after: replacement.after });
+  }
+  output.push(intermediateChars.slice(cursor).join(''));
+
+  return {
+    text: output.join(''),
+    changes: changes.sort((a, b) => a.start - b.start || a.end - b.end)
+  };
+}
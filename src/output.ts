@@ -0,0 +1,540 @@
+import { z } from 'zod';
+
+// ツールの出力形式
+// markdown: 人が読むためのMarkdownテキスト（従来の出力）
+// json: structuredContentと同じ内容をJSON文字列としてテキストにも格納
+// both: Markdownテキストに加えてJSONテキストも返す
+export type OutputFormat = 'markdown' | 'json' | 'both';
+
+// 全ツール共通の出力形式パラメータ
+export const formatParam = z.enum(['markdown', 'json', 'both'])
+  .default('markdown')
+  .describe('出力形式 (markdown: Markdownテキスト, json: JSONテキスト, both: 両方)。structuredContentは常に返されます');
+
+// ツールの結果を組み立てる関数
+// MCPクライアントがstructuredContentに対応していない場合でも値を取り出せるよう、
+// format に応じてテキスト側にもJSONを含める
+export function buildToolResult(markdown: string, data: Record<string, unknown>, format: OutputFormat = 'markdown') {
+  const content: { type: 'text'; text: string }[] = [];
+
+  if (format === 'markdown' || format === 'both') {
+    content.push({ type: 'text' as const, text: markdown });
+  }
+  if (format === 'json' || format === 'both') {
+    content.push({ type: 'text' as const, text: JSON.stringify(data, null, 2) });
+  }
+
+  return {
+    content,
+    structuredContent: data
+  };
+}
+
+// ユーザー辞書の語に一致した箇所（ユーザー辞書を使用した場合のみ）
+const userTermsSchema = z.array(z.object({
+  surface: z.string().describe('語の表記'),
+  pos: z.string().describe('品詞'),
+  reading: z.string().optional().describe('読み'),
+  count: z.number().describe('出現数'),
+  source: z.string().describe('語を定義した辞書')
+})).optional().describe('ユーザー辞書の語に一致した箇所（ユーザー辞書を使用した場合のみ）');
+
+// 文字数カウントの出力スキーマ
+export const charCountOutputSchema = {
+  source: z.string().describe('計測対象（テキストまたはファイルパス）'),
+  rule: z.string().describe('charCount の計数ルール'),
+  charCount: z.number().describe('指定した計数ルールでの文字数（デフォルトは改行・スペースを除いた文字数）'),
+  unit: z.string().describe('単位'),
+  counts: z.array(z.object({
+    rule: z.string().describe('計数ルールのID'),
+    name: z.string().describe('計数ルールの名前'),
+    value: z.number(),
+    unit: z.string(),
+    description: z.string()
+  })).describe('すべての計数ルールでの文字数（文字は書記素クラスタ単位）'),
+  shiftJisUnmappable: z.number().describe('Shift_JISに変換できない文字の数')
+};
+
+// 単語数カウントの出力スキーマ
+export const wordCountOutputSchema = {
+  source: z.string().describe('計測対象（テキストまたはファイルパス）'),
+  language: z.enum(['auto', 'en', 'ja']).describe('計測に使用した言語モード'),
+  wordCount: z.number().describe('単語数（自動判定モードでは言語ごとの単語数の合計）'),
+  unit: z.string().describe('単位'),
+  languageCounts: z.object({
+    ja: z.number(),
+    en: z.number()
+  }).optional().describe('言語ごとの単語数（自動判定モードのみ）'),
+  segments: z.array(z.object({
+    language: z.enum(['ja', 'en']).describe('区間の言語'),
+    text: z.string().describe('区間のテキスト'),
+    start: z.number().describe('計測した本文（Markdownなどは抽出後のテキスト）での開始位置（コードポイント単位、0始まり）'),
+    end: z.number().describe('計測した本文での終了位置（コードポイント単位、この位置を含まない）'),
+    wordCount: z.number().describe('区間の単語数')
+  })).optional().describe('文字種から判定した言語ごとの区間（自動判定モードのみ）'),
+  tokens: z.array(z.object({
+    surface_form: z.string(),
+    pos: z.string(),
+    pos_detail_1: z.string(),
+    reading: z.string().optional(),
+    counted: z.boolean().describe('単語数に含めたかどうか')
+  })).optional().describe('日本語モード・自動判定モードでの形態素解析結果（自動判定モードでは日本語の区間のみ）'),
+  userTerms: userTermsSchema
+};
+
+// 詳細分析の各指標
+const metricSchema = z.object({
+  name: z.string().describe('指標名'),
+  value: z.union([z.number(), z.record(z.number())]).describe('指標の値（比率の指標では項目ごとの値）'),
+  unit: z.string().describe('単位'),
+  description: z.string().describe('指標の説明'),
+  counts: z.record(z.number()).optional().describe('比率の算出に使用した項目ごとの出現数'),
+  targets: z.array(z.object({
+    item: z.string().optional().describe('比率の指標の項目名'),
+    value: z.number().describe('指標（項目）の値'),
+    min: z.number().optional().describe('目標範囲の下限'),
+    max: z.number().optional().describe('目標範囲の上限'),
+    status: z.enum(['within', 'below', 'above']).describe('within: 範囲内, below: 下限を下回る, above: 上限を上回る')
+  })).optional().describe('目標範囲との比較（設定ファイルまたは既定の目標範囲がある指標のみ）')
+});
+
+// 読みやすさの算出結果
+export const readabilitySchema = z.object({
+  method: z.enum(['jreadability', 'tateishi']).describe('算出方式'),
+  score: z.number().nullable().describe('読みやすさのスコア（高いほど読みやすい）。文がない場合はnull'),
+  level: z.string().nullable().describe('レベルのラベル。文がない場合はnull'),
+  higherIsEasier: z.boolean().describe('スコアが高いほど読みやすいかどうか'),
+  intercept: z.number().describe('式の定数項'),
+  components: z.array(z.object({
+    id: z.string().describe('要素ID'),
+    name: z.string().describe('要素名'),
+    value: z.number().describe('要素の値'),
+    unit: z.string().describe('単位'),
+    coefficient: z.number().describe('式の係数'),
+    contribution: z.number().describe('スコアへの寄与（値×係数）')
+  })).describe('スコアを構成する要素')
+});
+
+// 詳細分析の出力スキーマ
+export const analysisOutputSchema = {
+  source: z.string().describe('分析対象（テキストまたはファイルパス）'),
+  summary: z.object({
+    totalChars: z.number().describe('改行・スペースを除いた総文字数'),
+    totalSentences: z.number().describe('文の数'),
+    totalMorphemes: z.number().describe('総形態素数')
+  }),
+  metrics: z.record(metricSchema).describe('指標IDごとの分析結果'),
+  readability: readabilitySchema.describe('読みやすさ'),
+  userTerms: userTermsSchema
+};
+
+// 形態素（トークン）の出力スキーマ
+export const tokenSchema = z.object({
+  index: z.number().describe('テキスト全体でのトークン番号（0始まり）'),
+  surface_form: z.string().describe('表層形'),
+  pos: z.string().describe('品詞'),
+  pos_detail_1: z.string().describe('品詞細分類1'),
+  pos_detail_2: z.string().describe('品詞細分類2'),
+  pos_detail_3: z.string().describe('品詞細分類3'),
+  conjugated_type: z.string().describe('活用型'),
+  conjugated_form: z.string().describe('活用形'),
+  basic_form: z.string().describe('基本形'),
+  reading: z.string().optional().describe('読み'),
+  pronunciation: z.string().optional().describe('発音'),
+  word_id: z.number().describe('辞書内の単語ID'),
+  word_type: z.string().describe('KNOWN（辞書語）、UNKNOWN（未知語）またはUSER（ユーザー辞書の語）'),
+  word_position: z.number().describe('kuromojiが返す開始位置（1始まり）'),
+  start: z.number().describe('開始位置（コードポイント単位、0始まり）'),
+  end: z.number().describe('終了位置（コードポイント単位、この位置を含まない）')
+});
+
+// 形態素解析結果の出力スキーマ
+export const tokenizeOutputSchema = {
+  source: z.string().describe('解析対象（テキストまたはファイルパス）'),
+  totalTokens: z.number().describe('フィルタ適用前の総トークン数'),
+  matchedTokens: z.number().describe('フィルタ適用後のトークン数'),
+  offset: z.number().describe('返却したトークンの開始番号（フィルタ適用後の位置）'),
+  limit: z.number().describe('1回で返却するトークンの最大数'),
+  hasMore: z.boolean().describe('続きのトークンがあるかどうか'),
+  nextOffset: z.number().nullable().describe('続きを取得する際に指定するoffset'),
+  tokens: z.array(tokenSchema),
+  userTerms: userTermsSchema
+};
+
+// 校正結果の出力スキーマ
+export const lintOutputSchema = {
+  source: z.string().describe('校正対象（テキストまたはファイルパス）'),
+  appliedRules: z.array(z.string()).describe('適用したルールID'),
+  summary: z.object({
+    total: z.number(),
+    error: z.number(),
+    warning: z.number(),
+    info: z.number()
+  }).describe('重要度ごとの指摘数'),
+  diagnostics: z.array(z.object({
+    ruleId: z.string().describe('ルールID'),
+    severity: z.enum(['error', 'warning', 'info']).describe('重要度'),
+    message: z.string().describe('指摘内容'),
+    start: z.number().describe('開始位置（コードポイント単位、0始まり）'),
+    end: z.number().describe('終了位置（コードポイント単位、この位置を含まない）'),
+    line: z.number().describe('開始行（1始まり）'),
+    column: z.number().describe('開始列（1始まり、コードポイント単位）'),
+    endLine: z.number().describe('終了行（1始まり）'),
+    endColumn: z.number().describe('終了列（1始まり、この位置を含まない）'),
+    suggestion: z.string().optional().describe('修正の提案'),
+    fix: z.object({
+      start: z.number(),
+      end: z.number(),
+      replacement: z.string()
+    }).optional().describe('自動修正案（start〜endをreplacementに置き換える）')
+  })),
+  userTerms: userTermsSchema
+};
+
+// 文体の判定結果（文ごと）
+const sentenceStyleSchema = z.object({
+  index: z.number().describe('文の番号（0始まり）'),
+  text: z.string().describe('文'),
+  start: z.number().describe('開始位置（コードポイント単位、0始まり）'),
+  end: z.number().describe('終了位置（コードポイント単位、この位置を含まない）'),
+  line: z.number().describe('開始行（1始まり）'),
+  column: z.number().describe('開始列（1始まり、コードポイント単位）'),
+  style: z.enum(['polite', 'plain', 'noun-ending', 'unknown']).describe('文体 (polite: 敬体, plain: 常体, noun-ending: 体言止め, unknown: 不明)'),
+  ending: z.string().describe('判定の根拠となった文末表現')
+});
+
+// 文体チェックの出力スキーマ
+export const styleOutputSchema = {
+  source: z.string().describe('分析対象（テキストまたはファイルパス）'),
+  dominantStyle: z.enum(['polite', 'plain']).nullable().describe('敬体・常体のうち多数派の文体'),
+  baseStyle: z.enum(['polite', 'plain']).nullable().describe('混在の判定に使用した基準の文体'),
+  politeRatio: z.number().nullable().describe('敬体・常体の文に占める敬体の割合（%）。敬体・常体の文がない場合はnull'),
+  counts: z.object({
+    'polite': z.number(),
+    'plain': z.number(),
+    'noun-ending': z.number(),
+    'unknown': z.number()
+  }).describe('文体ごとの文の数'),
+  inconsistentSentences: z.array(sentenceStyleSchema).describe('基準の文体と異なる文（敬体と常体が同数で基準を決められない場合は、敬体・常体のすべての文）'),
+  sentences: z.array(sentenceStyleSchema).describe('すべての文の判定結果'),
+  userTerms: userTermsSchema
+};
+
+// 読みやすさの出力スキーマ
+export const readabilityOutputSchema = {
+  source: z.string().describe('分析対象（テキストまたはファイルパス）'),
+  overall: readabilitySchema.extend({
+    sentenceCount: z.number().describe('文の数')
+  }).describe('テキスト全体の読みやすさ'),
+  paragraphs: z.array(readabilitySchema.extend({
+    index: z.number().describe('段落の番号（0始まり）'),
+    start: z.number().describe('開始位置（コードポイント単位、0始まり）'),
+    end: z.number().describe('終了位置（コードポイント単位、この位置を含まない）'),
+    line: z.number().describe('開始行（1始まり）'),
+    excerpt: z.string().describe('段落の冒頭'),
+    sentenceCount: z.number().describe('文の数')
+  })).optional().describe('段落ごとの読みやすさ'),
+  userTerms: userTermsSchema
+};
+
+// 漢字の区分ごとの数
+const kanjiCategoryCountsSchema = z.object({
+  kyoiku: z.number().describe('教育漢字'),
+  joyo: z.number().describe('教育漢字以外の常用漢字'),
+  jinmeiyo: z.number().describe('人名用漢字'),
+  hyogai: z.number().describe('表外漢字')
+});
+
+// 漢字の難易度分析の出力スキーマ
+export const kanjiProfileOutputSchema = {
+  source: z.string().describe('分析対象（テキストまたはファイルパス）'),
+  totalKanji: z.number().describe('漢字の延べ数'),
+  uniqueKanji: z.number().describe('漢字の異なり数'),
+  categories: kanjiCategoryCountsSchema.describe('区分ごとの延べ数'),
+  uniqueCategories: kanjiCategoryCountsSchema.describe('区分ごとの異なり数'),
+  grades: z.record(z.number()).describe('教育漢字の学年（1〜6）ごとの延べ数'),
+  jlpt: z.record(z.number()).describe('JLPTの級（N5〜N1、none: 該当なし）ごとの延べ数'),
+  rareThreshold: z.string().describe('この段階より難しい漢字を稀な漢字として一覧にした'),
+  rareKanji: z.array(z.object({
+    kanji: z.string(),
+    category: z.enum(['kyoiku', 'joyo', 'jinmeiyo', 'hyogai']),
+    grade: z.number().nullable().describe('教育漢字の学年'),
+    jlpt: z.string().nullable().describe('JLPTの級'),
+    count: z.number().describe('出現回数'),
+    occurrences: z.array(z.object({
+      start: z.number().describe('開始位置（コードポイント単位、0始まり）'),
+      end: z.number().describe('終了位置（コードポイント単位、この位置を含まない）'),
+      line: z.number().describe('行（1始まり）'),
+      column: z.number().describe('列（1始まり、コードポイント単位）'),
+      word: z.string().describe('漢字を含む語'),
+      reading: z.string().nullable().describe('語の読み（ひらがな、ふりがなの候補）')
+    }))
+  })).describe('稀な漢字の一覧（出現位置と読みの候補）'),
+  userTerms: userTermsSchema
+};
+
+// add_furigana の出力スキーマ
+export const furiganaOutputSchema = {
+  source: z.string().describe('変換対象（テキストまたはファイルパス）'),
+  mode: z.enum(['ruby', 'hiragana', 'katakana', 'romaji']).describe('変換の種類'),
+  rubyFormat: z.enum(['html', 'aozora', 'braces']).describe('ルビの表記形式（mode: ruby の場合）'),
+  minDifficulty: z.string().describe('この段階以上の漢字を含む部分にルビを振った'),
+  result: z.string().describe('変換後のテキスト'),
+  annotations: z.array(z.object({
+    start: z.number().describe('開始位置（コードポイント単位、0始まり）'),
+    end: z.number().describe('終了位置（コードポイント単位、この位置を含まない）'),
+    base: z.string().describe('元の表記（ルビの親文字）'),
+    reading: z.string().describe('読み')
+  })).describe('読みを付与・変換した箇所'),
+  unknownWords: z.array(z.string()).describe('読みが得られなかった漢字を含む語'),
+  userTerms: userTermsSchema
+};
+
+// split_sentences の出力スキーマ
+export const sentenceSplitOutputSchema = {
+  source: z.string().describe('分割対象（テキストまたはファイルパス）'),
+  totalSentences: z.number().describe('文の数'),
+  sentences: z.array(z.object({
+    index: z.number().describe('文の番号（0始まり）'),
+    text: z.string().describe('文のテキスト'),
+    start: z.number().describe('開始位置（コードポイント単位、0始まり）'),
+    end: z.number().describe('終了位置（コードポイント単位、この位置を含まない）'),
+    line: z.number().describe('開始行（1始まり）'),
+    column: z.number().describe('開始列（1始まり、コードポイント単位）'),
+    endLine: z.number().describe('終了行（1始まり）'),
+    endColumn: z.number().describe('終了列（1始まり、コードポイント単位、この位置を含まない）'),
+    length: z.number().describe('文の長さ（コードポイント単位）'),
+    unclosedBrackets: z.array(z.object({
+      bracket: z.string().describe('開き括弧'),
+      start: z.number().describe('位置（コードポイント単位、0始まり）'),
+      line: z.number().describe('行（1始まり）'),
+      column: z.number().describe('列（1始まり、コードポイント単位）')
+    })).describe('行の終わりまでに閉じていない開き括弧（文の区切りの判定では括弧として扱わない）')
+  }))
+};
+
+// 原稿用紙のレイアウトの出力スキーマ
+export const manuscriptOutputSchema = {
+  source: z.string().describe('計算対象（テキストまたはファイルパス）'),
+  columns: z.number().describe('1行のマス数'),
+  rows: z.number().describe('1枚の行数'),
+  cellsPerPage: z.number().describe('1枚のマス数'),
+  pages: z.number().describe('枚数'),
+  totalLines: z.number().describe('行数（空行・字下げを含む）'),
+  lastPageLines: z.number().describe('最後の1枚で使用した行数'),
+  lastPageFill: z.number().describe('最後の1枚で使用した行の割合（%）'),
+  usedCells: z.number().describe('使用したマス数（字下げ・ぶら下げを含む）'),
+  kinsokuAdjustments: z.number().describe('禁則処理（ぶら下げ・追い出し・追い込み）を行った箇所の数'),
+  rendered: z.string().optional().describe('マス目の描画結果（render: true の場合）')
+};
+
+// 指標の統計量のスキーマ
+const metricStatisticsSchema = z.object({
+  count: z.number().describe('統計量の算出に使ったファイルの数（値がnullのファイルを除く）'),
+  mean: z.number().describe('平均'),
+  stdDev: z.number().describe('標準偏差'),
+  min: z.number().describe('最小値'),
+  max: z.number().describe('最大値')
+});
+
+// ディレクトリ分析の出力スキーマ
+export const directoryAnalysisOutputSchema = {
+  source: z.string().describe('分析対象のディレクトリ'),
+  include: z.array(z.string()).describe('対象としたファイルのパターン'),
+  exclude: z.array(z.string()).describe('除外したファイルのパターン'),
+  readabilityMethod: z.string().describe('読みやすさの算出方式'),
+  files: z.array(z.object({
+    path: z.string().describe('ディレクトリからの相対パス'),
+    encoding: z.string().describe('判定した文字コード'),
+    inputFormat: z.string().describe('本文の抽出に使用した入力形式'),
+    chars: z.number().describe('文字数（空白・改行を除く）'),
+    sentences: z.number().describe('文の数'),
+    morphemes: z.number().describe('形態素数'),
+    averageSentenceLength: z.number().nullable().describe('平均文長（文字／文）。文がない場合はnull'),
+    readabilityScore: z.number().nullable().describe('読みやすさのスコア。文がない場合はnull'),
+    readabilityLevel: z.string().nullable().describe('読みやすさのレベル。文がない場合はnull'),
+    politeRatio: z.number().nullable().describe('敬体・常体の文に占める敬体の割合（%）。敬体・常体の文がない場合はnull'),
+    dominantStyle: z.enum(['polite', 'plain']).nullable().describe('多数派の文体'),
+    outliers: z.array(z.object({
+      metric: z.string().describe('指標のID'),
+      value: z.number(),
+      zScore: z.number().describe('標準得点（(値 - 平均) / 標準偏差）')
+    })).describe('コーパスの平均から外れている指標')
+  })).describe('ファイルごとの分析結果（sortBy の順）'),
+  errors: z.array(z.object({
+    path: z.string().describe('ディレクトリからの相対パス'),
+    message: z.string()
+  })).describe('読み込み・分析に失敗したファイル'),
+  truncated: z.boolean().describe('maxFiles を超えたため一部のファイルを分析していないかどうか'),
+  aggregate: z.object({
+    totalFiles: z.number().describe('分析したファイルの数'),
+    totalChars: z.number().describe('総文字数（空白・改行を除く）'),
+    totalSentences: z.number().describe('文の総数'),
+    totalMorphemes: z.number().describe('形態素の総数'),
+    averageSentenceLength: z.number().nullable().describe('コーパス全体の平均文長（文字／文）。文がない場合はnull'),
+    politeRatio: z.number().nullable().describe('コーパス全体で敬体・常体の文に占める敬体の割合（%）。敬体・常体の文がない場合はnull'),
+    styleCounts: z.record(z.number()).describe('コーパス全体の文体ごとの文の数'),
+    statistics: z.record(metricStatisticsSchema).describe('ファイルごとの指標の統計量（chars, sentences, averageSentenceLength, readabilityScore, politeRatio）。算出できなかったファイル（値がnull）は含めない')
+  }).describe('コーパス全体の集計'),
+  outlierThreshold: z.number().describe('外れ値とする標準得点の絶対値の下限'),
+  userTerms: userTermsSchema
+};
+
+// 指標の変化のスキーマ
+const metricDeltaSchema = z.object({
+  before: z.number().describe('変更前の値'),
+  after: z.number().describe('変更後の値'),
+  delta: z.number().describe('変化量（変更後 - 変更前）'),
+  percentChange: z.number().nullable().describe('変化率（%）。変更前の値が0の場合はnull')
+});
+
+// 語彙の変化のスキーマ
+const vocabularyChangeSchema = z.object({
+  word: z.string().describe('基本形'),
+  before: z.number().describe('変更前の出現数'),
+  after: z.number().describe('変更後の出現数')
+});
+
+// テキスト比較の出力スキーマ
+export const compareOutputSchema = {
+  before: z.string().describe('変更前の比較対象（テキストまたはファイルパス）'),
+  after: z.string().describe('変更後の比較対象（テキストまたはファイルパス）'),
+  summary: z.object({
+    totalChars: metricDeltaSchema.describe('総文字数（空白・改行を除く）'),
+    totalSentences: metricDeltaSchema.describe('文の数'),
+    totalMorphemes: metricDeltaSchema.describe('総形態素数')
+  }),
+  readability: z.object({
+    method: z.string().describe('読みやすさの算出方式'),
+    before: z.number().nullable().describe('変更前のスコア。文がない場合はnull'),
+    after: z.number().nullable().describe('変更後のスコア。文がない場合はnull'),
+    delta: z.number().nullable().describe('変化量（変更後 - 変更前）。どちらかのスコアがnullの場合はnull'),
+    percentChange: z.number().nullable().describe('変化率（%）。変更前の値が0の場合や、どちらかのスコアがnullの場合はnull'),
+    beforeLevel: z.string().nullable().describe('変更前のレベル'),
+    afterLevel: z.string().nullable().describe('変更後のレベル'),
+    improved: z.boolean().nullable().describe('読みやすくなったかどうか（スコアの向きを考慮）。どちらかのスコアがnullの場合はnull')
+  }).describe('読みやすさのスコアの変化'),
+  metrics: z.record(z.object({
+    name: z.string().describe('指標の名前'),
+    unit: z.string().describe('単位'),
+    change: metricDeltaSchema.optional().describe('数値の指標の変化'),
+    items: z.record(metricDeltaSchema).optional().describe('比率の指標の項目ごとの変化（%）')
+  })).describe('analyze_text の指標ごとの変化'),
+  vocabulary: z.object({
+    added: z.array(vocabularyChangeSchema).describe('変更後にのみ現れる語'),
+    removed: z.array(vocabularyChangeSchema).describe('変更前にのみ現れる語'),
+    changed: z.array(vocabularyChangeSchema).describe('出現数が変わった語')
+  }).describe('語彙（基本形、記号を除く）の変化'),
+  alignment: z.array(z.object({
+    type: z.enum(['unchanged', 'changed', 'split', 'merged', 'added', 'removed']).describe('対応の種類'),
+    before: z.array(z.number()).describe('変更前の文の番号（0始まり）'),
+    after: z.array(z.number()).describe('変更後の文の番号（0始まり）'),
+    similarity: z.number().describe('文字のバイグラムによる類似度（0〜1）'),
+    beforeText: z.array(z.string()).describe('変更前の文'),
+    afterText: z.array(z.string()).describe('変更後の文')
+  })).describe('文の対応（変更後の文の順）'),
+  alignmentCounts: z.record(z.number()).describe('対応の種類ごとの数'),
+  userTerms: userTermsSchema
+};
+
+// 元のテキストでの範囲のスキーマ
+const rangeSchema = z.object({
+  start: z.number().describe('開始位置（コードポイント単位、0始まり）'),
+  end: z.number().describe('終了位置（コードポイント単位、この位置を含まない）'),
+  line: z.number().describe('開始行（1始まり）'),
+  column: z.number().describe('開始列（1始まり、コードポイント単位）'),
+  endLine: z.number().describe('終了行（1始まり）'),
+  endColumn: z.number().describe('終了列（1始まり、コードポイント単位、この位置を含まない）')
+});
+
+// n-gram・コロケーションのスキーマ
+const phraseCountSchema = z.object({
+  phrase: z.string().describe('n-gram（形態素を空白で区切ったもの）またはコロケーション'),
+  parts: z.array(z.string()).describe('構成する形態素（コロケーションは名詞・助詞・動詞の基本形）'),
+  count: z.number().describe('出現数'),
+  positions: z.array(rangeSchema).describe('出現位置（maxPositions件まで）')
+});
+
+// キーワード抽出の出力スキーマ
+export const keywordsOutputSchema = {
+  source: z.string().describe('抽出対象（テキストまたはファイルパス）'),
+  background: z.string().describe('TF-IDFの背景'),
+  scoring: z.enum(['frequency', 'flr', 'tfidf']).describe('キーワードの並べ替えの基準'),
+  totalTerms: z.number().describe('抽出した複合名詞の種類の数'),
+  keywords: z.array(z.object({
+    term: z.string().describe('複合名詞'),
+    components: z.array(z.string()).describe('構成する単名詞'),
+    count: z.number().describe('出現数'),
+    flr: z.number().describe('FLRスコア（出現数 × 構成語の左右の連接の多さの相乗平均）'),
+    tfidf: z.number().describe('TF-IDF（出現数 × 背景コーパスでの珍しさ）'),
+    documentFrequency: z.number().optional().describe('背景のディレクトリで語を含むファイルの数'),
+    positions: z.array(rangeSchema).describe('出現位置（maxPositions件まで）')
+  })).describe('キーワード（scoring の順）'),
+  ngrams: z.array(phraseCountSchema).describe('形態素のn-gram（出現数の順）'),
+  collocations: z.array(phraseCountSchema).describe('名詞＋助詞＋動詞のコロケーション（出現数の順）'),
+  userTerms: userTermsSchema
+};
+
+// 表記ゆれの検出の出力スキーマ
+export const variantsOutputSchema = {
+  source: z.string().describe('検出対象（テキストまたはファイルパス）'),
+  totalGroups: z.number().describe('表記ゆれのまとまりの数'),
+  groups: z.array(z.object({
+    kind: z.enum(['width', 'long-vowel', 'okurigana', 'kana-kanji', 'kana'])
+      .describe('表記ゆれの種類 (width: 全角・半角, long-vowel: 長音符, okurigana: 送り仮名, kana-kanji: 漢字・かな, kana: ひらがな・カタカナ)'),
+    dominant: z.string().describe('最も多く使われている表記（統一先の候補）'),
+    total: z.number().describe('まとまり全体の出現数'),
+    variants: z.array(z.object({
+      spelling: z.string().describe('表記（活用する語は基本形）'),
+      count: z.number().describe('出現数'),
+      positions: z.array(rangeSchema).describe('出現位置（maxPositions件まで）')
+    })).describe('表記ごとの出現（出現数の多い順）')
+  })).describe('表記ゆれのまとまり（出現数の多い順）'),
+  userTerms: userTermsSchema
+};
+
+// テキストの正規化の出力スキーマ
+export const normalizeOutputSchema = {
+  text: z.string().describe('正規化後のテキスト'),
+  policy: z.object({
+    nfkc: z.boolean(),
+    alphanumeric: z.enum(['halfwidth', 'fullwidth', 'keep']),
+    katakana: z.enum(['fullwidth', 'keep']),
+    longVowel: z.enum(['add', 'remove', 'keep']),
+    auxiliaryVerbs: z.boolean(),
+    formalNouns: z.boolean()
+  }).describe('適用した正規化の方針'),
+  totalChanges: z.number().describe('変更箇所の数'),
+  ruleCounts: z.record(z.number()).describe('ルールごとの変更箇所の数'),
+  changes: z.array(z.object({
+    rule: z.enum(['nfkc', 'alphanumeric', 'katakana', 'long-vowel', 'auxiliary-verb', 'formal-noun']).describe('適用したルール'),
+    start: z.number().describe('元のテキストでの開始位置（コードポイント単位、0始まり）'),
+    end: z.number().describe('元のテキストでの終了位置（コードポイント単位、この位置を含まない）'),
+    line: z.number().describe('元のテキストでの行（1始まり）'),
+    column: z.number().describe('元のテキストでの列（1始まり、コードポイント単位）'),
+    before: z.string().describe('変更前の文字列'),
+    after: z.string().describe('変更後の文字列')
+  })).describe('変更箇所（元のテキストの位置の順）'),
+  userTerms: userTermsSchema
+};
+
+// 固有表現の抽出の出力スキーマ
+export const entitiesOutputSchema = {
+  source: z.string().describe('抽出対象（テキストまたはファイルパス）'),
+  types: z.array(z.enum(['person', 'place', 'organization', 'other'])).describe('抽出した固有表現の種類'),
+  totalEntities: z.number().describe('固有表現の種類の数（表記と種類が同じものは1つ）'),
+  totalMentions: z.number().describe('固有表現の出現数の合計'),
+  typeCounts: z.record(z.number()).describe('種類ごとの固有表現の数'),
+  entities: z.array(z.object({
+    text: z.string().describe('固有表現の表記'),
+    type: z.enum(['person', 'place', 'organization', 'other'])
+      .describe('種類 (person: 人名, place: 地名, organization: 組織名, other: その他の固有名詞)'),
+    reading: z.string().optional().describe('読み（カタカナ。読みのない形態素を含む場合は省略）'),
+    components: z.array(z.string()).describe('構成する形態素（姓・名、都道府県・市区町村など）'),
+    count: z.number().describe('出現数'),
+    mask: z.string().optional().describe('マスクに使った文字列（mask を指定した場合のみ）'),
+    positions: z.array(rangeSchema).describe('出現位置（maxPositions件まで）')
+  })).describe('固有表現（出現数の多い順）'),
+  maskedText: z.string().optional().describe('固有表現をマスクした元のテキスト（mask を指定した場合のみ）'),
+  userTerms: userTermsSchema
+};
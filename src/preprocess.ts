@@ -0,0 +1,622 @@
+import * as path from 'path';
+import { LineColumn, countCodePoints, createLineColumnLocator } from './tokens.js';
+
+// 入力の形式
+// auto: ファイルの拡張子から判定（テキストの場合はplain）
+export const INPUT_FORMATS = ['auto', 'plain', 'markdown', 'html', 'review', 'latex'] as const;
+export type InputFormat = typeof INPUT_FORMATS[number];
+export type DocumentFormat = Exclude<InputFormat, 'auto'>;
+
+// 形式の表示名
+export const DOCUMENT_FORMAT_LABELS: Record<DocumentFormat, string> = {
+  plain: 'プレーンテキスト',
+  markdown: 'Markdown',
+  html: 'HTML',
+  review: 'Re:VIEW',
+  latex: 'LaTeX'
+};
+
+// 拡張子と形式の対応
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.mdx': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.xhtml': 'html',
+  '.re': 'review',
+  '.tex': 'latex'
+};
+
+// ファイルの拡張子から形式を判定する関数
+export function detectInputFormat(filePath?: string): DocumentFormat {
+  if (!filePath) {
+    return 'plain';
+  }
+  return EXTENSION_FORMATS[path.extname(filePath).toLowerCase()] || 'plain';
+}
+
+// 抽出後のテキストの位置を元のテキストの位置に対応付ける
+// 位置はいずれもコードポイント単位
+export interface SourceMap {
+  // 開始位置を変換する
+  toOriginal(offset: number): number;
+  // 終了位置（この位置を含まない）を変換する
+  toOriginalEnd(offset: number): number;
+  // 開始位置を元のテキストの行・列（1始まり）に変換する
+  locate(offset: number): LineColumn;
+  // 終了位置を元のテキストの行・列（1始まり）に変換する
+  locateEnd(offset: number): LineColumn;
+}
+
+// 抽出後のテキストの範囲を、元のテキストの位置と行・列に変換する関数
+export function toOriginalRange(sourceMap: SourceMap, start: number, end: number) {
+  const from = sourceMap.locate(start);
+  const to = sourceMap.locateEnd(end);
+  return {
+    start: sourceMap.toOriginal(start),
+    end: sourceMap.toOriginalEnd(end),
+    line: from.line,
+    column: from.column,
+    endLine: to.line,
+    endColumn: to.column
+  };
+}
+
+// 前処理の結果
+export interface PreparedText {
+  // 抽出した本文
+  text: string;
+  format: DocumentFormat;
+  sourceMap: SourceMap;
+}
+
+// 抽出後のテキストの区間と元のテキストの区間の対応
+// inserted: 置換によって挿入された文字列（改行や実体参照の展開結果）
+interface MappedSegment {
+  start: number;
+  length: number;
+  originalStart: number;
+  originalEnd: number;
+  inserted: boolean;
+}
+
+// 変換しない場合の対応付け
+export function createIdentitySourceMap(text: string): SourceMap {
+  const locate = createLineColumnLocator(text);
+  return {
+    toOriginal: offset => offset,
+    toOriginalEnd: offset => offset,
+    locate,
+    locateEnd: locate
+  };
+}
+
+// 区間の一覧から対応付けを作成する
+function createSourceMap(originalText: string, segments: MappedSegment[]): SourceMap {
+  const locateOriginal = createLineColumnLocator(originalText);
+
+  // offsetを含む区間を二分探索で探す（endの場合は直前の区間の終わりを優先する）
+  const findSegment = (offset: number, isEnd: boolean) => {
+    let low = 0;
+    let high = segments.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (isEnd ? segments[mid].start < offset : segments[mid].start <= offset) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return found >= 0 ? segments[found] : null;
+  };
+
+  const toOriginal = (offset: number) => {
+    const segment = findSegment(offset, false);
+    if (!segment) {
+      return segments.length > 0 ? segments[0].originalStart : 0;
+    }
+    if (segment.inserted) {
+      return offset >= segment.start + segment.length ? segment.originalEnd : segment.originalStart;
+    }
+    return segment.originalStart + Math.min(offset - segment.start, segment.length);
+  };
+
+  const toOriginalEnd = (offset: number) => {
+    const segment = findSegment(offset, true);
+    if (!segment) {
+      return toOriginal(offset);
+    }
+    if (segment.inserted) {
+      return segment.originalEnd;
+    }
+    return segment.originalStart + Math.min(offset - segment.start, segment.length);
+  };
+
+  return {
+    toOriginal,
+    toOriginalEnd,
+    locate: offset => locateOriginal(toOriginal(offset)),
+    locateEnd: offset => locateOriginal(toOriginalEnd(offset))
+  };
+}
+
+// 抽出の作業状態
+// 元のテキストを直接書き換えず、削除する文字と置換する文字列を記録して位置の対応を保つ
+// 位置はUTF-16単位（String.prototype.indexなどと同じ）
+interface Extraction {
+  source: string;
+  removed: Uint8Array;
+  replacements: Map<number, { text: string; end: number }>;
+}
+
+function createExtraction(source: string): Extraction {
+  return { source, removed: new Uint8Array(source.length), replacements: new Map() };
+}
+
+// start〜endを削除する（範囲内の置換も取り消す）
+function remove(extraction: Extraction, start: number, end: number) {
+  extraction.removed.fill(1, start, end);
+  if (extraction.replacements.size > 0) {
+    for (let i = start; i < end; i++) {
+      extraction.replacements.delete(i);
+    }
+  }
+}
+
+// start〜endを別の文字列に置き換える
+function replace(extraction: Extraction, start: number, end: number, text: string) {
+  remove(extraction, start, end);
+  extraction.replacements.set(start, { text, end });
+}
+
+// 削除済みの文字を \0 に置き換えた作業用のテキスト（位置は元のテキストと同じ）
+// 改行は行単位の正規表現が使えるように残す
+function masked(extraction: Extraction): string {
+  const { source, removed } = extraction;
+  let result = '';
+  for (let i = 0; i < source.length; i++) {
+    result += removed[i] && source[i] !== '\n' ? '\0' : source[i];
+  }
+  return result;
+}
+
+// 正規表現に一致した箇所ごとに処理を行う（作業用のテキストに対して照合する）
+// callbackには照合に使った作業用のテキストも渡す
+function eachMatch(extraction: Extraction, pattern: RegExp, callback: (match: RegExpExecArray, text: string) => void) {
+  const text = masked(extraction);
+  for (const match of text.matchAll(pattern)) {
+    callback(match as RegExpExecArray, text);
+  }
+}
+
+// 一致した箇所を削除する
+function removeMatches(extraction: Extraction, pattern: RegExp) {
+  eachMatch(extraction, pattern, match => remove(extraction, match.index, match.index + match[0].length));
+}
+
+// 一致した箇所のうち、指定したグループだけを残す
+function keepGroup(extraction: Extraction, pattern: RegExp, group: number = 1) {
+  eachMatch(extraction, pattern, match => {
+    const start = match.index;
+    const end = start + match[0].length;
+    const inner = match[group] === undefined ? -1 : match[0].indexOf(match[group]);
+    if (inner < 0) {
+      remove(extraction, start, end);
+      return;
+    }
+    remove(extraction, start, start + inner);
+    remove(extraction, start + inner + match[group].length, end);
+  });
+}
+
+// 3行以上続く空行を1行にまとめ、先頭の空行を取り除く
+function collapseBlankLines(extraction: Extraction) {
+  const { source, removed, replacements } = extraction;
+  let newlines = 2;
+  for (let i = 0; i < source.length; i++) {
+    const replacement = replacements.get(i);
+    if (replacement) {
+      let text = '';
+      for (const char of replacement.text) {
+        if (char === '\n') {
+          newlines++;
+          if (newlines <= 2) {
+            text += char;
+          }
+        } else {
+          if (!/[ \t\r]/.test(char)) {
+            newlines = 0;
+          }
+          text += char;
+        }
+      }
+      replacement.text = text;
+    }
+    if (removed[i]) {
+      continue;
+    }
+    if (source[i] === '\n') {
+      newlines++;
+      if (newlines > 2) {
+        removed[i] = 1;
+      }
+    } else if (!/[ \t\r]/.test(source[i])) {
+      newlines = 0;
+    }
+  }
+}
+
+// 抽出結果のテキストと位置の対応を作成する
+function build(extraction: Extraction): { text: string; segments: MappedSegment[] } {
+  const { source, removed, replacements } = extraction;
+  const segments: MappedSegment[] = [];
+  let text = '';
+  let offset = 0;
+  let originalOffset = 0;
+
+  for (let i = 0; i < source.length;) {
+    const replacement = replacements.get(i);
+    if (replacement && replacement.text !== '') {
+      const length = countCodePoints(replacement.text);
+      segments.push({
+        start: offset,
+        length,
+        originalStart: originalOffset,
+        originalEnd: originalOffset + countCodePoints(source.slice(i, replacement.end)),
+        inserted: true
+      });
+      text += replacement.text;
+      offset += length;
+    }
+
+    const char = String.fromCodePoint(source.codePointAt(i));
+    if (!removed[i]) {
+      const last = segments[segments.length - 1];
+      if (last && !last.inserted && last.start + last.length === offset && last.originalEnd === originalOffset) {
+        last.length++;
+        last.originalEnd++;
+      } else {
+        segments.push({ start: offset, length: 1, originalStart: originalOffset, originalEnd: originalOffset + 1, inserted: false });
+      }
+      text += char;
+      offset++;
+    }
+    originalOffset++;
+    i += char.length;
+  }
+
+  return { text, segments };
+}
+
+// HTMLの文字実体参照
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ensp: ' ', emsp: '　',
+  hellip: '…', mdash: '—', ndash: '–', laquo: '«', raquo: '»', copy: '©', reg: '®', times: '×'
+};
+
+// 文字実体参照・数値文字参照を展開する
+function decodeEntities(extraction: Extraction) {
+  eachMatch(extraction, /&(#[xX][0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, match => {
+    const name = match[1];
+    let decoded: string | undefined;
+    if (name.startsWith('#')) {
+      const code = /^#[xX]/.test(name) ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      decoded = code > 0 && code <= 0x10FFFF ? String.fromCodePoint(code) : undefined;
+    } else {
+      decoded = HTML_ENTITIES[name];
+    }
+    if (decoded !== undefined) {
+      replace(extraction, match.index, match.index + match[0].length, decoded);
+    }
+  });
+}
+
+// ブロック要素（前後で改行する要素）
+const HTML_BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'br', 'caption', 'dd', 'details', 'div', 'dl', 'dt',
+  'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr',
+  'li', 'main', 'nav', 'ol', 'p', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th',
+  'thead', 'tr', 'ul'
+]);
+
+// タグを取り除く（ブロック要素は改行に置き換える）
+function removeHtmlTags(extraction: Extraction) {
+  eachMatch(extraction, /<\/?([a-zA-Z][\w-]*)\b[^>]*>/g, match => {
+    const end = match.index + match[0].length;
+    if (HTML_BLOCK_ELEMENTS.has(match[1].toLowerCase())) {
+      replace(extraction, match.index, end, '\n');
+    } else {
+      remove(extraction, match.index, end);
+    }
+  });
+}
+
+// HTMLから本文を抽出する
+function extractHtml(extraction: Extraction) {
+  removeMatches(extraction, /<!--[\s\S]*?-->/g);
+  removeMatches(extraction, /<!\[CDATA\[[\s\S]*?\]\]>/g);
+  removeMatches(extraction, /<![^>]*>/g);
+  // 本文ではない要素と、ルビの読み（rt・rp）を取り除く
+  removeMatches(extraction, /<(script|style|head|noscript|template|svg|pre|code|rt|rp)\b[^>]*>[\s\S]*?<\/\1\s*>/gi);
+
+  // ソース上の改行は表示上の改行ではないため、日本語の間では詰め、それ以外は空白1つにする
+  eachMatch(extraction, /[ \t\r]*\n[ \t\r\n]*/g, (match, text) => {
+    const before = text[match.index - 1];
+    const after = text[match.index + match[0].length];
+    const isEdge = (char: string | undefined) => char === undefined || char === '>' || char === '<' || char === '\0';
+    const isAscii = (char: string) => /^[\x21-\x7E]$/.test(char);
+    if (isEdge(before) || isEdge(after) || !isAscii(before) || !isAscii(after)) {
+      remove(extraction, match.index, match.index + match[0].length);
+    } else {
+      replace(extraction, match.index, match.index + match[0].length, ' ');
+    }
+  });
+
+  removeHtmlTags(extraction);
+  decodeEntities(extraction);
+}
+
+// Markdownから本文を抽出する
+function extractMarkdown(extraction: Extraction) {
+  // フロントマター（YAML・TOML）
+  removeMatches(extraction, /^(---|\+\+\+)[ \t]*\r?\n[\s\S]*?\r?\n\1[ \t]*(?=\r?\n|$)/g);
+  // コードブロック
+  removeMatches(extraction, /^[ \t]*(`{3,}|~{3,})[^\n]*\n[\s\S]*?^[ \t]*\1[`~]*[ \t]*$/gm);
+  // HTMLのコメント
+  removeMatches(extraction, /<!--[\s\S]*?-->/g);
+  // インラインコード（文が途切れないように中身を残す。中身はほかの記法として扱わない）
+  eachMatch(extraction, /(`+)([^`\n][^\n]*?)\1(?!`)/g, match => {
+    const code = /^ .* $/.test(match[2]) && match[2].trim() !== '' ? match[2].slice(1, -1) : match[2];
+    replace(extraction, match.index, match.index + match[0].length, code);
+  });
+  // 脚注（定義は記号だけを取り除いて本文を残し、参照は取り除く）
+  removeMatches(extraction, /^[ \t]{0,3}\[\^[^\]\n]+\]:[ \t]*/gm);
+  removeMatches(extraction, /\[\^[^\]\n]+\]/g);
+  // 画像
+  removeMatches(extraction, /!\[[^\]\n]*\](\([^)\n]*\)|\[[^\]\n]*\])/g);
+  // リンクの定義
+  removeMatches(extraction, /^[ \t]{0,3}\[[^\]\n]+\]:[ \t]*\S+.*$/gm);
+  // リンク（リンクテキストだけを残す）
+  keepGroup(extraction, /\[([^\]\n]+)\](\([^)\n]*\)|\[[^\]\n]*\])/g);
+  // URL
+  removeMatches(extraction, /<(https?:\/\/|mailto:)[^>\s]+>/g);
+  removeMatches(extraction, /https?:\/\/[^\s<>)\]）」]+/g);
+  // インラインのHTMLタグ
+  eachMatch(extraction, /<br\s*\/?>/gi, match => replace(extraction, match.index, match.index + match[0].length, '\n'));
+  removeMatches(extraction, /<\/?[a-zA-Z][\w-]*\b[^>\n]*>/g);
+
+  // 区切り線・見出しの下線
+  removeMatches(extraction, /^[ \t]{0,3}([*_-])([ \t]*\1){2,}[ \t]*$/gm);
+  removeMatches(extraction, /^[ \t]{0,3}=+[ \t]*$/gm);
+  // 見出し・引用・リストの記号
+  removeMatches(extraction, /^[ \t]{0,3}#{1,6}[ \t]+/gm);
+  removeMatches(extraction, /^[ \t]{0,3}(>[ \t]?)+/gm);
+  removeMatches(extraction, /^[ \t]*([-*+]|\d+[.)])[ \t]+(\[[ xX]\][ \t]+)?/gm);
+
+  // 表（区切り行を取り除き、セルの区切りを改行にする）
+  removeMatches(extraction, /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)+\|?[ \t]*$/gm);
+  eachMatch(extraction, /^[ \t]*\|.*$/gm, match => {
+    const line = match[0];
+    const first = line.indexOf('|');
+    const last = line.trimEnd().lastIndexOf('|');
+    for (let i = first; i <= last; i++) {
+      if (line[i] !== '|' || line[i - 1] === '\\') {
+        continue;
+      }
+      if (i === first || i === last) {
+        remove(extraction, match.index + i, match.index + i + 1);
+      } else {
+        replace(extraction, match.index + i, match.index + i + 1, '\n');
+      }
+    }
+  });
+
+  // 強調・取り消し線の記号
+  keepGroup(extraction, /(\*\*|__|~~)(?=\S)([^\n]*?\S)\1/g, 2);
+  keepGroup(extraction, /(?<![*\w\\])\*(?=[^\s*])([^*\n]*?[^\s*\\])\*(?![*\w])/g);
+  keepGroup(extraction, /(?<![_\w\\])_(?=[^\s_])([^_\n]*?[^\s_\\])_(?![_\w])/g);
+  // バックスラッシュによるエスケープ
+  eachMatch(extraction, /\\([\\`*_{}[\]()#+\-.!|<>~])/g, match => remove(extraction, match.index, match.index + 1));
+
+  decodeEntities(extraction);
+}
+
+// Re:VIEWのブロック命令のうち、中身ごと取り除くもの（コード・数式・表など）
+const REVIEW_SKIPPED_BLOCKS = 'list|listnum|emlist|emlistnum|cmd|source|texequation|graph|raw|embed|comment|table|emtable|imgtable';
+
+// Re:VIEWのインライン命令のうち、中身ごと取り除くもの（参照・コードなど）
+const REVIEW_SKIPPED_INLINES = new Set([
+  'fn', 'list', 'img', 'table', 'eq', 'hd', 'chap', 'title', 'chapref', 'column', 'sec', 'sectitle',
+  'code', 'tt', 'ttb', 'tti', 'm', 'raw', 'embed', 'icon', 'uchar', 'hidx', 'comment', 'w', 'wb'
+]);
+
+// Re:VIEWから本文を抽出する
+function extractReview(extraction: Extraction) {
+  // コメント
+  removeMatches(extraction, /^#@.*$/gm);
+  // コード・数式・表などのブロック
+  removeMatches(extraction, new RegExp(`^//(${REVIEW_SKIPPED_BLOCKS})\\b[^\\n]*\\{[ \\t]*\\n[\\s\\S]*?^//\\}[ \\t]*$`, 'gm'));
+  // 脚注は本文を残す
+  keepGroup(extraction, /^\/\/footnote\[[^\]\n]*\]\[(.*)\][ \t]*$/gm);
+  // その他のブロック命令の開始・終了行（中身は残す）
+  removeMatches(extraction, /^\/\/\w+(\[[^\]\n]*\])*\{?[ \t]*$/gm);
+  removeMatches(extraction, /^\/\/\}[ \t]*$/gm);
+  // 見出し・リストの記号
+  removeMatches(extraction, /^={1,6}(\[[^\]\n]*\])?(\{[^}\n]*\})?[ \t]*/gm);
+  removeMatches(extraction, /^[ \t]+(\*+|\d+\.|:)[ \t]+/gm);
+
+  // インライン命令
+  eachMatch(extraction, /@<(\w+)>\{((?:\\.|[^\\}])*)\}/g, match => {
+    const [whole, command, content] = match;
+    const start = match.index;
+    const end = start + whole.length;
+    const contentStart = start + whole.indexOf('{') + 1;
+    const comma = content.search(/,\s*/);
+
+    if (REVIEW_SKIPPED_INLINES.has(command)) {
+      remove(extraction, start, end);
+      return;
+    }
+    // ルビ・キーワードは親文字（カンマの前）だけを残す
+    if ((command === 'ruby' || command === 'kw') && comma >= 0) {
+      remove(extraction, start, contentStart);
+      remove(extraction, contentStart + comma, end);
+      return;
+    }
+    // リンクは表示テキスト（カンマの後）があればそれを残し、URLだけなら取り除く
+    if (command === 'href') {
+      if (comma < 0) {
+        remove(extraction, start, end);
+        return;
+      }
+      const textStart = contentStart + content.slice(comma).match(/^,\s*/)[0].length + comma;
+      remove(extraction, start, textStart);
+      remove(extraction, end - 1, end);
+      return;
+    }
+    remove(extraction, start, contentStart);
+    remove(extraction, end - 1, end);
+  });
+}
+
+// startの位置にある括弧の組に対応する閉じ括弧の位置を返す（入れ子・エスケープに対応）
+function findClosing(text: string, start: number, open: string, close: string): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === open) {
+      depth++;
+    } else if (text[i] === close) {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+// LaTeXのコマンドのうち、引数ごと取り除くもの（脚注は本文の途中に入り文を分断するため除く）
+const LATEX_SKIPPED_COMMANDS = new Set([
+  'label', 'ref', 'eqref', 'pageref', 'autoref', 'cite', 'citep', 'citet', 'nocite', 'footnote', 'includegraphics',
+  'usepackage', 'documentclass', 'input', 'include', 'url', 'bibliography', 'bibliographystyle',
+  'vspace', 'hspace', 'setlength', 'setcounter', 'newcommand', 'renewcommand', 'providecommand',
+  'newenvironment', 'pagestyle', 'thispagestyle', 'index', 'hypersetup', 'graphicspath'
+]);
+
+// LaTeXの環境のうち、中身ごと取り除くもの（コード・数式・図表など）
+const LATEX_SKIPPED_ENVIRONMENTS = 'verbatim|lstlisting|minted|equation\\*?|align\\*?|gather\\*?|multline\\*?|eqnarray\\*?|math|displaymath|figure\\*?|table\\*?|tabular\\*?|comment|tikzpicture|thebibliography';
+
+// LaTeXから本文を抽出する
+function extractLatex(extraction: Extraction) {
+  // コメント
+  removeMatches(extraction, /(?<!\\)%.*$/gm);
+  // プリアンブルと文書の終わり以降
+  eachMatch(extraction, /\\begin\{document\}/g, match => remove(extraction, 0, match.index + match[0].length));
+  eachMatch(extraction, /\\end\{document\}[\s\S]*$/g, match => remove(extraction, match.index, match.index + match[0].length));
+  // コード・数式・図表の環境
+  removeMatches(extraction, new RegExp(`\\\\begin\\{(${LATEX_SKIPPED_ENVIRONMENTS})\\}[\\s\\S]*?\\\\end\\{\\1\\}`, 'g'));
+  // 数式
+  removeMatches(extraction, /\$\$[\s\S]*?\$\$/g);
+  removeMatches(extraction, /(?<!\\)\$(?:\\.|[^$\\])+?\$/g);
+  removeMatches(extraction, /\\\[[\s\S]*?\\\]/g);
+  removeMatches(extraction, /\\\([\s\S]*?\\\)/g);
+  // その他の環境の開始・終了（中身は残す）
+  eachMatch(extraction, /\\(begin|end)\{[^}]*\}/g, (match, text) => {
+    let end = match.index + match[0].length;
+    // 環境の引数（\begin{minipage}{0.5\textwidth} など）
+    while (match[1] === 'begin' && (text[end] === '{' || text[end] === '[')) {
+      const closing = findClosing(text, end, text[end], text[end] === '{' ? '}' : ']');
+      if (closing < 0) {
+        break;
+      }
+      end = closing + 1;
+    }
+    remove(extraction, match.index, end);
+  });
+  // 改行（\\）
+  eachMatch(extraction, /\\\\(\[[^\]]*\])?/g, match => replace(extraction, match.index, match.index + match[0].length, '\n'));
+
+  // コマンド（引数の中身を残すか、引数ごと取り除く）
+  eachMatch(extraction, /\\([a-zA-Z]+)\*?/g, (match, text) => {
+    const command = match[1];
+    let end = match.index + match[0].length;
+
+    // オプション引数と引数の範囲を求める
+    const args: { start: number; end: number; optional: boolean }[] = [];
+    while (text[end] === '{' || text[end] === '[') {
+      const optional = text[end] === '[';
+      const closing = findClosing(text, end, text[end], optional ? ']' : '}');
+      if (closing < 0) {
+        break;
+      }
+      args.push({ start: end, end: closing + 1, optional });
+      end = closing + 1;
+    }
+    const required = args.filter(arg => !arg.optional);
+
+    if (command === 'par') {
+      replace(extraction, match.index, end, '\n');
+      return;
+    }
+    if (LATEX_SKIPPED_COMMANDS.has(command)) {
+      remove(extraction, match.index, end);
+      return;
+    }
+
+    // 残す引数（\ruby{親文字}{読み} は親文字、\href{URL}{テキスト} はテキスト、それ以外はすべての引数）
+    let kept = required;
+    if (command === 'ruby') {
+      kept = required.slice(0, 1);
+    } else if (command === 'href') {
+      kept = required.slice(1, 2);
+    }
+
+    remove(extraction, match.index, match.index + match[0].length);
+    for (const arg of args) {
+      if (kept.includes(arg)) {
+        remove(extraction, arg.start, arg.start + 1);
+        remove(extraction, arg.end - 1, arg.end);
+      } else {
+        remove(extraction, arg.start, arg.end);
+      }
+    }
+  });
+
+  // 残った波括弧、特殊な空白、エスケープされた記号
+  removeMatches(extraction, /(?<!\\)[{}]/g);
+  eachMatch(extraction, /(?<!\\)~/g, match => replace(extraction, match.index, match.index + 1, ' '));
+  removeMatches(extraction, /\\[,;:! ]/g);
+  eachMatch(extraction, /\\([%&$#_{}])/g, match => remove(extraction, match.index, match.index + 1));
+}
+
+// 形式ごとの抽出処理
+const EXTRACTORS: Record<Exclude<DocumentFormat, 'plain'>, (extraction: Extraction) => void> = {
+  markdown: extractMarkdown,
+  html: extractHtml,
+  review: extractReview,
+  latex: extractLatex
+};
+
+// テキストから人が読む本文だけを抽出する関数
+// コードブロック・URL・タグ・コメントなどを取り除き、抽出後の位置を元のテキストの位置に戻せるようにする
+// inputFormat が auto の場合はファイルの拡張子から形式を判定する（テキストの場合はプレーンテキスト）
+export function preprocessText(text: string, inputFormat: InputFormat = 'auto', filePath?: string): PreparedText {
+  const format = inputFormat === 'auto' ? detectInputFormat(filePath) : inputFormat;
+  if (format === 'plain') {
+    return { text, format, sourceMap: createIdentitySourceMap(text) };
+  }
+
+  const extraction = createExtraction(text);
+  EXTRACTORS[format](extraction);
+  collapseBlankLines(extraction);
+  const { text: extracted, segments } = build(extraction);
+
+  return { text: extracted, format, sourceMap: createSourceMap(text, segments) };
+}
@@ -0,0 +1,198 @@
+import { PositionedToken, countCodePoints } from './tokens.js';
+
+// 読みやすさの算出方式
+// jreadability: 李在鎬らによる日本語文章難易度の式（語種・品詞の比率と平均文長を使用）
+// tateishi: 建石らによる式（文字種の連続の長さと平均文長を使用）
+export type ReadabilityMethod = 'jreadability' | 'tateishi';
+
+// スコアを構成する要素
+export interface ReadabilityComponent {
+  id: string;
+  name: string;
+  value: number;
+  unit: string;
+  coefficient: number;
+  // value × coefficient（スコアへの寄与）
+  contribution: number;
+}
+
+// 読みやすさの算出結果
+// 文がない（空・空白だけの）テキストは算出できないため、score・level を null にする
+export interface ReadabilityResult {
+  method: ReadabilityMethod;
+  score: number | null;
+  level: string | null;
+  // スコアが高いほど読みやすいか
+  higherIsEasier: boolean;
+  intercept: number;
+  components: ReadabilityComponent[];
+}
+
+// jReadabilityのレベル区分（スコアの下限とラベル）
+const JREADABILITY_LEVELS: { min: number; label: string }[] = [
+  { min: 5.5, label: '初級前半（とても易しい）' },
+  { min: 4.5, label: '初級後半（易しい）' },
+  { min: 3.5, label: '中級前半（やや易しい）' },
+  { min: 2.5, label: '中級後半（普通）' },
+  { min: 1.5, label: '上級前半（やや難しい）' },
+  { min: -Infinity, label: '上級後半（難しい）' }
+];
+
+// 建石式のレベル区分（目安）
+const TATEISHI_LEVELS: { min: number; label: string }[] = [
+  { min: 70, label: 'とても読みやすい' },
+  { min: 50, label: '読みやすい' },
+  { min: 30, label: 'やや読みにくい' },
+  { min: -Infinity, label: '読みにくい' }
+];
+
+// 語種の近似判定
+// IPADICには語種の情報がないため、表記から推定する
+// - 外来語: カタカナのみで書かれた語
+// - 漢語: 2文字以上の漢字のみで書かれた語
+// - 和語: ひらがなを含む語、または漢字1文字の語
+type WordOrigin = 'kango' | 'wago' | 'gairaigo' | 'other';
+
+function estimateWordOrigin(token: PositionedToken): WordOrigin {
+  const surface = token.surface_form;
+  if (token.pos === '名詞' && token.pos_detail_1 === '数') {
+    return 'other';
+  }
+  if (/^[\u30A0-\u30FF]+$/.test(surface)) {
+    return 'gairaigo';
+  }
+  if (/^[\u4E00-\u9FAF々〆]{2,}$/.test(surface)) {
+    return 'kango';
+  }
+  if (/^[\u3040-\u309F\u4E00-\u9FAF々〆]+$/.test(surface)) {
+    return 'wago';
+  }
+  return 'other';
+}
+
+// 区分からレベルのラベルを求める
+function toLevel(score: number, levels: { min: number; label: string }[]): string {
+  return levels.find(level => score >= level.min).label;
+}
+
+// 構成要素の一覧を作る
+function buildComponents(items: Omit<ReadabilityComponent, 'contribution'>[]): ReadabilityComponent[] {
+  return items.map(item => ({ ...item, contribution: item.value * item.coefficient }));
+}
+
+// jReadabilityのスコアを算出する関数
+// X = 平均文長 × -0.056 + 漢語率 × -0.126 + 和語率 × -0.042 + 動詞率 × -0.145 + 助詞率 × -0.044 + 11.724
+function computeJReadability(tokens: PositionedToken[], sentenceCount: number): ReadabilityResult {
+  // 記号・空白を除いた語を対象とする
+  const words = tokens.filter(token => token.pos !== '記号');
+  const totalWords = words.length;
+  const ratio = (count: number) => totalWords > 0 ? (count / totalWords) * 100 : 0;
+
+  const kango = words.filter(token => estimateWordOrigin(token) === 'kango').length;
+  const wago = words.filter(token => estimateWordOrigin(token) === 'wago').length;
+  const verbs = words.filter(token => token.pos === '動詞').length;
+  const particles = words.filter(token => token.pos === '助詞').length;
+
+  const intercept = 11.724;
+  const components = buildComponents([
+    { id: 'mean_sentence_length', name: '平均文長', value: sentenceCount > 0 ? totalWords / sentenceCount : 0, unit: '語／文', coefficient: -0.056 },
+    { id: 'kango_ratio', name: '漢語率', value: ratio(kango), unit: '%', coefficient: -0.126 },
+    { id: 'wago_ratio', name: '和語率', value: ratio(wago), unit: '%', coefficient: -0.042 },
+    { id: 'verb_ratio', name: '動詞率', value: ratio(verbs), unit: '%', coefficient: -0.145 },
+    { id: 'particle_ratio', name: '助詞率', value: ratio(particles), unit: '%', coefficient: -0.044 }
+  ]);
+  const score = components.reduce((sum, component) => sum + component.contribution, intercept);
+
+  return {
+    method: 'jreadability',
+    score,
+    level: toLevel(score, JREADABILITY_LEVELS),
+    higherIsEasier: true,
+    intercept,
+    components
+  };
+}
+
+// 指定した文字種の連続（連）の平均の長さを求める
+function averageRunLength(text: string, pattern: RegExp): number {
+  const runs: string[] = text.match(pattern) || [];
+  if (runs.length === 0) {
+    return 0;
+  }
+  const total = runs.reduce((sum, run) => sum + countCodePoints(run), 0);
+  return total / runs.length;
+}
+
+// 建石式のスコアを算出する関数
+// RS = -0.12 × ls - 1.37 × la + 7.4 × lh - 23.18 × lc - 5.4 × lk - 4.67 × cp + 115.79
+function computeTateishi(text: string, sentenceCount: number): ReadabilityResult {
+  const totalChars = countCodePoints(text.replace(/\s/g, ''));
+  const kuten = (text.match(/[。．！？!?]/g) || []).length;
+  const touten = (text.match(/[、，]/g) || []).length;
+
+  const intercept = 115.79;
+  const components = buildComponents([
+    { id: 'mean_sentence_length', name: '平均文長', value: sentenceCount > 0 ? totalChars / sentenceCount : 0, unit: '文字／文', coefficient: -0.12 },
+    { id: 'alphabet_run_length', name: 'アルファベット連の平均長', value: averageRunLength(text, /[a-zA-Zａ-ｚＡ-Ｚ]+/g), unit: '文字', coefficient: -1.37 },
+    { id: 'hiragana_run_length', name: 'ひらがな連の平均長', value: averageRunLength(text, /[\u3040-\u309F]+/g), unit: '文字', coefficient: 7.4 },
+    { id: 'kanji_run_length', name: '漢字連の平均長', value: averageRunLength(text, /[\u4E00-\u9FAF々〆]+/g), unit: '文字', coefficient: -23.18 },
+    { id: 'katakana_run_length', name: 'カタカナ連の平均長', value: averageRunLength(text, /[\u30A0-\u30FF]+/g), unit: '文字', coefficient: -5.4 },
+    { id: 'touten_per_kuten', name: '句点あたりの読点数', value: kuten > 0 ? touten / kuten : touten, unit: '個', coefficient: -4.67 }
+  ]);
+  const score = components.reduce((sum, component) => sum + component.contribution, intercept);
+
+  return {
+    method: 'tateishi',
+    score,
+    level: toLevel(score, TATEISHI_LEVELS),
+    higherIsEasier: true,
+    intercept,
+    components
+  };
+}
+
+// 読みやすさのスコアを算出する関数
+// 文がない場合は定数項だけのスコアになるため、score・level を null、構成要素を空にして返す
+export function computeReadability(
+  text: string,
+  tokens: PositionedToken[],
+  sentenceCount: number,
+  method: ReadabilityMethod = 'jreadability'
+): ReadabilityResult {
+  const result = method === 'tateishi' ? computeTateishi(text, sentenceCount) : computeJReadability(tokens, sentenceCount);
+  if (sentenceCount === 0) {
+    return { ...result, score: null, level: null, components: [] };
+  }
+  return result;
+}
+
+// テキストを段落に分割する関数
+// 空行を含むテキストは空行で、含まないテキストは改行ごとに段落とみなす
+// start/end はコードポイント単位の位置
+export function splitParagraphs(text: string): { text: string; start: number; end: number }[] {
+  const separator = /\n[ \t　]*\n/.test(text) ? /\n[ \t　]*\n+/g : /\n+/g;
+  const paragraphs: { text: string; start: number; end: number }[] = [];
+
+  let cursor = 0;
+  // コードポイント単位の位置は、直前に数えた位置からの差分を加えて求める
+  let countedUtf16 = 0;
+  let countedCodePoints = 0;
+  const pushParagraph = (from: number, to: number) => {
+    const paragraph = text.slice(from, to);
+    if (paragraph.trim().length === 0) {
+      return;
+    }
+    countedCodePoints += countCodePoints(text.slice(countedUtf16, from));
+    countedUtf16 = from;
+    const start = countedCodePoints;
+    paragraphs.push({ text: paragraph, start, end: start + countCodePoints(paragraph) });
+  };
+
+  for (const match of text.matchAll(separator)) {
+    pushParagraph(cursor, match.index);
+    cursor = match.index + match[0].length;
+  }
+  pushParagraph(cursor, text.length);
+
+  return paragraphs;
+}
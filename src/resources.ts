@@ -0,0 +1,128 @@
+import { COUNTING_RULES, COUNTING_RULE_INFO } from './counting.js';
+import { MetricSettings, MetricTarget, TargetRange, localize } from './metrics.js';
+
+// リソースのURI
+export const COUNTING_RULES_URI = 'analysis://counting-rules';
+export const METRICS_URI = 'analysis://metrics';
+// ファイルごとの最後の分析結果（{path} はURLエンコードしたファイルの絶対パス）
+export const FILE_REPORT_URI_TEMPLATE = 'analysis://file/{path}';
+
+// 保持する分析結果の数（超えた場合は古いものから削除する）
+const MAX_REPORTS = 100;
+
+// ファイルの分析結果
+export interface AnalysisReport {
+  // ファイルの絶対パス
+  path: string;
+  markdown: string;
+  data: Record<string, unknown>;
+  // 分析した日時（ISO 8601）
+  analyzedAt: string;
+}
+
+// ファイルの分析結果のURIを返す関数
+export function fileReportUri(filePath: string): string {
+  return `analysis://file/${encodeURIComponent(filePath)}`;
+}
+
+// ファイルの分析結果の保存先
+// MCPサーバー（HTTPではセッション）ごとに作成し、ほかのクライアントの分析結果を参照できないようにする
+export class AnalysisReportStore {
+  // ファイルのパス → 最後の分析結果（挿入順が古い順になるように、更新時は削除してから追加する）
+  private reports = new Map<string, AnalysisReport>();
+
+  // 分析結果を保存する（新しいファイルの場合true）
+  save(report: AnalysisReport): boolean {
+    const isNew = !this.reports.delete(report.path);
+    this.reports.set(report.path, report);
+    if (this.reports.size > MAX_REPORTS) {
+      this.reports.delete(this.reports.keys().next().value);
+    }
+    return isNew;
+  }
+
+  // 分析結果を取得する（URIの {path} の値を受け取る）
+  get(encodedPath: string): AnalysisReport | undefined {
+    return this.reports.get(decodeURIComponent(encodedPath));
+  }
+
+  // 保存している分析結果の一覧（新しい順）
+  list(): AnalysisReport[] {
+    return [...this.reports.values()].reverse();
+  }
+}
+
+// 計数ルールの一覧をMarkdownの表に整形する関数
+export function formatCountingRules(): string {
+  const rows = COUNTING_RULES.map(rule => {
+    const info = COUNTING_RULE_INFO[rule];
+    return `| \`${rule}\` | ${info.name} | ${info.unit} | ${info.description} |`;
+  });
+  return `# 計数ルール
+
+文字数は書記素クラスタ（見た目の1文字）単位で数えます。絵文字や結合文字も1文字です。
+
+| ルール | 名前 | 単位 | 説明 |
+|---|---|---|---|
+${rows.join('\n')}
+`;
+}
+
+// 計数ルールの一覧（JSON）
+export function countingRulesData(): Record<string, unknown> {
+  return {
+    rules: COUNTING_RULES.map(rule => ({ rule, ...COUNTING_RULE_INFO[rule] }))
+  };
+}
+
+// 目標範囲を表示用の文字列に変換する
+function formatTargetRange(range: TargetRange, unit: string): string {
+  return `${range.min ?? ''}〜${range.max ?? ''}${unit}`;
+}
+
+function formatMetricTarget(target: MetricTarget | undefined, unit: string): string {
+  if (!target) {
+    return '';
+  }
+  if (typeof (target as TargetRange).min === 'number' || typeof (target as TargetRange).max === 'number') {
+    return formatTargetRange(target as TargetRange, unit);
+  }
+  return Object.entries(target as Record<string, TargetRange>)
+    .map(([item, range]) => `${item} ${formatTargetRange(range, unit)}`)
+    .join(', ');
+}
+
+// 有効な指標の定義をMarkdownの表に整形する関数（名前・説明・目標範囲は設定ファイルを反映する）
+export function formatMetricDefinitions(settings: MetricSettings): string {
+  const rows = settings.enabled.map(definition => {
+    const override = settings.overrides[definition.id] || {};
+    const name = localize(override.name ?? definition.name, settings.locale);
+    const description = localize(override.description ?? definition.description, settings.locale);
+    return `| \`${definition.id}\` | ${name} | ${definition.unit} | ${description} | ${formatMetricTarget(settings.targets[definition.id], definition.unit)} |`;
+  });
+  return `# 分析の指標
+
+analyze_text・analyze_file・compare_texts・compare_files が算出する指標です（設定ファイルで有効にした指標のみ、出力する順）。
+
+| 指標ID | 名前 | 単位 | 説明 | 目標範囲 |
+|---|---|---|---|---|
+${rows.join('\n')}
+`;
+}
+
+// 有効な指標の定義（JSON）
+export function metricDefinitionsData(settings: MetricSettings): Record<string, unknown> {
+  return {
+    locale: settings.locale,
+    metrics: settings.enabled.map(definition => {
+      const override = settings.overrides[definition.id] || {};
+      return {
+        id: definition.id,
+        name: localize(override.name ?? definition.name, settings.locale),
+        unit: definition.unit,
+        description: localize(override.description ?? definition.description, settings.locale),
+        ...(settings.targets[definition.id] ? { target: settings.targets[definition.id] } : {})
+      };
+    })
+  };
+}
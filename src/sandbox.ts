@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { DecodedFile, FileEncoding, readTextFile } from './encoding.js';
+
+// 読み込みを許可するディレクトリを指定する環境変数（複数の場合はパスの区切り文字でつなぐ）
+export const ALLOWED_ROOTS_ENV = 'JAPANESE_TEXT_ANALYZER_ROOTS';
+
+// 読み込めるファイルの最大サイズを指定する環境変数（バイト数。10MB のように KB・MB も使える）
+export const MAX_FILE_SIZE_ENV = 'JAPANESE_TEXT_ANALYZER_MAX_FILE_SIZE';
+
+// 読み込めるファイルの最大サイズの既定値（10MB）
+export const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// ファイルアクセスの設定
+export interface SandboxOptions {
+  // コマンドライン引数・環境変数で指定したディレクトリ
+  roots: string[];
+  maxFileSize: number;
+}
+
+// 起動時に指定したディレクトリ（正規化済み）
+let configuredRoots: string[] = [];
+// MCPクライアントから受け取ったディレクトリ（正規化済み）
+let clientRoots: string[] = [];
+let maxFileSize = DEFAULT_MAX_FILE_SIZE;
+
+// 「10MB」「512KB」「1048576」などのサイズをバイト数に変換する関数
+export function parseFileSize(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(B|KB|K|MB|M|GB|G)?$/i);
+  if (!match) {
+    throw new Error(`ファイルサイズ "${value}" を解釈できません（例: 10MB, 512KB, 1048576）`);
+  }
+  const units: Record<string, number> = { b: 1, k: 1024, kb: 1024, m: 1024 ** 2, mb: 1024 ** 2, g: 1024 ** 3, gb: 1024 ** 3 };
+  return Math.floor(Number(match[1]) * units[(match[2] || 'b').toLowerCase()]);
+}
+
+// コマンドライン引数と環境変数からファイルアクセスの設定を読み取る関数
+// --root <dir>（複数指定可）、--max-file-size <size>
+export function parseSandboxOptions(argv: string[], env: NodeJS.ProcessEnv = process.env): SandboxOptions {
+  const roots = (env[ALLOWED_ROOTS_ENV] || '').split(path.delimiter).filter(Boolean);
+  let size = env[MAX_FILE_SIZE_ENV] ? parseFileSize(env[MAX_FILE_SIZE_ENV]) : DEFAULT_MAX_FILE_SIZE;
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split(/=(.*)/s);
+    if (flag !== '--root' && flag !== '--max-file-size') {
+      continue;
+    }
+    const value = inline ?? argv[++i];
+    if (value === undefined) {
+      throw new Error(`${flag} の値がありません`);
+    }
+    if (flag === '--root') {
+      roots.push(value);
+    } else {
+      size = parseFileSize(value);
+    }
+  }
+
+  return { roots, maxFileSize: size };
+}
+
+// ディレクトリを正規化する（存在しないディレクトリは除く）
+function canonicalizeRoots(roots: string[]): string[] {
+  const result: string[] = [];
+  for (const root of roots) {
+    try {
+      const real = fs.realpathSync(path.resolve(root));
+      if (fs.statSync(real).isDirectory() && !result.includes(real)) {
+        result.push(real);
+      }
+    } catch {
+      console.error(`許可するディレクトリ "${root}" が見つからないため無視します`);
+    }
+  }
+  return result;
+}
+
+// ファイルアクセスの設定を反映する関数
+export function configureSandbox(options: SandboxOptions): void {
+  configuredRoots = canonicalizeRoots(options.roots);
+  maxFileSize = options.maxFileSize;
+}
+
+// MCPクライアントから受け取ったルート（file:// のURI）を反映する関数
+export function setClientRoots(uris: string[]): void {
+  clientRoots = canonicalizeRoots(uris.filter(uri => uri.startsWith('file://')).map(uri => fileURLToPath(uri)));
+}
+
+// 読み込みを許可するディレクトリの一覧
+// 起動時の指定とMCPクライアントのルートを合わせたもの。どちらもない場合はホームディレクトリ
+export function getAllowedRoots(): string[] {
+  const roots = [...configuredRoots, ...clientRoots.filter(root => !configuredRoots.includes(root))];
+  return roots.length > 0 ? roots : canonicalizeRoots([os.homedir()]);
+}
+
+// 読み込めるファイルの最大サイズ（バイト）
+export function getMaxFileSize(): number {
+  return maxFileSize;
+}
+
+// targetがrootの中（root自身を含む）にあるかどうか
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+// 実際のパス（シンボリックリンクをたどったパス）が許可するディレクトリの中にあるかどうか
+export function isAllowedPath(realPath: string): boolean {
+  return getAllowedRoots().some(root => isInside(root, realPath));
+}
+
+// 許可するディレクトリを列挙したエラーメッセージ
+function describeRoots(roots: string[]): string {
+  return `読み込みを許可しているディレクトリ: ${roots.join(', ')}`;
+}
+
+// パスを解決し、シンボリックリンクをたどった実際のパスを返す関数
+// 許可するディレクトリの外を指す場合や存在しない場合は例外を投げる
+// 相対パスはカレントディレクトリ、許可するディレクトリの順に探す
+export function resolveFilePath(filePath: string): string {
+  const roots = getAllowedRoots();
+  let candidates: string[];
+
+  if (process.platform === 'win32' && /^\/[a-zA-Z]\//.test(filePath)) {
+    // WSL/Linux形式のパス (/c/Users/...) をWindows形式 (C:\Users\...) に変換
+    candidates = [`${filePath.charAt(1).toUpperCase()}:${filePath.substring(2).replace(/\//g, '\\')}`];
+  } else if (path.isAbsolute(filePath)) {
+    candidates = [filePath];
+  } else {
+    candidates = [process.cwd(), ...roots].map(base => path.resolve(base, filePath));
+  }
+
+  let found = false;
+  for (const candidate of candidates) {
+    if (!fs.existsSync(candidate)) {
+      continue;
+    }
+    found = true;
+    const real = fs.realpathSync(candidate);
+    if (roots.some(root => isInside(root, real))) {
+      return real;
+    }
+  }
+
+  if (found) {
+    throw new Error(`"${filePath}" は読み込みを許可しているディレクトリの外にあります。${describeRoots(roots)}`);
+  }
+  throw new Error(`ファイル "${filePath}" が見つかりませんでした。絶対パスで指定してください。${describeRoots(roots)}`);
+}
+
+// 許可するディレクトリの中にあるファイルを読み込む関数
+// ディレクトリを探索して見つけたファイル（シンボリックリンクを含む）もこの関数で読み込む
+export function readAllowedTextFile(filePath: string, encoding: FileEncoding = 'auto'): DecodedFile {
+  const roots = getAllowedRoots();
+  const real = fs.realpathSync(filePath);
+  if (!roots.some(root => isInside(root, real))) {
+    throw new Error(`"${filePath}" は読み込みを許可しているディレクトリの外にあります。${describeRoots(roots)}`);
+  }
+  return readSizeLimitedTextFile(real, encoding, filePath);
+}
+
+// サイズの上限を確認してファイルを読み込む関数（許可するディレクトリかどうかは確認しない）
+// サーバーの設定で指定したファイル（ユーザー辞書など）の読み込みに使う。displayPath はエラーメッセージに表示するパス
+export function readSizeLimitedTextFile(filePath: string, encoding: FileEncoding = 'auto', displayPath: string = filePath): DecodedFile {
+  const stat = fs.statSync(filePath);
+  if (!stat.isFile()) {
+    throw new Error(`"${displayPath}" はファイルではありません。`);
+  }
+  if (stat.size > maxFileSize) {
+    throw new Error(`"${displayPath}" のサイズ（${stat.size}バイト）が上限の${maxFileSize}バイトを超えています。` +
+                    `上限は --max-file-size または環境変数 ${MAX_FILE_SIZE_ENV} で変更できます。`);
+  }
+  return readTextFile(filePath, encoding);
+}
@@ -0,0 +1,226 @@
+import { PositionedToken, isWhitespaceToken } from './tokens.js';
+
+// 文の範囲
+// start/end はコードポイント単位の位置（endは含まない）
+export interface SentenceSpan {
+  text: string;
+  start: number;
+  end: number;
+  // 行の終わりまでに閉じていない開き括弧の位置（コードポイント単位）。ない場合は省略する
+  unclosedBrackets?: number[];
+}
+
+// 文の情報（範囲に含まれるトークン付き）
+export interface Sentence extends SentenceSpan {
+  tokens: PositionedToken[];
+}
+
+// トークン列の表層形を連結する
+export function joinSurface(tokens: PositionedToken[]): string {
+  return tokens.map(token => token.surface_form).join('');
+}
+
+// 括弧の開き・閉じ（入れ子に対応するため深さを数える）
+const OPENING_BRACKETS = '「『（(［[【〈《｛{〔';
+const CLOSING_BRACKETS = '」』）)］]】〉》｝}〕';
+
+// 文末の記号（全角・半角）
+const TERMINATORS = '。！？!?．.';
+
+// 閉じ括弧の直後に続く場合は引用として文を続ける文字（「〜。」と言った、「〜。」って など）
+const QUOTATION_FOLLOWERS = /^[とっ]$/;
+
+// URLの開始
+const URL_PATTERN = /^(https?|ftp):\/\//;
+
+// 数字かどうか（全角・半角）
+function isDigit(char: string | undefined): boolean {
+  return char !== undefined && /^[0-9０-９]$/.test(char);
+}
+
+// i文字目が文末の記号かどうか
+// - 3.14 や ３．１４ などの小数点は文末としない
+// - 半角ピリオドは example.com のように直後に英数字が続く場合や ... の一部の場合は文末としない
+// - 三点リーダー（…‥）は文末としない
+function isTerminatorAt(chars: string[], i: number): boolean {
+  const char = chars[i];
+  if (!TERMINATORS.includes(char)) {
+    return false;
+  }
+  const prev = chars[i - 1];
+  const next = chars[i + 1];
+  if ((char === '.' || char === '．') && isDigit(prev) && isDigit(next)) {
+    return false;
+  }
+  if (char === '.') {
+    if (prev === '.' || next === '.') {
+      return false;
+    }
+    if (next !== undefined && /^[!-~]$/.test(next) && !CLOSING_BRACKETS.includes(next) && next !== '"') {
+      return false;
+    }
+  }
+  return true;
+}
+
+// 閉じ括弧の直前（連続する閉じ括弧を除く）が文末の記号かどうか
+function endsWithTerminatorBefore(chars: string[], i: number): boolean {
+  let j = i - 1;
+  while (j >= 0 && CLOSING_BRACKETS.includes(chars[j])) {
+    j--;
+  }
+  return j >= 0 && TERMINATORS.includes(chars[j]);
+}
+
+// 行の終わりまでに閉じていない開き括弧の位置を求める関数
+// 閉じ括弧は直前の閉じていない開き括弧と対応させる（括弧の種類は区別しない）。URLの中の括弧は数えない
+// 結果は位置の順に並べる
+function findUnclosedBrackets(chars: string[]): number[] {
+  const unclosed: number[] = [];
+  let open: number[] = [];
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    if (char === '\n') {
+      for (const position of open) {
+        unclosed.push(position);
+      }
+      open = [];
+    } else if (URL_PATTERN.test(chars.slice(i, i + 8).join(''))) {
+      while (i + 1 < chars.length && /^[!-~]$/.test(chars[i + 1])) {
+        i++;
+      }
+    } else if (OPENING_BRACKETS.includes(char)) {
+      open.push(i);
+    } else if (CLOSING_BRACKETS.includes(char)) {
+      open.pop();
+    }
+  }
+  for (const position of open) {
+    unclosed.push(position);
+  }
+
+  return unclosed;
+}
+
+// テキストを文に分割する関数
+// - 句点（。．！？!?）で文を区切る。「！？」「。）」のように続く文末の記号・閉じ括弧は同じ文に含める
+// - 括弧（「」『』（）など、入れ子を含む）の中の句点では区切らない
+// - 「〜。」で終わる括弧は、直後に「と」「って」が続かない限り1つの文とする
+// - 改行は文の区切りとする（句点のない段落や見出しも1つの文になる）
+// - 行の終わりまでに閉じていない開き括弧は括弧として扱わず（以降の句点で区切る）、その括弧を含む文の unclosedBrackets に記録する
+// - 小数点・URL・三点リーダーでは区切らない
+export function splitSentences(text: string): SentenceSpan[] {
+  const chars = [...text];
+  const spans: SentenceSpan[] = [];
+  const unclosedPositions = findUnclosedBrackets(chars);
+  const unclosed = new Set(unclosedPositions);
+  let unclosedCursor = 0;
+  let start = 0;
+  let depth = 0;
+
+  // 前後の空白を除いて文を追加
+  const push = (from: number, to: number) => {
+    while (from < to && /^\s$/.test(chars[from])) {
+      from++;
+    }
+    while (to > from && /^\s$/.test(chars[to - 1])) {
+      to--;
+    }
+    if (from < to) {
+      const span: SentenceSpan = { text: chars.slice(from, to).join(''), start: from, end: to };
+      const brackets: number[] = [];
+      while (unclosedCursor < unclosedPositions.length && unclosedPositions[unclosedCursor] < to) {
+        if (unclosedPositions[unclosedCursor] >= from) {
+          brackets.push(unclosedPositions[unclosedCursor]);
+        }
+        unclosedCursor++;
+      }
+      if (brackets.length > 0) {
+        span.unclosedBrackets = brackets;
+      }
+      spans.push(span);
+    }
+  };
+
+  // 文末に続く記号・閉じ括弧を同じ文に含めた終了位置を求める
+  const extend = (from: number) => {
+    let end = from;
+    while (end < chars.length && (TERMINATORS.includes(chars[end]) || CLOSING_BRACKETS.includes(chars[end]) || '…‥'.includes(chars[end]))) {
+      end++;
+    }
+    return end;
+  };
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+
+    // 改行は段落の区切りとして文を終える
+    if (char === '\n') {
+      push(start, i);
+      start = i + 1;
+      depth = 0;
+      continue;
+    }
+
+    // URLの中の記号では区切らない
+    if (URL_PATTERN.test(chars.slice(i, i + 8).join(''))) {
+      while (i + 1 < chars.length && /^[!-~]$/.test(chars[i + 1])) {
+        i++;
+      }
+      continue;
+    }
+
+    if (OPENING_BRACKETS.includes(char)) {
+      if (!unclosed.has(i)) {
+        depth++;
+      }
+      continue;
+    }
+
+    if (CLOSING_BRACKETS.includes(char)) {
+      if (depth > 0) {
+        depth--;
+      }
+      // 「〜。」で終わる文
+      if (depth === 0 && endsWithTerminatorBefore(chars, i) && !QUOTATION_FOLLOWERS.test(chars[i + 1] || '')) {
+        const end = extend(i + 1);
+        push(start, end);
+        start = end;
+        i = end - 1;
+      }
+      continue;
+    }
+
+    if (depth === 0 && isTerminatorAt(chars, i)) {
+      const end = extend(i + 1);
+      push(start, end);
+      start = end;
+      i = end - 1;
+    }
+  }
+  push(start, chars.length);
+
+  return spans;
+}
+
+// テキストを文に分割し、各文に含まれるトークンを割り当てる関数
+// 文の境界をまたぐトークンは開始位置を含む文に割り当てる
+export function splitTokensIntoSentences(text: string, tokens: PositionedToken[]): Sentence[] {
+  const sentences: Sentence[] = splitSentences(text).map(span => ({ ...span, tokens: [] }));
+  let cursor = 0;
+
+  for (const token of tokens) {
+    if (isWhitespaceToken(token)) {
+      continue;
+    }
+    while (cursor < sentences.length - 1 && token.start >= sentences[cursor].end) {
+      cursor++;
+    }
+    if (sentences[cursor]) {
+      sentences[cursor].tokens.push(token);
+    }
+  }
+
+  return sentences;
+}
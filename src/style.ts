@@ -0,0 +1,127 @@
+import { PositionedToken } from './tokens.js';
+import { Sentence, joinSurface } from './sentences.js';
+
+// 文体の種類
+// polite: 敬体（です・ます調）
+// plain: 常体（だ・である調）
+// noun-ending: 体言止め
+// unknown: 判定不能（接続助詞や副詞で終わる文など）
+export type SentenceStyle = 'polite' | 'plain' | 'noun-ending' | 'unknown';
+
+// 文体の表示名
+export const STYLE_LABELS: Record<SentenceStyle, string> = {
+  'polite': '敬体',
+  'plain': '常体',
+  'noun-ending': '体言止め',
+  'unknown': '不明'
+};
+
+// 文ごとの文体の判定結果
+export interface SentenceStyleResult {
+  index: number;
+  text: string;
+  start: number;
+  end: number;
+  style: SentenceStyle;
+  // 判定の根拠となった文末表現
+  ending: string;
+}
+
+// 文書全体の文体の分析結果
+export interface StyleAnalysis {
+  // 敬体・常体のうち多数派（同数または敬体・常体の文がない場合はnull）
+  dominantStyle: 'polite' | 'plain' | null;
+  // 敬体・常体の文に占める敬体の割合（%、敬体・常体の文がない場合はnull）
+  politeRatio: number | null;
+  counts: Record<SentenceStyle, number>;
+  sentences: SentenceStyleResult[];
+  // 基準とする文体と異なる文（敬体・常体の混在箇所）
+  // 敬体と常体が同数で基準を決められない場合は、敬体・常体のすべての文
+  inconsistentSentences: SentenceStyleResult[];
+}
+
+// 敬体を表す助動詞の活用型
+const POLITE_CONJUGATIONS = ['特殊・デス', '特殊・マス'];
+
+// 敬体として扱う動詞（ください、ございます など）
+const POLITE_VERBS = ['くださる', '下さる', 'ござる', 'いらっしゃる', 'なさる'];
+
+// 文末の述語部分から文体を判定する関数
+export function classifySentenceStyle(sentence: Sentence): { style: SentenceStyle; ending: string } {
+  // 記号と終助詞（ね、よ、か など）を文末から取り除く
+  const content = sentence.tokens.filter(token => token.pos !== '記号');
+  let last = content.length - 1;
+  while (last >= 0 && content[last].pos === '助詞' && content[last].pos_detail_1.includes('終助詞')) {
+    last--;
+  }
+  if (last < 0) {
+    return { style: 'unknown', ending: '' };
+  }
+
+  // 文末の助動詞の連なりを述語の末尾として取り出す
+  let first = last;
+  while (first > 0 && content[first].pos === '助動詞') {
+    first--;
+  }
+  const predicate: PositionedToken[] = content.slice(first, last + 1);
+  const ending = joinSurface(predicate);
+  const lastToken = content[last];
+
+  if (predicate.some(token => token.pos === '助動詞' && POLITE_CONJUGATIONS.includes(token.conjugated_type))) {
+    return { style: 'polite', ending };
+  }
+  if (predicate.some(token => token.pos === '動詞' && POLITE_VERBS.includes(token.basic_form))) {
+    return { style: 'polite', ending };
+  }
+  if (lastToken.pos === '助動詞' || lastToken.pos === '動詞' || lastToken.pos === '形容詞') {
+    return { style: 'plain', ending };
+  }
+  if (lastToken.pos === '名詞') {
+    return { style: 'noun-ending', ending: lastToken.surface_form };
+  }
+  return { style: 'unknown', ending: lastToken.surface_form };
+}
+
+// 文書全体の文体を分析する関数
+// expectedStyle を指定しない場合は、敬体・常体のうち多数派を基準とする
+export function analyzeStyle(sentences: Sentence[], expectedStyle?: 'polite' | 'plain'): StyleAnalysis {
+  const counts: Record<SentenceStyle, number> = { 'polite': 0, 'plain': 0, 'noun-ending': 0, 'unknown': 0 };
+
+  const results = sentences.map((sentence, index) => {
+    const { style, ending } = classifySentenceStyle(sentence);
+    counts[style]++;
+    return {
+      index,
+      text: sentence.text,
+      start: sentence.start,
+      end: sentence.end,
+      style,
+      ending
+    };
+  });
+
+  const decided = counts.polite + counts.plain;
+  const politeRatio = decided > 0 ? (counts.polite / decided) * 100 : null;
+
+  let dominantStyle: 'polite' | 'plain' | null = null;
+  if (counts.polite > counts.plain) {
+    dominantStyle = 'polite';
+  } else if (counts.plain > counts.polite) {
+    dominantStyle = 'plain';
+  }
+
+  // 基準と異なる文体（敬体・常体）の文を抽出
+  // 敬体と常体が同数の場合は、どちらも混在箇所として挙げる（統一されているとはみなさない）
+  const baseStyle = expectedStyle || dominantStyle;
+  const inconsistentSentences = results.filter(result =>
+    (result.style === 'polite' || result.style === 'plain') && (!baseStyle || result.style !== baseStyle)
+  );
+
+  return {
+    dominantStyle,
+    politeRatio,
+    counts,
+    sentences: results,
+    inconsistentSentences
+  };
+}
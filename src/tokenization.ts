@@ -0,0 +1,137 @@
+import { createHash } from 'crypto';
+import { KuromojiToken } from './tokens.js';
+
+// 一度に形態素解析する長さの目安（UTF-16の長さ）
+// これより長いテキストは段落の区切りで分割し、分割した部分を解析するごとにイベントループに処理を戻す
+export const CHUNK_SIZE = 10000;
+
+// キャッシュする形態素解析結果の合計の長さ（UTF-16の長さ。超えた場合は最も長く使われていないものから削除する）
+const MAX_CACHED_LENGTH = 1000000;
+
+// 分割する位置の候補（前から順に探す）
+// kuromojiは「。」「、」の直後で区切って解析するため、最初の2つ（「。」「、」の直後）で分割しても解析結果は変わらない
+// それ以外（段落の区切り、改行、「！」「？」、空白。区切りに続く空白までを前の部分に含める）は「。」「、」がない場合の代わりで、
+// 前後をまとめて解析した場合と語の区切りや品詞が変わることがある
+const CHUNK_BOUNDARIES = [/。/g, /、/g, /\n\s*\n\s*/g, /\n\s*/g, /[！？!?]+[」』）)]*\s*/g, /\s+/g];
+
+// 形態素解析の進捗通知とキャンセルの設定
+export interface TokenizeContext {
+  // 中止された場合は、次の部分の解析を始める前にエラーにする
+  signal?: AbortSignal;
+  // 分割した部分の解析が終わるごとに呼ばれる（processed・total はUTF-16の長さ）
+  onProgress?: (processed: number, total: number) => void | Promise<void>;
+}
+
+// 内容のハッシュ → 形態素解析の結果（挿入順が使用順になるように、使用時は削除してから追加する）
+const cache = new Map<string, { tokens: KuromojiToken[]; length: number }>();
+let cachedLength = 0;
+
+// テキストを形態素解析する長さごとに分割する関数
+// size 以内で最も後ろにある「。」の直後（なければ「、」の直後、段落の区切り、改行、「！」「？」、空白の順）で分割する
+// どれもない場合（句読点も空白もない size 以上の文字列）だけは size で分割するため、その位置の語が分かれることがある
+export function splitIntoChunks(text: string, size: number = CHUNK_SIZE): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > size) {
+    const end = findChunkEnd(rest, size);
+    chunks.push(rest.slice(0, end));
+    rest = rest.slice(end);
+  }
+  if (rest.length > 0 || chunks.length === 0) {
+    chunks.push(rest);
+  }
+  return chunks;
+}
+
+function findChunkEnd(text: string, size: number): number {
+  const window = text.slice(0, size);
+  for (const pattern of CHUNK_BOUNDARIES) {
+    let end = 0;
+    for (const match of window.matchAll(pattern)) {
+      // 区切りに続く空白が size をまたぐ場合は、空白の途中で分割しないようにその位置を使わない
+      if (match.index + match[0].length < window.length) {
+        end = match.index + match[0].length;
+      }
+    }
+    if (end > 0) {
+      return end;
+    }
+  }
+  // サロゲートペアの途中で分割しない
+  const code = text.charCodeAt(size - 1);
+  return code >= 0xd800 && code <= 0xdbff ? size - 1 : size;
+}
+
+function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function getCachedTokens(key: string): KuromojiToken[] | undefined {
+  const entry = cache.get(key);
+  if (!entry) {
+    return undefined;
+  }
+  cache.delete(key);
+  cache.set(key, entry);
+  return entry.tokens;
+}
+
+function setCachedTokens(key: string, tokens: KuromojiToken[], length: number) {
+  if (length > MAX_CACHED_LENGTH) {
+    return;
+  }
+  while (cachedLength + length > MAX_CACHED_LENGTH && cache.size > 0) {
+    const [oldestKey, oldest] = cache.entries().next().value;
+    cache.delete(oldestKey);
+    cachedLength -= oldest.length;
+  }
+  cache.set(key, { tokens, length });
+  cachedLength += length;
+}
+
+// 中止されている場合にエラーにする関数
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new Error('処理がキャンセルされました');
+  }
+}
+
+// 複数のテキストを続けて解析する場合に、すべてのテキストを通した進捗を通知する設定を作成する関数
+// offset はそれまでに解析したテキストの長さ、total はすべてのテキストの長さの合計
+export function offsetProgress(context: TokenizeContext, offset: number, total: number): TokenizeContext {
+  const { signal, onProgress } = context;
+  return {
+    signal,
+    onProgress: onProgress && (processed => onProgress(offset + processed, total))
+  };
+}
+
+// テキストを分割して形態素解析する関数（ユーザー辞書を適用する前のトークンを返す）
+// 分割した部分の結果は内容のハッシュをキーにキャッシュし、同じ段落を含むテキストの解析やほかのツールの呼び出しで再利用する
+// word_position はテキスト全体での位置（1始まり）に直す
+export async function tokenizeInChunks(tokenizer: any, text: string, context: TokenizeContext = {}): Promise<KuromojiToken[]> {
+  const tokens: KuromojiToken[] = [];
+  let processed = 0;
+
+  for (const chunk of splitIntoChunks(text)) {
+    throwIfCancelled(context.signal);
+    const key = contentHash(chunk);
+    let chunkTokens = getCachedTokens(key);
+    if (!chunkTokens) {
+      chunkTokens = tokenizer.tokenize(chunk) as KuromojiToken[];
+      setCachedTokens(key, chunkTokens, chunk.length);
+      // 解析が終わるごとにほかのリクエストを処理できるようにする
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    // キャッシュしたトークンが呼び出し元で変更されないように複製する
+    for (const token of chunkTokens) {
+      tokens.push({ ...token, word_position: token.word_position + processed });
+    }
+    processed += chunk.length;
+    await context.onProgress?.(processed, text.length);
+  }
+
+  throwIfCancelled(context.signal);
+  return tokens;
+}
@@ -0,0 +1,137 @@
+// kuromojiが返すトークン（word_type が USER のものはユーザー辞書の語としてまとめたトークン）
+export interface KuromojiToken {
+  word_id: number;
+  word_type: 'KNOWN' | 'UNKNOWN' | 'USER';
+  word_position: number;
+  surface_form: string;
+  pos: string;
+  pos_detail_1: string;
+  pos_detail_2: string;
+  pos_detail_3: string;
+  conjugated_type: string;
+  conjugated_form: string;
+  basic_form: string;
+  reading?: string;
+  pronunciation?: string;
+}
+
+// 文字位置を付与したトークン
+// start/end はコードポイント単位の位置（endは含まない）
+export interface PositionedToken extends KuromojiToken {
+  index: number;
+  start: number;
+  end: number;
+}
+
+// 各トークンに元テキスト中のコードポイント単位の開始・終了位置を付与する関数
+// サロゲートペア（𠮷など）を1文字として数えるため、String.lengthとは異なる値になる
+export function attachOffsets(text: string, tokens: KuromojiToken[]): PositionedToken[] {
+  const positioned: PositionedToken[] = [];
+  let utf16Cursor = 0;
+  let codePointCursor = 0;
+
+  tokens.forEach((token, index) => {
+    // トークンの表層形を元テキスト上で探す（通常は直後に連続している）
+    let found = text.indexOf(token.surface_form, utf16Cursor);
+    if (found < 0) {
+      found = utf16Cursor;
+    }
+
+    // 読み飛ばした区間のコードポイント数を加算
+    codePointCursor += countCodePoints(text.slice(utf16Cursor, found));
+    const length = countCodePoints(token.surface_form);
+
+    positioned.push({
+      ...token,
+      index,
+      start: codePointCursor,
+      end: codePointCursor + length
+    });
+
+    utf16Cursor = found + token.surface_form.length;
+    codePointCursor += length;
+  });
+
+  return positioned;
+}
+
+// コードポイント数を数える関数
+export function countCodePoints(text: string): number {
+  let count = 0;
+  for (const _ of text) {
+    count++;
+  }
+  return count;
+}
+
+// 記号トークンかどうか
+export function isSymbolToken(token: KuromojiToken): boolean {
+  return token.pos === '記号' && token.pos_detail_1 !== '空白';
+}
+
+// 空白トークンかどうか（kuromojiでは 記号/空白 として出力される）
+export function isWhitespaceToken(token: KuromojiToken): boolean {
+  return (token.pos === '記号' && token.pos_detail_1 === '空白') || /^\s+$/.test(token.surface_form);
+}
+
+// URL（http・https・ftp）
+const URL_PATTERN = /(?:https?|ftp):\/\/[!-~]+/g;
+
+// URLの一部になっているトークンの index を返す関数
+// 固有表現・キーワードの抽出で、URLの中の語（https、ドメイン名など）を語として扱わないために使う
+export function findUrlTokenIndices(text: string, tokens: PositionedToken[]): Set<number> {
+  const indices = new Set<number>();
+  let utf16Cursor = 0;
+  let codePointCursor = 0;
+  let tokenCursor = 0;
+
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const start = codePointCursor + countCodePoints(text.slice(utf16Cursor, match.index));
+    const end = start + countCodePoints(match[0]);
+    utf16Cursor = match.index + match[0].length;
+    codePointCursor = end;
+
+    while (tokenCursor < tokens.length && tokens[tokenCursor].end <= start) {
+      tokenCursor++;
+    }
+    for (; tokenCursor < tokens.length && tokens[tokenCursor].start < end; tokenCursor++) {
+      indices.add(tokens[tokenCursor].index);
+    }
+  }
+
+  return indices;
+}
+
+// 行・列の位置（どちらも1始まり、列はコードポイント単位）
+export interface LineColumn {
+  line: number;
+  column: number;
+}
+
+// コードポイント単位の位置を行・列に変換する関数を作成する
+export function createLineColumnLocator(text: string): (offset: number) => LineColumn {
+  // 各行の開始位置（コードポイント単位）を記録
+  const lineStarts = [0];
+  let offset = 0;
+  for (const char of text) {
+    offset++;
+    if (char === '\n') {
+      lineStarts.push(offset);
+    }
+  }
+
+  return (target: number) => {
+    // 二分探索で該当する行を探す
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= target) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: target - lineStarts[low] + 1 };
+  };
+}
@@ -0,0 +1,234 @@
+import * as fs from 'fs';
+import { KuromojiToken } from './tokens.js';
+import { hiraganaToKatakana } from './kana.js';
+import { readAllowedTextFile, readSizeLimitedTextFile } from './sandbox.js';
+
+// ユーザー辞書の語
+export interface UserTerm {
+  surface: string;
+  pos: string;
+  pos_detail_1: string;
+  pos_detail_2: string;
+  pos_detail_3: string;
+  conjugated_type: string;
+  conjugated_form: string;
+  basic_form: string;
+  reading?: string;
+  pronunciation?: string;
+  // 語を定義した辞書（ファイルパスなど）
+  source: string;
+}
+
+// ユーザー辞書
+export interface UserDictionary {
+  terms: Map<string, UserTerm>;
+  // 最も長い語の長さ（UTF-16単位、照合の打ち切りに使う）
+  maxLength: number;
+}
+
+// ユーザー辞書の語に一致した箇所の集計
+export interface UserTermMatch {
+  surface: string;
+  pos: string;
+  reading?: string;
+  count: number;
+  source: string;
+}
+
+// ツールの引数で指定するユーザー辞書
+export interface UserDictionaryOptions {
+  // 辞書ファイルのパス
+  path?: string;
+  // 語の定義（辞書ファイルの1行と同じ書式）
+  terms?: string[];
+}
+
+// 品詞を指定しない語の品詞
+const DEFAULT_TERM_POS = ['名詞', '固有名詞', '一般', '*'];
+
+// MeCabのユーザー辞書（CSV）の列数
+// 表層形,左文脈ID,右文脈ID,コスト,品詞,品詞細分類1,品詞細分類2,品詞細分類3,活用型,活用形,原形,読み,発音
+const MECAB_CSV_COLUMNS = 13;
+
+// 空欄を「*」にそろえる
+function field(value: string | undefined): string {
+  return value && value.trim() !== '' ? value.trim() : '*';
+}
+
+// 読みをカタカナにそろえる（ひらがなだけの表記は表記から読みを補う）
+function normalizeReading(reading: string | undefined, surface: string): string | undefined {
+  if (reading && reading.trim() !== '' && reading.trim() !== '*') {
+    return hiraganaToKatakana(reading.trim());
+  }
+  return /^[ぁ-ゖァ-ヺー]+$/.test(surface) ? hiraganaToKatakana(surface) : undefined;
+}
+
+// ユーザー辞書の1行を語に変換する関数
+// MeCabのユーザー辞書の形式（13列のCSV）と、簡易形式（表記[,読み[,品詞]]、区切りはカンマかタブ）に対応する
+// 簡易形式の品詞は「名詞-固有名詞-組織」のように細分類をハイフンでつなぐ。省略した場合は 名詞-固有名詞-一般
+export function parseUserTermLine(line: string, source: string): UserTerm | null {
+  const trimmed = line.trim();
+  if (trimmed === '' || trimmed.startsWith('#')) {
+    return null;
+  }
+
+  const columns = trimmed.split(',');
+  if (columns.length >= MECAB_CSV_COLUMNS) {
+    const surface = columns[0].trim();
+    return {
+      surface,
+      pos: field(columns[4]),
+      pos_detail_1: field(columns[5]),
+      pos_detail_2: field(columns[6]),
+      pos_detail_3: field(columns[7]),
+      conjugated_type: field(columns[8]),
+      conjugated_form: field(columns[9]),
+      basic_form: columns[10] && columns[10].trim() !== '*' ? columns[10].trim() : surface,
+      reading: normalizeReading(columns[11], surface),
+      pronunciation: normalizeReading(columns[12], surface) ?? normalizeReading(columns[11], surface),
+      source
+    };
+  }
+
+  const [surface, reading, pos] = trimmed.split(/\t|,/).map(column => column.trim());
+  if (!surface) {
+    throw new Error(`ユーザー辞書（${source}）の行「${trimmed}」に表記がありません`);
+  }
+  const posParts = pos ? pos.split('-') : DEFAULT_TERM_POS;
+  const normalizedReading = normalizeReading(reading, surface);
+  return {
+    surface,
+    pos: field(posParts[0]),
+    pos_detail_1: field(posParts[1]),
+    pos_detail_2: field(posParts[2]),
+    pos_detail_3: field(posParts[3]),
+    conjugated_type: '*',
+    conjugated_form: '*',
+    basic_form: surface,
+    reading: normalizedReading,
+    pronunciation: normalizedReading,
+    source
+  };
+}
+
+// ユーザー辞書の内容（複数行）を語の一覧に変換する関数
+export function parseUserDictionary(content: string, source: string): UserTerm[] {
+  const terms: UserTerm[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const term = parseUserTermLine(line, source);
+    if (term) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+// 読み込んだ辞書ファイル（更新日時が変わるまで再利用する）
+const fileCache = new Map<string, { mtimeMs: number; terms: UserTerm[] }>();
+
+// ユーザー辞書のファイルを読み込む関数（文字コードは自動判定、サイズの上限はほかのファイルと同じ）
+// allowedOnly が true の場合（ツールの引数で指定されたファイル）は、許可するディレクトリの中のファイルだけを読み込む
+export function readUserDictionaryFile(filePath: string, allowedOnly: boolean = false): UserTerm[] {
+  const { mtimeMs } = fs.statSync(filePath);
+  const cached = fileCache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.terms;
+  }
+  const decoded = allowedOnly ? readAllowedTextFile(filePath) : readSizeLimitedTextFile(filePath);
+  const terms = parseUserDictionary(decoded.text, filePath);
+  fileCache.set(filePath, { mtimeMs, terms });
+  return terms;
+}
+
+// 語の一覧からユーザー辞書を作成する関数（同じ表記の語は後から指定したものを優先する）
+export function createUserDictionary(terms: UserTerm[]): UserDictionary {
+  const map = new Map<string, UserTerm>();
+  let maxLength = 0;
+  for (const term of terms) {
+    map.set(term.surface, term);
+    maxLength = Math.max(maxLength, term.surface.length);
+  }
+  return { terms: map, maxLength };
+}
+
+// 形態素解析の結果にユーザー辞書を適用する関数
+// 連続するトークンの表層形をつなげたものが辞書の語と一致する場合、1つのトークンにまとめて辞書の品詞と読みを付ける
+// 先頭から最長一致で照合し、トークンの途中から始まる（途中で終わる）語はまとめない
+export function applyUserDictionary(tokens: KuromojiToken[], dictionary: UserDictionary | null): KuromojiToken[] {
+  if (!dictionary || dictionary.terms.size === 0) {
+    return tokens;
+  }
+
+  const result: KuromojiToken[] = [];
+  for (let i = 0; i < tokens.length;) {
+    let matched: { term: UserTerm; end: number } | null = null;
+    let surface = '';
+    for (let j = i; j < tokens.length; j++) {
+      surface += tokens[j].surface_form;
+      if (surface.length > dictionary.maxLength) {
+        break;
+      }
+      const term = dictionary.terms.get(surface);
+      if (term) {
+        matched = { term, end: j + 1 };
+      }
+    }
+
+    if (!matched) {
+      result.push(tokens[i]);
+      i++;
+      continue;
+    }
+
+    const { term, end } = matched;
+    result.push({
+      word_id: -1,
+      word_type: 'USER',
+      word_position: tokens[i].word_position,
+      surface_form: term.surface,
+      pos: term.pos,
+      pos_detail_1: term.pos_detail_1,
+      pos_detail_2: term.pos_detail_2,
+      pos_detail_3: term.pos_detail_3,
+      conjugated_type: term.conjugated_type,
+      conjugated_form: term.conjugated_form,
+      basic_form: term.basic_form,
+      reading: term.reading,
+      pronunciation: term.pronunciation
+    });
+    i = end;
+  }
+  return result;
+}
+
+// ユーザー辞書の語に一致したトークンを語ごとに数える関数（出現数の多い順）
+export function countUserTermMatches(tokens: KuromojiToken[], dictionary: UserDictionary | null): UserTermMatch[] {
+  if (!dictionary) {
+    return [];
+  }
+  const matches = new Map<string, UserTermMatch>();
+  for (const token of tokens) {
+    const term = token.word_type === 'USER' ? dictionary.terms.get(token.surface_form) : undefined;
+    if (!term) {
+      continue;
+    }
+    const entry = matches.get(term.surface) || { surface: term.surface, pos: term.pos, reading: term.reading, count: 0, source: term.source };
+    entry.count++;
+    matches.set(term.surface, entry);
+  }
+  return sortMatches([...matches.values()]);
+}
+
+// 複数のテキストの集計を合算する関数
+export function mergeUserTermMatches(lists: UserTermMatch[][]): UserTermMatch[] {
+  const matches = new Map<string, UserTermMatch>();
+  for (const match of lists.flat()) {
+    const entry = matches.get(match.surface);
+    matches.set(match.surface, entry ? { ...entry, count: entry.count + match.count } : { ...match });
+  }
+  return sortMatches([...matches.values()]);
+}
+
+function sortMatches(matches: UserTermMatch[]): UserTermMatch[] {
+  return matches.sort((a, b) => b.count - a.count || a.surface.localeCompare(b.surface));
+}
@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeStatistics, findOutliers } from '../dist/corpus.js';
+
+test('統計量に null の値を含めない', () => {
+  const stats = computeStatistics([10, null, 20, null]);
+
+  assert.deepEqual(stats, { count: 2, mean: 15, stdDev: 5, min: 10, max: 20 });
+});
+
+test('すべて null の指標は値の数を0にする', () => {
+  assert.equal(computeStatistics([null, null]).count, 0);
+});
+
+test('null の値は外れ値と判定しない', () => {
+  const statistics = { politeRatio: computeStatistics([100, 100, 90, 100, null]) };
+
+  assert.deepEqual(findOutliers({ politeRatio: null }, statistics, 1), []);
+  assert.equal(findOutliers({ politeRatio: 90 }, statistics, 1).length, 1);
+});
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createEntityMasks, extractEntities, replaceRanges } from '../dist/entities.js';
+import { findUrlTokenIndices } from '../dist/tokens.js';
+import { tokenize } from './helpers.mjs';
+
+test('URLの中の語を固有表現にしない', async () => {
+  const text = '田中さんは https://example.com/tokyo を見た。';
+  const tokens = await tokenize(text);
+  const entities = extractEntities(tokens, undefined, findUrlTokenIndices(text, tokens));
+
+  assert.deepEqual(entities.map(entity => [entity.text, entity.type]), [['田中', 'person']]);
+});
+
+test('マスクでURLを置き換えない', async () => {
+  const text = '田中さんは https://example.com/tokyo を見た。';
+  const tokens = await tokenize(text);
+  const entities = extractEntities(tokens, undefined, findUrlTokenIndices(text, tokens));
+  const masks = createEntityMasks(entities, 'circle');
+  const masked = replaceRanges(text, entities.flatMap(entity => entity.positions.map(position => ({ ...position, replacement: masks.get(entity) }))));
+
+  assert.equal(masked, '○○さんは https://example.com/tokyo を見た。');
+});
+
+test('辞書にない英字だけの語を組織名にしない', async () => {
+  const tokens = await tokenize('Fooのサービスを使う。');
+
+  assert.deepEqual(extractEntities(tokens), []);
+});
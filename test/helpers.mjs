@@ -0,0 +1,23 @@
+import { createRequire } from 'module';
+import * as path from 'path';
+import { attachOffsets } from '../dist/tokens.js';
+
+const require = createRequire(import.meta.url);
+const kuromoji = require('kuromoji');
+
+let tokenizerPromise;
+
+// テストで共有する形態素解析器（初回だけ辞書を読み込む）
+export function getTokenizer() {
+  tokenizerPromise ??= new Promise((resolve, reject) => {
+    kuromoji.builder({ dicPath: path.join(path.dirname(require.resolve('kuromoji/package.json')), 'dict') })
+      .build((error, tokenizer) => error ? reject(error) : resolve(tokenizer));
+  });
+  return tokenizerPromise;
+}
+
+// テキストを形態素解析し、文字位置を付与したトークンを返す
+export async function tokenize(text) {
+  const tokenizer = await getTokenizer();
+  return attachOffsets(text, tokenizer.tokenize(text));
+}
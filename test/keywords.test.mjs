@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractCompoundNouns, extractNgrams } from '../dist/keywords.js';
+import { splitTokensIntoSentences } from '../dist/sentences.js';
+import { findUrlTokenIndices } from '../dist/tokens.js';
+import { tokenize } from './helpers.mjs';
+
+const terms = compounds => compounds.map(compound => compound.map(token => token.surface_form).join(''));
+
+test('数と記号だけの複合名詞を除く', async () => {
+  const tokens = await tokenize('円周率は3.14です。円周率の値は3.14159です。');
+
+  assert.deepEqual(terms(extractCompoundNouns(tokens)), ['円周率', '円周率', '値']);
+});
+
+test('複合名詞の両端の記号と数を取り除く', async () => {
+  const tokens = await tokenize('バージョン1.2.を使う。');
+
+  assert.deepEqual(terms(extractCompoundNouns(tokens)), ['バージョン']);
+});
+
+test('URLを複合名詞とn-gramに含めない', async () => {
+  const text = '詳細は https://example.com/pi.html を見る。詳細は https://example.com/pi.html を見る。';
+  const tokens = await tokenize(text);
+  const urlTokenIndices = findUrlTokenIndices(text, tokens);
+  const ngrams = extractNgrams(splitTokensIntoSentences(text, tokens), 2, 3, 2, 20, urlTokenIndices);
+
+  assert.deepEqual(terms(extractCompoundNouns(tokens, urlTokenIndices)), ['詳細', '詳細']);
+  assert.deepEqual(ngrams.map(ngram => ngram.phrase), ['を 見る', '詳細 は']);
+});
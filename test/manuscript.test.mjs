@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_MANUSCRIPT_OPTIONS, layoutManuscript } from '../dist/manuscript.js';
+
+const options = (overrides = {}) => ({ ...DEFAULT_MANUSCRIPT_OPTIONS, ...overrides });
+
+test('末尾の改行を空行として数えない', () => {
+  assert.equal(layoutManuscript('あいうえお\n').totalLines, 1);
+  assert.equal(layoutManuscript('あいうえお\r\n').totalLines, 1);
+  assert.equal(layoutManuscript('あいうえお').totalLines, 1);
+});
+
+test('末尾の改行で枚数が増えない', () => {
+  // 字下げなしで20マス×20行をちょうど埋める
+  const text = Array.from({ length: 20 }, () => 'あ'.repeat(20)).join('\n') + '\n';
+  const layout = layoutManuscript(text, options({ indent: false }));
+
+  assert.equal(layout.totalLines, 20);
+  assert.equal(layout.pages, 1);
+});
+
+test('途中の空行は数える', () => {
+  assert.equal(layoutManuscript('あいうえお\n\nかきくけこ\n').totalLines, 3);
+});
+
+test('行頭の「）。」は両方を前の行にぶら下げる', () => {
+  const layout = layoutManuscript('あいう（えお）。かき', options({ columns: 6, indent: false }));
+
+  assert.deepEqual(layout.lines.map(line => [line.cells.join(''), line.hanging]), [
+    ['あいう（えお', '）。'],
+    ['かき', null]
+  ]);
+  assert.equal(layout.usedCells, 10);
+});
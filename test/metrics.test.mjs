@@ -0,0 +1,17 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveMetricSettings } from '../dist/metrics.js';
+
+test('削除した指標を指定すると代わりの指標を示してエラーにする', () => {
+  assert.throws(
+    () => resolveMetricSettings({ enabledMetrics: ['honorific_frequency'] }),
+    /削除された指標です: honorific_frequency（代わりに sentence_style_ratio を使用してください）/
+  );
+  assert.throws(() => resolveMetricSettings({ metrics: { honorific_frequency: {} } }), /削除された指標です/);
+});
+
+test('既定の指標に敬語の頻度を含めない', () => {
+  const settings = resolveMetricSettings();
+  assert.ok(settings.enabled.every(definition => definition.id !== 'honorific_frequency'));
+  assert.ok(settings.enabled.some(definition => definition.id === 'sentence_style_ratio'));
+});
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeReadability } from '../dist/readability.js';
+import { splitTokensIntoSentences } from '../dist/sentences.js';
+import { tokenize } from './helpers.mjs';
+
+for (const method of ['jreadability', 'tateishi']) {
+  test(`文がないテキストはスコアを算出しない（${method}）`, async () => {
+    for (const text of ['', '   ', '\n\n']) {
+      const tokens = await tokenize(text);
+      const result = computeReadability(text, tokens, splitTokensIntoSentences(text, tokens).length, method);
+
+      assert.equal(result.score, null);
+      assert.equal(result.level, null);
+      assert.deepEqual(result.components, []);
+    }
+  });
+}
+
+test('文があるテキストはスコアを算出する', async () => {
+  const text = '今日は晴れです。';
+  const tokens = await tokenize(text);
+  const result = computeReadability(text, tokens, splitTokensIntoSentences(text, tokens).length);
+
+  assert.equal(typeof result.score, 'number');
+  assert.equal(typeof result.level, 'string');
+});
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { splitIntoChunks } from '../dist/tokenization.js';
+import { getTokenizer } from './helpers.mjs';
+
+test('「。」「、」の直後を改行や空白より優先して分割する', () => {
+  assert.deepEqual(splitIntoChunks('今日は晴れ。明日は\n雨 です', 10), ['今日は晴れ。', '明日は\n雨 です']);
+  assert.deepEqual(splitIntoChunks('今日は、晴れ\n明日は 雨です', 12), ['今日は、', '晴れ\n明日は 雨です']);
+});
+
+test('「。」「、」がない場合は改行、空白の順に分割する', () => {
+  assert.deepEqual(splitIntoChunks('今日は晴れ\n明日は 雨です', 12), ['今日は晴れ\n', '明日は 雨です']);
+  assert.deepEqual(splitIntoChunks('今日は晴れ 明日は雨です', 10), ['今日は晴れ ', '明日は雨です']);
+});
+
+test('「。」「、」の直後で分割した解析結果は分割しない場合と同じ', async () => {
+  const tokenizer = await getTokenizer();
+  const text = '吾輩は猫である。名前はまだ無い。どこで生れたか、とんと見当がつかぬ。何でも薄暗いじめじめした所で、ニャーニャー泣いていた事だけは記憶している。';
+  const chunks = splitIntoChunks(text, 25);
+  assert.ok(chunks.length > 1);
+  assert.ok(chunks.every(chunk => /[。、]$/.test(chunk)));
+
+  const whole = tokenizer.tokenize(text).map(token => `${token.surface_form}/${token.pos}`);
+  const split = chunks.flatMap(chunk => tokenizer.tokenize(chunk).map(token => `${token.surface_form}/${token.pos}`));
+  assert.deepEqual(split, whole);
+});